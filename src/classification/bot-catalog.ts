@@ -0,0 +1,289 @@
+/**
+ * Bot Catalog
+ *
+ * Known automated clients identified by User-Agent product token: AI
+ * crawlers and agents, search engines, SEO tools, social link previewers,
+ * uptime monitors, HTTP libraries and headless browsers.
+ *
+ * Hardcoded (no D1 access at SDK edge) and updated with each SDK release;
+ * dashboard rules compensate for gaps. When a UA contains several tokens
+ * the entry listed first wins, so more specific patterns (e.g.
+ * "Googlebot-Image") come before the patterns they contain ("Googlebot").
+ */
+
+import { UserAgentMatcher } from "./ua-matcher";
+import type {
+  BotCatalogEntry,
+  BotCategory,
+  BotDefinitionsConfig,
+  BotMatch,
+} from "../types/bot-catalog.types";
+
+/** Google crawler documentation (all Google fetchers are listed here) */
+const GOOGLE_CRAWLERS_DOCS = "https://developers.google.com/search/docs/crawling-indexing/overview-google-crawlers";
+const OPENAI_BOTS_DOCS = "https://platform.openai.com/docs/bots";
+const ANTHROPIC_BOTS_DOCS =
+  "https://support.anthropic.com/en/articles/8896518-does-anthropic-crawl-data-from-the-web-and-how-can-site-owners-block-the-crawler";
+const PERPLEXITY_BOTS_DOCS = "https://docs.perplexity.ai/guides/bots";
+const META_CRAWLERS_DOCS = "https://developers.facebook.com/docs/sharing/webmasters/web-crawlers";
+const APPLE_BOTS_DOCS = "https://support.apple.com/en-us/119829";
+const BING_CRAWLERS_DOCS = "https://www.bing.com/webmasters/help/which-crawlers-does-bing-use-8c184ec0";
+
+/**
+ * Categories of AI bots (crawlers, AI search and agents)
+ */
+export const AI_BOT_CATEGORIES: readonly BotCategory[] = ["ai-crawler", "ai-search", "ai-agent"];
+
+/**
+ * Known bots, most specific pattern first
+ */
+export const BOT_CATALOG: readonly BotCatalogEntry[] = [
+  // OpenAI
+  { pattern: "GPTBot", name: "GPTBot", category: "ai-crawler", operator: "OpenAI", purpose: "training", respectsRobots: true, docsUrl: OPENAI_BOTS_DOCS, tags: ["openai", "llm-training"] },
+  { pattern: "ChatGPT-User", name: "ChatGPT-User", category: "ai-agent", operator: "OpenAI", purpose: "user-triggered", respectsRobots: false, docsUrl: OPENAI_BOTS_DOCS, tags: ["openai", "conversational"] },
+  { pattern: "OAI-SearchBot", name: "OAI-SearchBot", category: "ai-search", operator: "OpenAI", purpose: "search", respectsRobots: true, docsUrl: OPENAI_BOTS_DOCS, tags: ["openai", "search"] },
+
+  // Anthropic
+  { pattern: "ClaudeBot", name: "ClaudeBot", category: "ai-crawler", operator: "Anthropic", purpose: "training", respectsRobots: true, docsUrl: ANTHROPIC_BOTS_DOCS, tags: ["anthropic", "llm-training"] },
+  { pattern: "Claude-User", name: "Claude-User", category: "ai-agent", operator: "Anthropic", purpose: "user-triggered", respectsRobots: true, docsUrl: ANTHROPIC_BOTS_DOCS, tags: ["anthropic", "conversational"] },
+  { pattern: "Claude-SearchBot", name: "Claude-SearchBot", category: "ai-search", operator: "Anthropic", purpose: "search", respectsRobots: true, docsUrl: ANTHROPIC_BOTS_DOCS, tags: ["anthropic", "search"] },
+  { pattern: "Anthropic-AI", name: "Anthropic-AI", category: "ai-crawler", operator: "Anthropic", purpose: "training", respectsRobots: true, docsUrl: ANTHROPIC_BOTS_DOCS, tags: ["anthropic", "llm-training"] },
+
+  // Google (AI)
+  { pattern: "Google-Extended", name: "Google-Extended", category: "ai-crawler", operator: "Google", purpose: "training", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "llm-training"] },
+  { pattern: "GoogleAgent-Mariner", name: "GoogleAgent-Mariner", category: "ai-agent", operator: "Google", purpose: "user-triggered", respectsRobots: false, tags: ["google", "agent"] },
+  { pattern: "Google-CloudVertexBot", name: "Google-CloudVertexBot", category: "ai-crawler", operator: "Google", purpose: "training", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "vertex"] },
+
+  // Amazon
+  { pattern: "Amazonbot", name: "Amazonbot", category: "ai-crawler", operator: "Amazon", purpose: "training", respectsRobots: true, docsUrl: "https://developer.amazon.com/amazonbot", tags: ["amazon", "alexa"] },
+
+  // ByteDance
+  { pattern: "Bytespider", name: "Bytespider", category: "ai-crawler", operator: "ByteDance", purpose: "training", respectsRobots: false, tags: ["bytedance", "llm-training"] },
+
+  // Common Crawl
+  { pattern: "CCBot", name: "CCBot", category: "ai-crawler", operator: "Common Crawl", purpose: "training", respectsRobots: true, docsUrl: "https://commoncrawl.org/ccbot", tags: ["commoncrawl", "llm-training"] },
+
+  // Cohere
+  { pattern: "cohere-ai", name: "Cohere-AI", category: "ai-crawler", operator: "Cohere", purpose: "training", respectsRobots: false, tags: ["cohere", "llm-training"] },
+
+  // Perplexity
+  { pattern: "PerplexityBot", name: "PerplexityBot", category: "ai-search", operator: "Perplexity", purpose: "search", respectsRobots: true, docsUrl: PERPLEXITY_BOTS_DOCS, tags: ["perplexity", "search"] },
+  { pattern: "Perplexity-User", name: "Perplexity-User", category: "ai-agent", operator: "Perplexity", purpose: "user-triggered", respectsRobots: false, docsUrl: PERPLEXITY_BOTS_DOCS, tags: ["perplexity", "conversational"] },
+
+  // Meta (AI)
+  { pattern: "Meta-ExternalAgent", name: "Meta-ExternalAgent", category: "ai-crawler", operator: "Meta", purpose: "training", respectsRobots: true, docsUrl: META_CRAWLERS_DOCS, tags: ["meta", "llm-training"] },
+  { pattern: "Meta-ExternalFetcher", name: "Meta-ExternalFetcher", category: "ai-agent", operator: "Meta", purpose: "user-triggered", respectsRobots: false, docsUrl: META_CRAWLERS_DOCS, tags: ["meta", "agent"] },
+  { pattern: "FacebookBot", name: "FacebookBot", category: "ai-crawler", operator: "Meta", purpose: "training", respectsRobots: true, docsUrl: META_CRAWLERS_DOCS, tags: ["meta", "social"] },
+
+  // Apple
+  { pattern: "Applebot-Extended", name: "Applebot-Extended", category: "ai-crawler", operator: "Apple", purpose: "training", respectsRobots: true, docsUrl: APPLE_BOTS_DOCS, tags: ["apple", "llm-training"] },
+
+  // Mistral
+  { pattern: "MistralAI-User", name: "MistralAI-User", category: "ai-agent", operator: "Mistral AI", purpose: "user-triggered", respectsRobots: false, tags: ["mistral", "conversational"] },
+  { pattern: "MistralBot", name: "MistralBot", category: "ai-crawler", operator: "Mistral AI", purpose: "training", respectsRobots: true, tags: ["mistral", "llm-training"] },
+
+  // AI search agents
+  { pattern: "YouBot", name: "YouBot", category: "ai-search", operator: "You.com", purpose: "search", respectsRobots: true, tags: ["you.com", "search"] },
+  { pattern: "Brave-Search", name: "Brave-Search", category: "ai-search", operator: "Brave", purpose: "search", respectsRobots: true, tags: ["brave", "search"] },
+  { pattern: "DuckAssistBot", name: "DuckAssistBot", category: "ai-search", operator: "DuckDuckGo", purpose: "user-triggered", respectsRobots: true, docsUrl: "https://duckduckgo.com/duckduckgo-help-pages/results/duckassistbot", tags: ["duckduckgo", "search"] },
+
+  // Google (search and ads)
+  { pattern: "Googlebot-Image", name: "Googlebot-Image", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "images"] },
+  { pattern: "Googlebot-Video", name: "Googlebot-Video", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "video"] },
+  { pattern: "Googlebot-News", name: "Googlebot-News", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "news"] },
+  { pattern: "Googlebot", name: "Googlebot", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google"] },
+  { pattern: "Google-InspectionTool", name: "Google-InspectionTool", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "testing"] },
+  { pattern: "GoogleOther", name: "GoogleOther", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google"] },
+  { pattern: "Storebot-Google", name: "Storebot-Google", category: "search-engine", operator: "Google", purpose: "search", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "shopping"] },
+  { pattern: "AdsBot-Google", name: "AdsBot-Google", category: "search-engine", operator: "Google", purpose: "advertising", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "ads"] },
+  { pattern: "Mediapartners-Google", name: "Mediapartners-Google", category: "search-engine", operator: "Google", purpose: "advertising", respectsRobots: true, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "ads"] },
+  { pattern: "FeedFetcher-Google", name: "FeedFetcher-Google", category: "search-engine", operator: "Google", purpose: "user-triggered", respectsRobots: false, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google", "feeds"] },
+  { pattern: "Google-Read-Aloud", name: "Google-Read-Aloud", category: "search-engine", operator: "Google", purpose: "user-triggered", respectsRobots: false, docsUrl: GOOGLE_CRAWLERS_DOCS, tags: ["google"] },
+
+  // Microsoft
+  { pattern: "bingbot", name: "Bingbot", category: "search-engine", operator: "Microsoft", purpose: "search", respectsRobots: true, docsUrl: BING_CRAWLERS_DOCS, tags: ["microsoft", "search"] },
+  { pattern: "BingPreview", name: "BingPreview", category: "search-engine", operator: "Microsoft", purpose: "preview", respectsRobots: true, docsUrl: BING_CRAWLERS_DOCS, tags: ["microsoft", "preview"] },
+  { pattern: "AdIdxBot", name: "AdIdxBot", category: "search-engine", operator: "Microsoft", purpose: "advertising", respectsRobots: true, docsUrl: BING_CRAWLERS_DOCS, tags: ["microsoft", "ads"] },
+  { pattern: "msnbot", name: "MSNBot", category: "search-engine", operator: "Microsoft", purpose: "search", respectsRobots: true, docsUrl: BING_CRAWLERS_DOCS, tags: ["microsoft", "search"] },
+
+  // Apple (search)
+  { pattern: "Applebot", name: "Applebot", category: "search-engine", operator: "Apple", purpose: "search", respectsRobots: true, docsUrl: APPLE_BOTS_DOCS, tags: ["apple", "search"] },
+
+  // Other search engines
+  { pattern: "DuckDuckBot", name: "DuckDuckBot", category: "search-engine", operator: "DuckDuckGo", purpose: "search", respectsRobots: true, docsUrl: "https://duckduckgo.com/duckduckgo-help-pages/results/duckduckbot", tags: ["duckduckgo", "search"] },
+  { pattern: "YandexBot", name: "YandexBot", category: "search-engine", operator: "Yandex", purpose: "search", respectsRobots: true, docsUrl: "https://yandex.com/support/webmaster/robot-workings/check-yandex-robots.html", tags: ["yandex", "search"] },
+  { pattern: "YandexImages", name: "YandexImages", category: "search-engine", operator: "Yandex", purpose: "search", respectsRobots: true, docsUrl: "https://yandex.com/support/webmaster/robot-workings/check-yandex-robots.html", tags: ["yandex", "images"] },
+  { pattern: "Baiduspider", name: "Baiduspider", category: "search-engine", operator: "Baidu", purpose: "search", respectsRobots: true, docsUrl: "https://www.baidu.com/search/robots_english.html", tags: ["baidu", "search"] },
+  { pattern: "SeznamBot", name: "SeznamBot", category: "search-engine", operator: "Seznam", purpose: "search", respectsRobots: true, tags: ["seznam", "search"] },
+  { pattern: "Yeti", name: "Yeti", category: "search-engine", operator: "Naver", purpose: "search", respectsRobots: true, tags: ["naver", "search"] },
+  { pattern: "Sogou web spider", name: "Sogou", category: "search-engine", operator: "Sogou", purpose: "search", respectsRobots: true, tags: ["sogou", "search"] },
+  { pattern: "Qwantbot", name: "Qwantbot", category: "search-engine", operator: "Qwant", purpose: "search", respectsRobots: true, tags: ["qwant", "search"] },
+
+  // SEO tools
+  { pattern: "AhrefsSiteAudit", name: "AhrefsSiteAudit", category: "seo-tool", operator: "Ahrefs", purpose: "seo", respectsRobots: true, docsUrl: "https://ahrefs.com/robot/site-audit", tags: ["ahrefs"] },
+  { pattern: "AhrefsBot", name: "AhrefsBot", category: "seo-tool", operator: "Ahrefs", purpose: "seo", respectsRobots: true, docsUrl: "https://ahrefs.com/robot", tags: ["ahrefs"] },
+  { pattern: "SemrushBot", name: "SemrushBot", category: "seo-tool", operator: "Semrush", purpose: "seo", respectsRobots: true, docsUrl: "https://www.semrush.com/bot/", tags: ["semrush"] },
+  { pattern: "SiteAuditBot", name: "SiteAuditBot", category: "seo-tool", operator: "Semrush", purpose: "seo", respectsRobots: true, docsUrl: "https://www.semrush.com/bot/", tags: ["semrush"] },
+  { pattern: "DotBot", name: "DotBot", category: "seo-tool", operator: "Moz", purpose: "seo", respectsRobots: true, docsUrl: "https://moz.com/help/moz-procedures/crawlers/dotbot", tags: ["moz"] },
+  { pattern: "rogerbot", name: "Rogerbot", category: "seo-tool", operator: "Moz", purpose: "seo", respectsRobots: true, docsUrl: "https://moz.com/help/moz-procedures/crawlers/rogerbot", tags: ["moz"] },
+  { pattern: "MJ12bot", name: "MJ12bot", category: "seo-tool", operator: "Majestic", purpose: "seo", respectsRobots: true, docsUrl: "https://mj12bot.com/", tags: ["majestic"] },
+  { pattern: "DataForSeoBot", name: "DataForSeoBot", category: "seo-tool", operator: "DataForSEO", purpose: "seo", respectsRobots: true, tags: ["dataforseo"] },
+  { pattern: "BLEXBot", name: "BLEXBot", category: "seo-tool", operator: "WebMeUp", purpose: "seo", respectsRobots: true, tags: ["webmeup"] },
+  { pattern: "Screaming Frog SEO Spider", name: "Screaming Frog", category: "seo-tool", operator: "Screaming Frog", purpose: "seo", respectsRobots: false, docsUrl: "https://www.screamingfrog.co.uk/seo-spider/", tags: ["screaming-frog"] },
+
+  // Social link previews ("TelegramBot (like TwitterBot)" must match before Twitterbot)
+  { pattern: "TelegramBot", name: "TelegramBot", category: "social-preview", operator: "Telegram", purpose: "preview", respectsRobots: false, tags: ["telegram"] },
+  { pattern: "Twitterbot", name: "Twitterbot", category: "social-preview", operator: "X", purpose: "preview", respectsRobots: true, docsUrl: "https://developer.x.com/en/docs/x-for-websites/cards/guides/getting-started", tags: ["twitter"] },
+  { pattern: "facebookexternalhit", name: "facebookexternalhit", category: "social-preview", operator: "Meta", purpose: "preview", respectsRobots: false, docsUrl: META_CRAWLERS_DOCS, tags: ["meta", "social"] },
+  { pattern: "Slackbot-LinkExpanding", name: "Slackbot-LinkExpanding", category: "social-preview", operator: "Slack", purpose: "preview", respectsRobots: false, docsUrl: "https://api.slack.com/robots", tags: ["slack"] },
+  { pattern: "Slackbot", name: "Slackbot", category: "social-preview", operator: "Slack", purpose: "preview", respectsRobots: false, docsUrl: "https://api.slack.com/robots", tags: ["slack"] },
+  { pattern: "Discordbot", name: "Discordbot", category: "social-preview", operator: "Discord", purpose: "preview", respectsRobots: false, tags: ["discord"] },
+  { pattern: "LinkedInBot", name: "LinkedInBot", category: "social-preview", operator: "LinkedIn", purpose: "preview", respectsRobots: true, tags: ["linkedin"] },
+  { pattern: "WhatsApp", name: "WhatsApp", category: "social-preview", operator: "Meta", purpose: "preview", respectsRobots: false, tags: ["meta", "whatsapp"] },
+  { pattern: "Pinterestbot", name: "Pinterestbot", category: "social-preview", operator: "Pinterest", purpose: "preview", respectsRobots: true, tags: ["pinterest"] },
+  { pattern: "redditbot", name: "Redditbot", category: "social-preview", operator: "Reddit", purpose: "preview", respectsRobots: true, tags: ["reddit"] },
+  { pattern: "SkypeUriPreview", name: "SkypeUriPreview", category: "social-preview", operator: "Microsoft", purpose: "preview", respectsRobots: false, tags: ["microsoft", "skype"] },
+  { pattern: "Embedly", name: "Embedly", category: "social-preview", operator: "Embedly", purpose: "preview", respectsRobots: false, tags: ["embedly"] },
+  { pattern: "Iframely", name: "Iframely", category: "social-preview", operator: "Iframely", purpose: "preview", respectsRobots: false, tags: ["iframely"] },
+
+  // Uptime and performance monitors
+  { pattern: "UptimeRobot", name: "UptimeRobot", category: "monitor", operator: "UptimeRobot", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "Pingdom", name: "Pingdom", category: "monitor", operator: "SolarWinds", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "StatusCake", name: "StatusCake", category: "monitor", operator: "StatusCake", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "Site24x7", name: "Site24x7", category: "monitor", operator: "Zoho", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "Better Uptime Bot", name: "Better Uptime", category: "monitor", operator: "Better Stack", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "Datadog/Synthetics", name: "Datadog Synthetics", category: "monitor", operator: "Datadog", purpose: "monitoring", respectsRobots: false, tags: ["synthetics"] },
+  { pattern: "NewRelicPinger", name: "New Relic Pinger", category: "monitor", operator: "New Relic", purpose: "monitoring", respectsRobots: false, tags: ["uptime"] },
+  { pattern: "Checkly", name: "Checkly", category: "monitor", operator: "Checkly", purpose: "monitoring", respectsRobots: false, tags: ["synthetics"] },
+  { pattern: "Chrome-Lighthouse", name: "Lighthouse", category: "monitor", operator: "Google", purpose: "monitoring", respectsRobots: false, tags: ["google", "performance"] },
+  { pattern: "GTmetrix", name: "GTmetrix", category: "monitor", operator: "GTmetrix", purpose: "monitoring", respectsRobots: false, tags: ["performance"] },
+
+  // Headless browsers and browser automation
+  { pattern: "HeadlessChrome", name: "HeadlessChrome", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["chromium"] },
+  { pattern: "PhantomJS", name: "PhantomJS", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["webkit"] },
+  { pattern: "SlimerJS", name: "SlimerJS", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["gecko"] },
+  { pattern: "Puppeteer", name: "Puppeteer", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["chromium"] },
+  { pattern: "Playwright", name: "Playwright", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: [] },
+  { pattern: "Selenium", name: "Selenium", category: "headless-browser", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: [] },
+
+  // HTTP libraries and command-line clients
+  { pattern: "curl", name: "curl", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["cli"] },
+  { pattern: "Wget", name: "Wget", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["cli"] },
+  { pattern: "python-requests", name: "python-requests", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["python"] },
+  { pattern: "python-urllib", name: "python-urllib", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["python"] },
+  { pattern: "python-httpx", name: "httpx", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["python"] },
+  { pattern: "aiohttp", name: "aiohttp", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["python"] },
+  { pattern: "Scrapy", name: "Scrapy", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["python", "scraper"] },
+  { pattern: "Go-http-client", name: "Go-http-client", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["go"] },
+  { pattern: "okhttp", name: "okhttp", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["java"] },
+  { pattern: "Apache-HttpClient", name: "Apache-HttpClient", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["java"] },
+  { pattern: "axios", name: "axios", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["node"] },
+  { pattern: "node-fetch", name: "node-fetch", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["node"] },
+  { pattern: "undici", name: "undici", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["node"] },
+  { pattern: "libwww-perl", name: "libwww-perl", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["perl"] },
+  { pattern: "GuzzleHttp", name: "Guzzle", category: "http-library", operator: "Unknown", purpose: "automation", respectsRobots: false, tags: ["php"] },
+  { pattern: "PostmanRuntime", name: "Postman", category: "http-library", operator: "Postman", purpose: "automation", respectsRobots: false, tags: ["api-client"] },
+  { pattern: "insomnia", name: "Insomnia", category: "http-library", operator: "Kong", purpose: "automation", respectsRobots: false, tags: ["api-client"] },
+];
+
+/** Valid categories, for checking dashboard-supplied entries */
+const BOT_CATEGORIES = new Set<BotCategory>([
+  "ai-crawler",
+  "ai-search",
+  "ai-agent",
+  "search-engine",
+  "seo-tool",
+  "social-preview",
+  "monitor",
+  "http-library",
+  "headless-browser",
+]);
+
+/**
+ * Whether an entry belongs to an AI bot category
+ */
+export function isAiBotCategory(category: BotCategory): boolean {
+  return AI_BOT_CATEGORIES.includes(category);
+}
+
+/**
+ * Matched entry with its version
+ */
+function toBotMatch(match: { entry: BotCatalogEntry; version?: string } | null): BotMatch | null {
+  if (!match) return null;
+  return match.version ? { ...match.entry, version: match.version } : match.entry;
+}
+
+/**
+ * Bot entries compiled into UA matchers
+ *
+ * Compiling is the expensive part, so build a catalog once and reuse it
+ * across requests.
+ */
+export class BotCatalog {
+  private matcher: UserAgentMatcher<BotCatalogEntry>;
+  private aiMatcher: UserAgentMatcher<BotCatalogEntry>;
+
+  constructor(readonly entries: readonly BotCatalogEntry[]) {
+    this.matcher = new UserAgentMatcher(entries);
+    this.aiMatcher = new UserAgentMatcher(entries.filter((entry) => isAiBotCategory(entry.category)));
+  }
+
+  /**
+   * Find the entry for a user-agent, with the version that follows its
+   * token (e.g. "1.2" for "GPTBot/1.2")
+   */
+  detect(userAgent: string): BotMatch | null {
+    return toBotMatch(this.matcher.match(userAgent));
+  }
+
+  /**
+   * Find the AI bot entry (crawler, search or agent) for a user-agent
+   */
+  detectAi(userAgent: string): BotMatch | null {
+    return toBotMatch(this.aiMatcher.match(userAgent));
+  }
+}
+
+/**
+ * Catalog compiled from the built-in entries
+ */
+export const DEFAULT_BOT_CATALOG = new BotCatalog(BOT_CATALOG);
+
+/**
+ * Find the built-in catalog entry for a user-agent
+ */
+export function detectBot(userAgent: string): BotMatch | null {
+  return DEFAULT_BOT_CATALOG.detect(userAgent);
+}
+
+/**
+ * Apply additions, overrides and disables to a list of entries
+ *
+ * Additions come first so they win over built-in entries when a UA
+ * contains both tokens. Malformed additions (no pattern, name or known
+ * category) are skipped, since they may come from the dashboard.
+ */
+export function applyBotDefinitions(
+  entries: readonly BotCatalogEntry[],
+  definitions: BotDefinitionsConfig,
+): BotCatalogEntry[] {
+  const additions = (definitions.additions ?? [])
+    .filter((entry) =>
+      typeof entry?.pattern === "string" && entry.pattern !== "" &&
+      typeof entry.name === "string" && entry.name !== "" &&
+      BOT_CATEGORIES.has(entry.category),
+    )
+    .map((entry) => ({ ...entry, tags: entry.tags ?? [] }));
+
+  const addedNames = new Set(additions.map((entry) => entry.name));
+  const disabled = new Set(definitions.disabled ?? []);
+  const overrides = definitions.overrides ?? {};
+
+  return [...additions, ...entries.filter((entry) => !addedNames.has(entry.name))]
+    .filter((entry) => !disabled.has(entry.name))
+    .map((entry) => {
+      const override = overrides[entry.name];
+      return override ? { ...entry, ...override, name: entry.name } : entry;
+    });
+}
@@ -0,0 +1,23 @@
+/**
+ * Classification
+ *
+ * Edge traffic classification (human, good/bad/neutral bot) and the
+ * catalog of known bots.
+ */
+
+export {
+  BOT_CATALOG,
+  AI_BOT_CATEGORIES,
+  BotCatalog,
+  DEFAULT_BOT_CATALOG,
+  applyBotDefinitions,
+  detectBot,
+  isAiBotCategory,
+} from "./bot-catalog";
+export { UserAgentMatcher, type UserAgentMatch, type UserAgentPattern } from "./ua-matcher";
+
+export {
+  classifyRequest,
+  detectHeaderAnomalies,
+  type ClassificationSignals,
+} from "./traffic-classifier";
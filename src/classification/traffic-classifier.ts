@@ -0,0 +1,194 @@
+/**
+ * Traffic Classifier
+ *
+ * Combines the bot catalog, the edge provider's bot score, crawler
+ * verification, Web Bot Auth and request header anomalies into a single
+ * BotClassification. Signals are checked strongest first:
+ *
+ * 1. Signed agents and verified crawlers → good_bot
+ * 2. Spoofed crawler claims → bad_bot
+ * 3. Catalog matches (unverified): crawlers and previewers → good_bot,
+ *    SEO tools, monitors and HTTP libraries → neutral_bot, headless
+ *    browsers → bad_bot
+ * 4. Other HTTP libraries and self-declared bots → neutral_bot
+ * 5. Low provider scores → bad_bot
+ * 6. Browser requests with several header anomalies → bad_bot
+ * 7. Everything else → human
+ *
+ * Scores use the ClassifiedEvent scale: 0 = definitely bot, 100 = definitely human.
+ */
+
+import { BotCatalog, DEFAULT_BOT_CATALOG } from "./bot-catalog";
+import type { BotCategory } from "../types/bot-catalog.types";
+import type { BotClassification } from "../types/ingest-event.types";
+import type { ProviderBotData } from "../types/provider.types";
+import type { BotVerificationStatus, SignedAgent } from "../types/verification.types";
+
+/**
+ * Request authentication and provider signals
+ */
+export interface ClassificationSignals {
+  providerBotData?: ProviderBotData;
+  botVerification?: BotVerificationStatus;
+  signedAgent?: SignedAgent;
+}
+
+/**
+ * Classification of unverified catalog matches, by category
+ */
+const CATALOG_CLASSIFICATION: Record<BotCategory, Pick<BotClassification, "type" | "score" | "confidence"> & { reason: string }> = {
+  "ai-crawler": { type: "good_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "ai-search": { type: "good_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "ai-agent": { type: "good_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "search-engine": { type: "good_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "social-preview": { type: "good_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "seo-tool": { type: "neutral_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "monitor": { type: "neutral_bot", score: 5, confidence: "medium", reason: "catalog" },
+  "http-library": { type: "neutral_bot", score: 5, confidence: "high", reason: "http-library" },
+  "headless-browser": { type: "bad_bot", score: 5, confidence: "medium", reason: "headless" },
+};
+
+/** HTTP client libraries not in the catalog (UA starts with the library name) */
+const HTTP_LIBRARY_PATTERN = /^(?:Python|Java|PHP|Ruby|Dart|reqwest|Rust|libcurl|HTTPie)\b/i;
+
+/** Self-declared automated clients not in the catalog */
+const GENERIC_BOT_PATTERN = /bot\b|crawl|spider|slurp|scrape|fetcher|monitor|checker/i;
+
+/** Browser User-Agents */
+const BROWSER_PATTERN = /Mozilla\/5\.0/;
+
+/** Chromium version that always sends client hints over HTTPS */
+const CHROMIUM_UA_PATTERN = /Chrome\/(\d+)/;
+const MIN_CLIENT_HINTS_CHROME_VERSION = 90;
+
+/**
+ * Provider scores at or below these are automated
+ * (provider scale: 1 = almost certainly automated, 99 = human)
+ */
+const PROVIDER_AUTOMATED_SCORE = 10;
+const PROVIDER_LIKELY_AUTOMATED_SCORE = 30;
+
+/** Anomalies on a browser UA needed to call it a bad bot */
+const ANOMALY_THRESHOLD = 2;
+
+/**
+ * Header inconsistencies for a request claiming to be a browser
+ *
+ * Real browsers send Accept and Accept-Language on navigations, and
+ * Chromium sends Sec-CH-UA client hints over HTTPS.
+ */
+export function detectHeaderAnomalies(request: Request): string[] {
+  const headers = request.headers;
+  const userAgent = headers.get("User-Agent") || "";
+  if (!BROWSER_PATTERN.test(userAgent)) return [];
+
+  const anomalies: string[] = [];
+  if (!headers.get("Accept")) anomalies.push("missing-accept");
+  if (!headers.get("Accept-Language")) anomalies.push("missing-accept-language");
+
+  const chrome = CHROMIUM_UA_PATTERN.exec(userAgent);
+  const https = request.url.startsWith("https:");
+  if (
+    chrome &&
+    https &&
+    Number(chrome[1]) >= MIN_CLIENT_HINTS_CHROME_VERSION &&
+    !/Firefox|FxiOS|CriOS/.test(userAgent) &&
+    !headers.has("Sec-CH-UA")
+  ) {
+    anomalies.push("missing-client-hints");
+  }
+  return anomalies;
+}
+
+/**
+ * Classify a request
+ *
+ * @param catalog - Catalog with dashboard bot definitions applied (defaults to built-in)
+ */
+export function classifyRequest(
+  request: Request,
+  signals: ClassificationSignals = {},
+  catalog: BotCatalog = DEFAULT_BOT_CATALOG,
+): BotClassification {
+  const { providerBotData, botVerification, signedAgent } = signals;
+  const userAgent = request.headers.get("User-Agent") || "";
+  const bot = catalog.detect(userAgent);
+  const providerScore = providerBotData?.score;
+
+  // 1. Cryptographic or network-verified identity
+  if (signedAgent) {
+    // The UA's bot name only counts when the signer operates that bot
+    const signerOperatesBot = bot?.operator.toLowerCase() === signedAgent.operator?.toLowerCase();
+    return {
+      type: "good_bot",
+      score: 0,
+      botName: bot && signerOperatesBot ? bot.name : new URL(signedAgent.agent).hostname,
+      confidence: "high",
+      reasons: ["signed-agent"],
+    };
+  }
+  if (botVerification === "verified" || providerBotData?.verified) {
+    return {
+      type: "good_bot",
+      score: 0,
+      botName: bot?.name ?? providerBotData?.botName,
+      confidence: "high",
+      reasons: ["verified"],
+    };
+  }
+
+  // 2. Claims to be a known crawler from the wrong network
+  if (botVerification === "spoofed") {
+    return { type: "bad_bot", score: 0, botName: bot?.name, confidence: "high", reasons: ["spoofed"] };
+  }
+
+  // 3. Self-declared known bot (unverifiable)
+  if (bot) {
+    const { reason, ...classification } = CATALOG_CLASSIFICATION[bot.category];
+    return { ...classification, botName: bot.name, reasons: [reason] };
+  }
+
+  // 4. Automation visible in the User-Agent
+  if (!userAgent) {
+    return { type: "bad_bot", score: 10, confidence: "low", reasons: ["missing-user-agent"] };
+  }
+  const library = HTTP_LIBRARY_PATTERN.exec(userAgent);
+  if (library) {
+    return { type: "neutral_bot", score: 5, botName: library[0], confidence: "high", reasons: ["http-library"] };
+  }
+  if (GENERIC_BOT_PATTERN.test(userAgent)) {
+    return { type: "neutral_bot", score: 10, confidence: "medium", reasons: ["generic-bot"] };
+  }
+
+  // 5. Edge provider says automated
+  if (providerScore !== undefined && providerScore <= PROVIDER_LIKELY_AUTOMATED_SCORE) {
+    return {
+      type: "bad_bot",
+      score: providerScore,
+      confidence: providerScore <= PROVIDER_AUTOMATED_SCORE ? "high" : "medium",
+      reasons: ["provider-score"],
+    };
+  }
+
+  // 6. Browser UA with inconsistent headers
+  const anomalies = detectHeaderAnomalies(request);
+  if (anomalies.length >= ANOMALY_THRESHOLD) {
+    return { type: "bad_bot", score: 20, confidence: "low", reasons: anomalies };
+  }
+
+  // 7. Human
+  if (providerScore !== undefined) {
+    return {
+      type: "human",
+      score: providerScore,
+      confidence: anomalies.length === 0 ? "high" : "medium",
+      reasons: anomalies,
+    };
+  }
+  return {
+    type: "human",
+    score: anomalies.length === 0 ? 90 : 60,
+    confidence: anomalies.length === 0 ? "medium" : "low",
+    reasons: anomalies,
+  };
+}
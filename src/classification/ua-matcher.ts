@@ -0,0 +1,80 @@
+/**
+ * User-Agent Matcher
+ *
+ * Precompiles a list of UA tokens into a single case-insensitive regex.
+ * Tokens are anchored at word boundaries, so "CCBot" doesn't match inside
+ * "XCCBot/1.0" and "curl" doesn't match "libcurl", and the version that
+ * follows a token ("GPTBot/1.2", "MJ12bot/v1.4.8") is captured.
+ *
+ * When a UA contains several tokens, the entry listed first wins, so
+ * entries keep the priority order of the list they were compiled from.
+ */
+
+/**
+ * Entry with a UA token
+ */
+export interface UserAgentPattern {
+  /** Product token to match in User-Agent (case-insensitive) */
+  pattern: string;
+}
+
+/**
+ * Matched entry and the version that followed its token
+ */
+export interface UserAgentMatch<T> {
+  entry: T;
+  version?: string;
+}
+
+/**
+ * Escape regex metacharacters
+ */
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+export class UserAgentMatcher<T extends UserAgentPattern> {
+  private regex: RegExp | null = null;
+  /** Lowercased token → index of the first entry using it */
+  private indexByToken = new Map<string, number>();
+
+  constructor(private entries: readonly T[]) {
+    entries.forEach((entry, index) => {
+      const token = entry.pattern.toLowerCase();
+      if (token && !this.indexByToken.has(token)) this.indexByToken.set(token, index);
+    });
+    if (this.indexByToken.size === 0) return;
+
+    // Longest tokens first, so "Googlebot-Image" wins over "Googlebot" at the same position
+    const alternatives = [...this.indexByToken.keys()]
+      .sort((a, b) => b.length - a.length)
+      .map(escapeRegex);
+    this.regex = new RegExp(
+      `(?<![a-z0-9])(${alternatives.join("|")})(?![a-z0-9])(?:[/ ]v?(\\d+(?:\\.\\d+)*))?`,
+      "gi",
+    );
+  }
+
+  /**
+   * Find the highest-priority entry whose token appears in the User-Agent
+   */
+  match(userAgent: string): UserAgentMatch<T> | null {
+    if (!userAgent || !this.regex) return null;
+
+    let best = -1;
+    let version: string | undefined;
+    this.regex.lastIndex = 0;
+
+    let match: RegExpExecArray | null;
+    while ((match = this.regex.exec(userAgent)) !== null) {
+      const index = this.indexByToken.get(match[1].toLowerCase())!;
+      if (best === -1 || index < best) {
+        best = index;
+        version = match[2];
+        if (best === 0) break;
+      }
+    }
+
+    return best === -1 ? null : { entry: this.entries[best], version };
+  }
+}
@@ -4,59 +4,73 @@
  * Main SDK class that provides a simple API for tracking analytics events.
  */
 
-import { HttpClient } from "../utils/http-client";
-import { RetryEngine } from "../core/retry-engine";
-import type { BotMonConfig, TrackOptions, RawRequestEvent } from "../types";
-import { createProviderAdapter, type ProviderAdapter } from "../types/provider.types";
-
-/**
- * Sensitive query parameter patterns to blocklist
- * These are removed from query strings to prevent credential leakage
- */
-const SENSITIVE_PARAM_PATTERNS = [
-  /^token$/i,
-  /^key$/i,
-  /^password$/i,
-  /^passwd$/i,
-  /^secret$/i,
-  /^auth$/i,
-  /^authorization$/i,
-  /^credential$/i,
-  /^session$/i,
-  /^jwt$/i,
-  /^bearer$/i,
-  /^api[_-]?key$/i,
-  /^apikey$/i,
-  /^access[_-]?token$/i,
-  /^refresh[_-]?token$/i,
-  /^private[_-]?key$/i,
-  /^client[_-]?secret$/i,
-];
+import { BatchQueue } from "../core/batch-queue";
+import { EventFilter } from "../core/event-filter";
+import { Redactor } from "../privacy/redactor";
+import { IpAnonymizer } from "../privacy/ip-anonymizer";
+import { HttpTransport } from "../transports/http";
+import { BotVerifier } from "../verification/bot-verifier";
+import { classifyRequest } from "../classification/traffic-classifier";
+import type {
+  BotMonConfig,
+  TrackOptions,
+  IngestEvent,
+  RawRequestEvent,
+  FlushResult,
+  QueueStats,
+  CircuitState,
+  DrainResult,
+  Transport,
+} from "../types";
+import {
+  createProviderAdapter,
+  type ProviderAdapter,
+  type ProviderBotData,
+} from "../types/provider.types";
 
 /** Default max size for robots.txt capture (10KB) */
 const DEFAULT_ROBOTS_TXT_MAX_SIZE = 10240;
 
 /**
- * Sanitize query string by removing sensitive parameters
+ * Default total retry budget. Workers keep waitUntil() promises alive for
+ * ~30s after the response, so retries must finish well within that.
  */
-function sanitizeQueryString(queryString: string | undefined): string | undefined {
-  if (!queryString) return undefined;
+const DEFAULT_RETRY_DEADLINE_MS = 25000;
 
-  const params = new URLSearchParams(queryString);
-  const sanitizedParams = new URLSearchParams();
+/** Default consecutive failed batches before the circuit opens */
+const DEFAULT_CIRCUIT_FAILURE_THRESHOLD = 5;
 
-  params.forEach((value, key) => {
-    const isSensitive = SENSITIVE_PARAM_PATTERNS.some((pattern) =>
-      pattern.test(key),
-    );
-    if (!isSensitive) {
-      sanitizedParams.append(key, value);
-    }
-  });
+/** Default time the circuit stays open before a probe request */
+const DEFAULT_CIRCUIT_RESET_TIMEOUT_MS = 30000;
 
-  const result = sanitizedParams.toString();
-  return result || undefined;
-}
+/** Default number of events per batch */
+const DEFAULT_BATCH_SIZE = 25;
+
+/** Default interval before a partial batch is flushed */
+const DEFAULT_FLUSH_INTERVAL_MS = 1000;
+
+/** Default max events held in the queue before dropping the oldest */
+const DEFAULT_MAX_QUEUE_SIZE = 1000;
+
+/** Default max uncompressed size of a single batch request (1MB) */
+const DEFAULT_MAX_BATCH_BYTES = 1024 * 1024;
+
+/** Config keys that stay optional after defaults are applied */
+type OptionalConfigKeys =
+  | "apiKey"
+  | "onError"
+  | "onFlush"
+  | "onCircuitStateChange"
+  | "spillStore"
+  | "transports"
+  | "redaction"
+  | "ipHashSecret"
+  | "filters"
+  | "sampling"
+  | "beforeSend";
+
+type ResolvedBotMonConfig = Required<Omit<BotMonConfig, OptionalConfigKeys>> &
+  Pick<BotMonConfig, OptionalConfigKeys>;
 
 /**
  * BotMon SDK Client
@@ -74,12 +88,15 @@ function sanitizeQueryString(queryString: string | undefined): string | undefine
  */
 export class BotMon {
   private static instance: BotMon | null = null;
-  private httpClient: HttpClient;
-  private retryEngine: RetryEngine;
+  private httpTransport: HttpTransport | null;
+  private transports: Transport[];
+  private queue: BatchQueue;
+  private eventFilter: EventFilter;
+  private redactor: Redactor;
+  private ipAnonymizer: IpAnonymizer;
   private providerAdapter: ProviderAdapter;
-  private config: Required<Omit<BotMonConfig, "onError">> & {
-    onError?: BotMonConfig["onError"];
-  };
+  private botVerifier: BotVerifier;
+  private config: ResolvedBotMonConfig;
 
   private constructor(config: Partial<BotMonConfig>, env?: any) {
     // Merge env vars with explicit config (explicit takes precedence)
@@ -89,60 +106,126 @@ export class BotMon {
         config.ingestUrl ||
         env?.BOTMON_INGEST_URL ||
         "https://analytics.botmon.io/ingest",
+      batchIngestUrl: config.batchIngestUrl || env?.BOTMON_BATCH_INGEST_URL,
       retryAttempts: config.retryAttempts ?? 3,
       retryBackoffMs: config.retryBackoffMs ?? 1000,
       retryMaxBackoffMs: config.retryMaxBackoffMs ?? 30000,
+      retryDeadlineMs: config.retryDeadlineMs ?? DEFAULT_RETRY_DEADLINE_MS,
       timeoutMs: config.timeoutMs ?? 5000,
+      circuitBreaker: {
+        enabled: config.circuitBreaker?.enabled ?? true,
+        failureThreshold:
+          config.circuitBreaker?.failureThreshold ?? DEFAULT_CIRCUIT_FAILURE_THRESHOLD,
+        resetTimeoutMs:
+          config.circuitBreaker?.resetTimeoutMs ?? DEFAULT_CIRCUIT_RESET_TIMEOUT_MS,
+      },
+      batchSize: config.batchSize ?? DEFAULT_BATCH_SIZE,
+      flushIntervalMs: config.flushIntervalMs ?? DEFAULT_FLUSH_INTERVAL_MS,
+      maxQueueSize: config.maxQueueSize ?? DEFAULT_MAX_QUEUE_SIZE,
+      batchFormat: config.batchFormat ?? "ndjson",
+      compression: config.compression ?? "gzip",
+      maxBatchBytes: config.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES,
+      transports: config.transports,
+      redaction: config.redaction,
+      ipHandling: config.ipHandling ?? "full",
+      ipHashSecret: config.ipHashSecret || env?.BOTMON_IP_HASH_SECRET,
+      filters: config.filters,
+      sampling: config.sampling,
+      beforeSend: config.beforeSend,
       debug: config.debug ?? false,
       onError: config.onError,
+      onFlush: config.onFlush,
+      onCircuitStateChange: config.onCircuitStateChange,
+      spillStore: config.spillStore,
+      eventType: config.eventType ?? "raw",
       captureRobotsTxt: config.captureRobotsTxt ?? false,
       robotsTxtMaxSize: config.robotsTxtMaxSize ?? DEFAULT_ROBOTS_TXT_MAX_SIZE,
     };
 
-    // Validate required fields
-    if (!finalConfig.apiKey) {
+    // Validate required fields (apiKey is optional when events go to custom transports only)
+    const hasCustomTransports = (finalConfig.transports?.length ?? 0) > 0;
+    if (finalConfig.apiKey === undefined && !hasCustomTransports) {
       throw new Error(
         "[BotMon] apiKey is required. Provide it via config or set env.BOTMON_API_KEY",
       );
     }
 
     // Validate API key format (basic validation - non-empty string)
-    if (typeof finalConfig.apiKey !== "string" || finalConfig.apiKey.trim().length === 0) {
+    if (
+      finalConfig.apiKey !== undefined &&
+      (typeof finalConfig.apiKey !== "string" || finalConfig.apiKey.trim().length === 0)
+    ) {
       throw new Error("[BotMon] apiKey must be a non-empty string");
     }
 
-    // Validate ingestUrl is HTTPS (security requirement)
-    if (finalConfig.ingestUrl && !finalConfig.ingestUrl.startsWith("https://")) {
-      throw new Error(
-        "[BotMon] ingestUrl must use HTTPS for security. " +
-        "Received: " + finalConfig.ingestUrl.substring(0, 50),
-      );
-    }
+    this.config = finalConfig as ResolvedBotMonConfig;
+
+    // Initialize the BotMon ingest transport (validates HTTPS URLs)
+    this.httpTransport = this.config.apiKey
+      ? new HttpTransport({
+        apiKey: this.config.apiKey,
+        ingestUrl: this.config.ingestUrl,
+        batchIngestUrl: this.config.batchIngestUrl,
+        batchFormat: this.config.batchFormat,
+        compression: this.config.compression,
+        maxBatchBytes: this.config.maxBatchBytes,
+        timeoutMs: this.config.timeoutMs,
+        retryAttempts: this.config.retryAttempts,
+        retryBackoffMs: this.config.retryBackoffMs,
+        retryMaxBackoffMs: this.config.retryMaxBackoffMs,
+        retryDeadlineMs: this.config.retryDeadlineMs,
+        circuitBreaker: this.config.circuitBreaker.enabled
+          ? {
+            failureThreshold: this.config.circuitBreaker.failureThreshold!,
+            resetTimeoutMs: this.config.circuitBreaker.resetTimeoutMs!,
+          }
+          : null,
+        spillStore: this.config.spillStore,
+        debug: this.config.debug,
+        onCircuitStateChange: this.config.onCircuitStateChange,
+        onError: (error, event) => this.handleError(error, event),
+      })
+      : null;
+
+    // The first transport is primary: its results are reported to the queue and onFlush
+    this.transports = [
+      ...(this.httpTransport ? [this.httpTransport] : []),
+      ...(this.config.transports ?? []),
+    ];
+
+    // Initialize batch queue (shared by all requests in this isolate)
+    this.queue = new BatchQueue(
+      {
+        batchSize: this.config.batchSize,
+        flushIntervalMs: this.config.flushIntervalMs,
+        maxQueueSize: this.config.maxQueueSize,
+        debug: this.config.debug,
+        onError: (error, event) => this.handleError(error, event),
+        onFlush: this.config.onFlush,
+      },
+      (events) => this.sendBatch(events),
+    );
 
-    this.config = finalConfig as Required<Omit<BotMonConfig, "onError">> & {
-      onError?: BotMonConfig["onError"];
-    };
+    // Initialize PII redactor (query strings, paths, referers, metadata)
+    this.redactor = new Redactor(this.config.redaction);
 
-    // Initialize HTTP client
-    this.httpClient = new HttpClient({
-      apiKey: this.config.apiKey,
-      ingestUrl: this.config.ingestUrl,
-      debug: this.config.debug,
-      timeoutMs: this.config.timeoutMs,
-    });
+    // Initialize IP anonymizer (validates the hash secret)
+    this.ipAnonymizer = new IpAnonymizer(this.config.ipHandling, this.config.ipHashSecret);
 
-    // Initialize retry engine
-    this.retryEngine = new RetryEngine({
-      retryAttempts: this.config.retryAttempts,
-      retryBackoffMs: this.config.retryBackoffMs,
-      retryMaxBackoffMs: this.config.retryMaxBackoffMs,
-      debug: this.config.debug,
-    });
+    // Initialize event filter (path/status filters and sampling)
+    this.eventFilter = new EventFilter(
+      this.config.filters,
+      this.config.sampling,
+      this.config.debug,
+    );
 
     // Initialize provider adapter (for extracting upstream bot scores)
     this.providerAdapter = createProviderAdapter(
       config.botDetectionProvider || "none",
     );
+
+    // Initialize verified-bot checks (published IP ranges / reverse DNS)
+    this.botVerifier = new BotVerifier(config.verification);
   }
 
   /**
@@ -188,13 +271,18 @@ export class BotMon {
   /**
    * Track an analytics event
    *
-   * Automatically extracts data from request/response and sends it to the
-   * BotMon analytics API. Uses ctx.waitUntil() internally so it doesn't
-   * block the response.
+   * Automatically extracts data from request/response and queues it for the
+   * BotMon analytics API. Events are sent in batches once `batchSize` events
+   * are queued or `flushIntervalMs` has elapsed. Uses ctx.waitUntil()
+   * internally so it doesn't block the response.
+   *
+   * Events rejected by `filters`, sampled out by `sampling` or dropped by
+   * `beforeSend` are never queued.
    *
    * **Security Features:**
-   * - Query strings are automatically sanitized to remove sensitive parameters
-   *   (tokens, passwords, API keys, etc.)
+   * - Sensitive query parameters (tokens, passwords, API keys, etc.) are removed
+   *   and PII (emails, JWTs, card numbers, hex tokens) is redacted from query
+   *   strings, paths, referers and metadata (configurable via `redaction`)
    * - robots.txt capture is opt-in only (set captureRobotsTxt: true in config)
    *
    * @param ctx - ExecutionContext from Cloudflare Workers
@@ -219,35 +307,148 @@ export class BotMon {
    * ```
    */
   track(ctx: any, options: TrackOptions): void {
-    // Use ctx.waitUntil to send event after response
+    // Use ctx.waitUntil to keep the isolate alive until the event's batch is flushed
     // Build event inside waitUntil to handle async robots.txt capture
     ctx.waitUntil(
-      this.buildEvent(options)
-        .then((event) => this.sendEvent(event))
+      this.buildEvent(options, ctx)
+        .then((event) => this.prepareEvent(event, options))
+        .then((event) => event && this.queue.add(event))
         .catch((err) => {
-          const error = new Error(`BotMon tracking failed: ${err.message}`);
-
-          if (this.config.onError) {
-            // Call custom error handler if provided
-            // Note: event might not be available if buildEvent failed
-            this.config.onError(error, undefined as any);
-          } else if (this.config.debug) {
-            // Log error in debug mode
-            console.error("[BotMon]", error);
-          }
-          // Otherwise silently fail (tracking failures shouldn't crash the worker)
+          // Note: event is not available here since buildEvent failed
+          this.handleError(new Error(`BotMon tracking failed: ${err.message}`));
         }),
     );
   }
 
+  /**
+   * Flush all queued events immediately
+   *
+   * Useful before an isolate is expected to shut down, or from a
+   * scheduled handler. Also flushes transports that buffer internally.
+   * Never rejects — failures are reported via onError.
+   *
+   * @example
+   * ```typescript
+   * ctx.waitUntil(sdk.flush());
+   * ```
+   */
+  async flush(): Promise<void> {
+    await this.queue.flush();
+
+    await Promise.all(this.transports.map(async (transport) => {
+      try {
+        await transport.flush?.();
+      } catch (err) {
+        this.handleError(this.transportError(transport, err));
+      }
+    }));
+  }
+
+  /**
+   * Get batch queue statistics for this isolate
+   */
+  getStats(): QueueStats {
+    return this.queue.getStats();
+  }
+
+  /**
+   * Redeliver events from the spill store
+   *
+   * Reads up to `limit` spilled events and sends them to the ingest API.
+   * Spilled batches are removed only after delivery, so events that fail
+   * again with a retryable error stay in the store.
+   * Call it from a `scheduled` handler to recover from ingest outages.
+   *
+   * @example
+   * ```typescript
+   * export default {
+   *   async scheduled(event, env, ctx) {
+   *     const sdk = BotMon.init({ apiKey: env.BOTMON_API_KEY, spillStore });
+   *     ctx.waitUntil(sdk.drain());
+   *   },
+   * };
+   * ```
+   */
+  drain(options: { limit?: number } = {}): Promise<DrainResult> {
+    if (!this.httpTransport) {
+      return Promise.resolve({ taken: 0, delivered: 0, failed: 0 });
+    }
+    return this.httpTransport.drain(options);
+  }
+
+  /**
+   * Redeliver events received from a push-based spill store (e.g. a Queue consumer)
+   *
+   * Events are sent to the ingest API only, not to additional transports.
+   * Failed events are not spilled again — retry them through the source
+   * (e.g. `message.retry()`) based on the returned results.
+   *
+   * @returns One FlushResult per event (same order)
+   */
+  redeliver(events: IngestEvent[]): Promise<FlushResult[]> {
+    if (!this.httpTransport) {
+      return Promise.reject(
+        new Error("[BotMon] redeliver() requires an apiKey (no ingest transport configured)"),
+      );
+    }
+    return this.httpTransport.redeliver(events);
+  }
+
+  /**
+   * Get the ingest circuit breaker state for this isolate
+   */
+  getCircuitState(): CircuitState {
+    return this.httpTransport?.getCircuitState() ?? "closed";
+  }
+
   /**
    * Dispose the singleton instance
    *
    * Call this to reset the singleton and allow creating a new instance.
    * Useful for testing or when you need to reinitialize with different config.
+   * Transports are closed in the background; call flush() first to deliver
+   * queued events.
    */
   dispose(): void {
     BotMon.instance = null;
+
+    for (const transport of this.transports) {
+      transport.close?.().catch((err) => this.handleError(this.transportError(transport, err)));
+    }
+  }
+
+  /**
+   * Apply filters, sampling and the beforeSend hook
+   *
+   * @returns The event to queue, or null if it was dropped
+   */
+  private async prepareEvent(
+    event: IngestEvent,
+    options: TrackOptions,
+  ): Promise<IngestEvent | null> {
+    const filtered = this.eventFilter.apply(event);
+    if (!filtered || !this.config.beforeSend) {
+      return filtered;
+    }
+
+    try {
+      const result = await this.config.beforeSend(filtered, options.request, options.response);
+      if (result === null) {
+        if (this.config.debug) {
+          console.log(`[BotMon] Event dropped by beforeSend: ${event.method} ${event.path}`);
+        }
+        return null;
+      }
+      // Returning nothing keeps the (possibly mutated) event
+      return result ?? filtered;
+    } catch (err) {
+      // A broken hook shouldn't lose analytics; send the event as built
+      this.handleError(
+        new Error(`BotMon beforeSend hook failed: ${(err as Error)?.message || String(err)}`),
+        filtered,
+      );
+      return filtered;
+    }
   }
 
   /**
@@ -257,8 +458,18 @@ export class BotMon {
    * If captureRobotsTxt is enabled and the request path is /robots.txt,
    * captures the response body (up to robotsTxtMaxSize bytes).
    */
-  private async buildEvent(options: TrackOptions): Promise<RawRequestEvent> {
-    const { request, response, startTime, metadata, robotsTxtBody, sessionId } = options;
+  private async buildEvent(options: TrackOptions, ctx: any): Promise<IngestEvent> {
+    const {
+      request,
+      response,
+      startTime,
+      metadata,
+      robotsTxtBody,
+      sessionId,
+      consentState,
+      signedAgent,
+      classification,
+    } = options;
 
     // Parse URL
     const url = new URL(request.url);
@@ -267,8 +478,22 @@ export class BotMon {
     const cf = (request as any).cf;
 
     // Extract provider bot data using configured adapter
-    const extracted = this.providerAdapter.extractBotData(request);
-    const providerBotData = extracted ? extracted : undefined;
+    let providerBotData: ProviderBotData | undefined;
+    try {
+      providerBotData = this.providerAdapter.extractBotData(request) ?? undefined;
+    } catch (err) {
+      // Custom adapters must not break tracking
+      this.handleError(new Error(`BotMon provider adapter failed: ${(err as Error).message}`));
+    }
+
+    // Verify crawler claims (the middleware passes its result in)
+    const botVerification =
+      options.botVerification ??
+      (await this.botVerifier.verify(
+        request,
+        providerBotData?.verified === true,
+        (promise) => ctx.waitUntil(promise),
+      )).status;
 
     // robots.txt capture (opt-in only)
     let capturedRobotsTxtBody = robotsTxtBody; // Use explicitly provided value if present
@@ -316,11 +541,7 @@ export class BotMon {
       }
     }
 
-    // Sanitize query string to remove sensitive parameters
-    const rawQueryString = url.search ? url.search.substring(1) : undefined;
-    const sanitizedQueryString = sanitizeQueryString(rawQueryString);
-
-    return {
+    const rawEvent: RawRequestEvent = {
       type: "raw",
 
       // URL information (for domain discovery)
@@ -334,7 +555,7 @@ export class BotMon {
       // HTTP request
       method: request.method,
       path: url.pathname,
-      queryString: sanitizedQueryString,
+      queryString: url.search ? url.search.substring(1) : undefined,
 
       // HTTP response
       statusCode: response?.status,
@@ -342,14 +563,28 @@ export class BotMon {
         ? Math.round(performance.now() - startTime)
         : undefined,
 
-      // Cloudflare context
-      clientIp: request.headers.get("CF-Connecting-IP") || undefined,
+      // Cloudflare context (client IP anonymized per ipHandling)
+      ...await this.ipAnonymizer.apply(
+        request.headers.get("CF-Connecting-IP") || undefined,
+        botVerification === "verified" || providerBotData?.verified,
+      ),
       clientCountry: cf?.country || undefined,
       userAgent: request.headers.get("User-Agent") || undefined,
       referer: request.headers.get("Referer") || undefined,
+      clientAsn: typeof cf?.asn === "number" ? cf.asn : undefined,
+      clientAsOrganization: cf?.asOrganization || undefined,
+      clientCity: cf?.city || undefined,
+      colo: cf?.colo || undefined,
+      tlsVersion: cf?.tlsVersion || undefined,
+      httpProtocol: cf?.httpProtocol || undefined,
 
       // Session tracking
       sessionId,
+      consentState,
+
+      // Verified-bot authentication
+      botVerification,
+      signedAgent,
 
       // Custom metadata
       metadata,
@@ -360,15 +595,90 @@ export class BotMon {
       // robots.txt content capture (automatically captured or manually provided)
       robotsTxtBody: capturedRobotsTxtBody,
     };
+
+    // Classify at the edge (the middleware passes its classification in)
+    let event: IngestEvent = rawEvent;
+    if (this.config.eventType === "classified") {
+      const result =
+        classification ?? classifyRequest(request, { providerBotData, botVerification, signedAgent });
+      event = {
+        ...rawEvent,
+        type: "classified",
+        trafficType: result.type,
+        botScore: result.score,
+        botName: result.botName,
+      };
+    }
+
+    // Redact credentials and PII before the event leaves the worker
+    const { event: redacted, report } = await this.redactor.redact(event);
+    if (this.config.debug && report.length > 0) {
+      console.log("[BotMon] Redacted:", report);
+    }
+
+    return redacted;
   }
 
   /**
-   * Send event with retry logic
+   * Send a flushed batch to every transport in parallel
+   *
+   * Results from the primary transport (the ingest API when an apiKey is
+   * set, otherwise the first custom transport) are returned to the queue.
+   * Failures in additional transports are reported via onError only.
    */
-  private async sendEvent(event: RawRequestEvent): Promise<void> {
-    await this.retryEngine.executeWithRetry(
-      () => this.httpClient.sendEvent(event),
-      `${event.method} ${event.path}`,
+  private async sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    const [primary, ...others] = await Promise.all(
+      this.transports.map((transport) => this.sendToTransport(transport, events)),
     );
+
+    others.forEach((results, i) => {
+      const failed = results.filter((result) => !result.success);
+      if (failed.length > 0) {
+        this.handleError(new Error(
+          `BotMon ${this.transports[i + 1].name} transport failed for ` +
+          `${failed.length} of ${events.length} events: ${failed[0].error}`,
+        ));
+      }
+    });
+
+    return primary;
+  }
+
+  /**
+   * Send to one transport, converting a thrown error into failed results
+   */
+  private async sendToTransport(
+    transport: Transport,
+    events: IngestEvent[],
+  ): Promise<FlushResult[]> {
+    try {
+      return await transport.sendBatch(events);
+    } catch (err) {
+      const error = (err as Error)?.message || String(err);
+      return events.map(() => ({ success: false, error }));
+    }
+  }
+
+  /**
+   * Wrap a transport flush/close failure for onError
+   */
+  private transportError(transport: Transport, err: unknown): Error {
+    return new Error(
+      `BotMon ${transport.name} transport failed: ${(err as Error)?.message || String(err)}`,
+    );
+  }
+
+  /**
+   * Report a tracking error via onError, or log it in debug mode
+   */
+  private handleError(error: Error, event?: IngestEvent): void {
+    if (this.config.onError) {
+      // Call custom error handler if provided
+      this.config.onError(error, event);
+    } else if (this.config.debug) {
+      // Log error in debug mode
+      console.error("[BotMon]", error);
+    }
+    // Otherwise silently fail (tracking failures shouldn't crash the worker)
   }
 }
@@ -0,0 +1,162 @@
+/**
+ * Batch Queue
+ *
+ * In-isolate event queue that accumulates events and flushes them in
+ * batches, either when the batch size is reached or after a flush interval.
+ */
+
+import type { BatchQueueConfig, FlushResult, QueueStats, IngestEvent } from "../types";
+
+/**
+ * Sends a batch of events and returns one result per event (same order)
+ */
+export type BatchSender = (events: IngestEvent[]) => Promise<FlushResult[]>;
+
+export class BatchQueue {
+  private queue: IngestEvent[] = [];
+  private flushPromise: Promise<void> | null = null;
+  private timerPromise: Promise<void> | null = null;
+  private totalAdded = 0;
+  private totalFlushed = 0;
+  private totalFailed = 0;
+  private totalDropped = 0;
+
+  constructor(
+    private config: BatchQueueConfig,
+    private sender: BatchSender,
+  ) {}
+
+  /**
+   * Add an event to the queue
+   *
+   * Drops the oldest queued event if the queue is full. The returned promise
+   * resolves once the batch containing this event has been flushed, so it can
+   * be handed to ctx.waitUntil() to keep the isolate alive until delivery.
+   *
+   * @param event - The event to enqueue
+   * @returns Promise that resolves when the event's batch has been flushed
+   */
+  add(event: IngestEvent): Promise<void> {
+    if (this.queue.length >= this.config.maxQueueSize) {
+      const dropped = this.queue.shift();
+      this.totalDropped++;
+
+      if (this.config.debug) {
+        console.log(
+          `[BotMon] Queue full (${this.config.maxQueueSize}), dropped oldest event`,
+        );
+      }
+      this.config.onError?.(
+        new Error("BotMon queue full: dropped oldest event"),
+        dropped,
+      );
+    }
+
+    this.queue.push(event);
+    this.totalAdded++;
+
+    if (this.queue.length >= this.config.batchSize) {
+      return this.flush();
+    }
+
+    return this.scheduleFlush();
+  }
+
+  /**
+   * Flush all queued events
+   *
+   * Events are sent in batches of `batchSize`. If a flush is already in
+   * progress, waits for it and then flushes anything queued since.
+   * Never rejects — send failures are reported via onError.
+   */
+  async flush(): Promise<void> {
+    if (this.flushPromise) {
+      await this.flushPromise;
+    }
+
+    if (this.queue.length === 0) {
+      return;
+    }
+
+    this.flushPromise = this.drainQueue();
+    try {
+      await this.flushPromise;
+    } finally {
+      this.flushPromise = null;
+    }
+  }
+
+  /**
+   * Get queue statistics
+   */
+  getStats(): QueueStats {
+    return {
+      size: this.queue.length,
+      flushing: this.flushPromise !== null,
+      totalAdded: this.totalAdded,
+      totalFlushed: this.totalFlushed,
+      totalFailed: this.totalFailed,
+      totalDropped: this.totalDropped,
+    };
+  }
+
+  /**
+   * Schedule an interval flush (one pending timer shared by all callers)
+   */
+  private scheduleFlush(): Promise<void> {
+    if (!this.timerPromise) {
+      this.timerPromise = new Promise<void>((resolve) =>
+        setTimeout(resolve, this.config.flushIntervalMs),
+      ).then(() => {
+        this.timerPromise = null;
+        return this.flush();
+      });
+    }
+    return this.timerPromise;
+  }
+
+  /**
+   * Send queued events batch by batch until the queue is empty
+   */
+  private async drainQueue(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.config.batchSize);
+      const startTime = performance.now();
+
+      let results: FlushResult[];
+      try {
+        results = await this.sender(batch);
+      } catch (error) {
+        const message = (error as Error)?.message || String(error);
+        results = batch.map(() => ({ success: false, error: message }));
+      }
+
+      batch.forEach((event, index) => {
+        const result = results[index];
+        if (result?.success) {
+          this.totalFlushed++;
+        } else {
+          this.totalFailed++;
+          this.config.onError?.(
+            new Error(`BotMon tracking failed: ${result?.error || "no result for event"}`),
+            event,
+          );
+        }
+      });
+
+      if (this.config.debug) {
+        console.log(
+          `[BotMon] Flushed ${batch.length} events in ${(performance.now() - startTime).toFixed(2)}ms`,
+        );
+      }
+
+      try {
+        this.config.onFlush?.(batch, results);
+      } catch (error) {
+        if (this.config.debug) {
+          console.error("[BotMon] onFlush hook failed:", error);
+        }
+      }
+    }
+  }
+}
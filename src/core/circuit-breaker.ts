@@ -0,0 +1,113 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling the ingest API after repeated failures so an outage
+ * doesn't multiply retries, CPU time and subrequests in every isolate.
+ *
+ * - closed: requests flow normally; consecutive failures are counted
+ * - open: requests fail fast with CircuitOpenError until resetTimeoutMs elapses
+ * - half-open: a single probe request is let through; success closes the
+ *   circuit, failure re-opens it
+ */
+
+import type { CircuitBreakerConfig, CircuitState } from "../types";
+import { CircuitOpenError, IngestError } from "./errors";
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probeInFlight = false;
+
+  constructor(private config: CircuitBreakerConfig) {}
+
+  /**
+   * Execute function through the circuit breaker
+   *
+   * @param fn - Function to execute (typically the full retry sequence)
+   * @returns Promise that resolves with the function result
+   * @throws CircuitOpenError if the circuit is open (fn is not called)
+   */
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    if (this.state === "open") {
+      const elapsed = Date.now() - this.openedAt;
+      if (elapsed < this.config.resetTimeoutMs) {
+        throw new CircuitOpenError(this.config.resetTimeoutMs - elapsed);
+      }
+      this.transition("half-open");
+    }
+
+    const isProbe = this.state === "half-open";
+    if (isProbe) {
+      // Only one probe at a time; everything else keeps failing fast
+      if (this.probeInFlight) {
+        throw new CircuitOpenError(this.config.resetTimeoutMs);
+      }
+      this.probeInFlight = true;
+    }
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      this.onFailure(error);
+      throw error;
+    } finally {
+      if (isProbe) {
+        this.probeInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Get current circuit state
+   */
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== "closed") {
+      this.transition("closed");
+    }
+  }
+
+  private onFailure(error: unknown): void {
+    // A non-retryable response (e.g. 400/401) means the endpoint is up
+    if (error instanceof IngestError && !error.retryable) {
+      this.onSuccess();
+      return;
+    }
+
+    this.consecutiveFailures++;
+
+    if (
+      this.state === "half-open" ||
+      this.consecutiveFailures >= this.config.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      if (this.state !== "open") {
+        this.transition("open");
+      }
+    }
+  }
+
+  private transition(next: CircuitState): void {
+    const previous = this.state;
+    this.state = next;
+
+    if (this.config.debug) {
+      console.log(`[BotMon] Circuit breaker ${previous} -> ${next}`);
+    }
+
+    try {
+      this.config.onStateChange?.(next, previous);
+    } catch (error) {
+      if (this.config.debug) {
+        console.error("[BotMon] onCircuitStateChange hook failed:", error);
+      }
+    }
+  }
+}
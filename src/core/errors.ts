@@ -0,0 +1,78 @@
+/**
+ * SDK Errors
+ *
+ * Typed errors thrown by the ingest transport so the retry engine can
+ * decide whether (and when) a failed request is worth retrying.
+ */
+
+/**
+ * Error from the BotMon ingest API (HTTP error, timeout or network failure)
+ */
+export class IngestError extends Error {
+  /** HTTP status code (undefined for timeouts and network errors) */
+  readonly status?: number;
+  /** Whether retrying the same request could succeed */
+  readonly retryable: boolean;
+  /** Server-requested delay before retrying (from Retry-After) */
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: {
+      status?: number;
+      retryable: boolean;
+      retryAfterMs?: number;
+      cause?: unknown;
+    },
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "IngestError";
+    this.status = options.status;
+    this.retryable = options.retryable;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+/**
+ * Whether an HTTP status is worth retrying.
+ * Timeouts, "too early", rate limits and server errors are transient;
+ * other 4xx responses (bad payload, auth) will never succeed on retry.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+/**
+ * Parse a Retry-After header (delay-seconds or HTTP-date) into milliseconds.
+ * Returns undefined if the header is missing or malformed.
+ */
+export function parseRetryAfter(
+  header: string | null,
+  now: number = Date.now(),
+): number | undefined {
+  if (!header) return undefined;
+
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return undefined;
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Thrown instead of calling the ingest API while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  /** Time until the breaker allows a probe request */
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(`[BotMon] Ingest circuit open, skipping request (next probe in ${retryAfterMs}ms)`);
+    this.name = "CircuitOpenError";
+    this.retryAfterMs = retryAfterMs;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Event Filter
+ *
+ * Applies declarative path/status filters and sampling to built events
+ * before they are queued, so static assets and high-volume traffic don't
+ * dominate event volume.
+ */
+
+import { globToRegex } from "../geo/page-type-detector";
+import { detectBot } from "../classification/bot-catalog";
+import type {
+  EventFilterConfig,
+  SamplingConfig,
+  StatusCodePattern,
+  IngestEvent,
+} from "../types";
+
+/** Generic automated-client UA substrings (crawlers, HTTP libraries, headless browsers) */
+const GENERIC_BOT_PATTERN =
+  /bot|crawl|spider|slurp|fetch|scrape|curl|wget|python|go-http|java\/|okhttp|axios|node-fetch|headless|phantom|lighthouse/i;
+
+/**
+ * Provider scores below this are treated as automated
+ * (Cloudflare scale: 1 = almost certainly automated, 99 = human)
+ */
+const PROVIDER_BOT_SCORE_THRESHOLD = 30;
+
+/**
+ * Whether an event looks automated, for sampling purposes
+ */
+export function isLikelyBot(event: IngestEvent): boolean {
+  if (event.type === "classified") return event.trafficType !== "human";
+
+  const provider = event.providerBotData;
+  if (provider?.verified) return true;
+  if (provider?.score !== undefined && provider.score < PROVIDER_BOT_SCORE_THRESHOLD) {
+    return true;
+  }
+
+  const userAgent = event.userAgent;
+  if (!userAgent) return true;
+
+  return detectBot(userAgent) !== null || GENERIC_BOT_PATTERN.test(userAgent);
+}
+
+/**
+ * Whether a status code matches an exact code or class pattern
+ */
+function matchesStatus(status: number, patterns: StatusCodePattern[]): boolean {
+  return patterns.some((pattern) =>
+    typeof pattern === "number"
+      ? pattern === status
+      : Math.floor(status / 100) === Number(pattern[0]),
+  );
+}
+
+/**
+ * Validate a sampling rate from config
+ */
+function validateRate(name: string, rate: number | undefined): number {
+  if (rate === undefined) return 1;
+  if (typeof rate !== "number" || Number.isNaN(rate) || rate < 0 || rate > 1) {
+    throw new Error(`[BotMon] sampling.${name} must be a number between 0 and 1`);
+  }
+  return rate;
+}
+
+export class EventFilter {
+  private includePaths: RegExp[] | null;
+  private excludePaths: RegExp[];
+  private humanRate: number;
+  private botRate: number;
+
+  constructor(
+    private filters: EventFilterConfig = {},
+    sampling: SamplingConfig = {},
+    private debug = false,
+  ) {
+    // Compile globs once per isolate
+    this.includePaths = filters.includePaths?.length
+      ? filters.includePaths.map(globToRegex)
+      : null;
+    this.excludePaths = (filters.excludePaths ?? []).map(globToRegex);
+    this.humanRate = validateRate("human", sampling.human);
+    this.botRate = validateRate("bot", sampling.bot);
+  }
+
+  /**
+   * Apply filters and sampling to an event
+   *
+   * @returns The event (with sampleRate set if sampled), or null to drop it
+   */
+  apply(event: IngestEvent): IngestEvent | null {
+    const reason = this.rejectReason(event);
+    if (reason) {
+      if (this.debug) {
+        console.log(`[BotMon] Event dropped (${reason}): ${event.method} ${event.path}`);
+      }
+      return null;
+    }
+
+    const rate = isLikelyBot(event) ? this.botRate : this.humanRate;
+    if (rate >= 1) return event;
+
+    if (Math.random() >= rate) {
+      if (this.debug) {
+        console.log(`[BotMon] Event sampled out (rate ${rate}): ${event.method} ${event.path}`);
+      }
+      return null;
+    }
+
+    return { ...event, sampleRate: rate };
+  }
+
+  /**
+   * Why the filters reject an event, or null if they don't
+   */
+  private rejectReason(event: IngestEvent): string | null {
+    if (this.includePaths && !this.includePaths.some((re) => re.test(event.path))) {
+      return "path not included";
+    }
+    if (this.excludePaths.some((re) => re.test(event.path))) {
+      return "path excluded";
+    }
+
+    const status = event.statusCode;
+    if (status !== undefined) {
+      const { includeStatusCodes, excludeStatusCodes } = this.filters;
+      if (includeStatusCodes?.length && !matchesStatus(status, includeStatusCodes)) {
+        return "status not included";
+      }
+      if (excludeStatusCodes?.length && matchesStatus(status, excludeStatusCodes)) {
+        return "status excluded";
+      }
+    }
+
+    return null;
+  }
+}
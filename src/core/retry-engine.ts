@@ -2,9 +2,12 @@
  * Retry Engine
  *
  * Provides exponential backoff with jitter for failed API calls.
+ * Stops early on non-retryable errors, honors server-specified
+ * Retry-After delays, and never sleeps past the optional deadline.
  */
 
 import type { RetryConfig } from "../types";
+import { IngestError } from "./errors";
 
 export class RetryEngine {
   constructor(private config: RetryConfig) {}
@@ -15,12 +18,16 @@ export class RetryEngine {
    * @param fn - Function to execute
    * @param context - Optional context string for debug logging
    * @returns Promise that resolves with the function result
-   * @throws Error if all retry attempts fail
+   * @throws Error if all retry attempts fail, the error is not retryable,
+   *   or the next retry would exceed the deadline
    */
   async executeWithRetry<T>(
     fn: () => Promise<T>,
     context?: string,
   ): Promise<T> {
+    const deadline = this.config.retryDeadlineMs !== undefined
+      ? Date.now() + this.config.retryDeadlineMs
+      : Infinity;
     let lastError: Error;
 
     for (let attempt = 0; attempt <= this.config.retryAttempts; attempt++) {
@@ -41,8 +48,34 @@ export class RetryEngine {
           throw lastError;
         }
 
-        // Calculate delay with exponential backoff
-        const delay = this.calculateDelay(attempt);
+        // Client errors (bad payload, auth) will never succeed on retry
+        if (lastError instanceof IngestError && !lastError.retryable) {
+          if (this.config.debug) {
+            console.log(
+              `[BotMon] Not retrying non-retryable error${
+                lastError.status ? ` (HTTP ${lastError.status})` : ""
+              }${context ? ` (${context})` : ""}`,
+            );
+          }
+          throw lastError;
+        }
+
+        // Server-specified delay wins over exponential backoff
+        const delay = lastError instanceof IngestError && lastError.retryAfterMs !== undefined
+          ? lastError.retryAfterMs
+          : this.calculateDelay(attempt);
+
+        // Give up rather than retry past the deadline (e.g. waitUntil lifetime)
+        if (Date.now() + delay > deadline) {
+          if (this.config.debug) {
+            console.log(
+              `[BotMon] Retry deadline exceeded after ${attempt + 1} attempts${
+                context ? ` (${context})` : ""
+              }`,
+            );
+          }
+          throw lastError;
+        }
 
         if (this.config.debug) {
           console.log(
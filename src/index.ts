@@ -10,10 +10,84 @@ export { BotMon } from "./client/botmon";
 
 // Export low-level classes (for advanced users)
 export { RetryEngine } from "./core/retry-engine";
+export { BatchQueue } from "./core/batch-queue";
+export { CircuitBreaker } from "./core/circuit-breaker";
+export { EventFilter, isLikelyBot } from "./core/event-filter";
+export {
+  classifyRequest,
+  detectHeaderAnomalies,
+  BOT_CATALOG,
+  BotCatalog,
+  applyBotDefinitions,
+  detectBot,
+  UserAgentMatcher,
+} from "./classification";
+export type { ClassificationSignals, UserAgentMatch } from "./classification";
+export { Redactor, DEFAULT_SENSITIVE_PARAM_PATTERNS } from "./privacy";
+export { IpAnonymizer, truncateIp } from "./privacy";
+export {
+  BotVerifier,
+  DohResolver,
+  DEFAULT_VERIFICATION_SOURCES,
+  parsePublishedRanges,
+} from "./verification";
+export {
+  WebBotAuthVerifier,
+  DEFAULT_TRUSTED_AGENTS,
+  HttpKeyDirectory,
+  StaticKeyDirectory,
+  jwkThumbprint,
+} from "./verification";
+export type { RefreshResult, WebBotAuthResult } from "./verification";
+export type { RedactionResult, ClientIpFields } from "./privacy";
+export { IngestError, CircuitOpenError } from "./core/errors";
 export { HttpClient } from "./utils/http-client";
 
+// Export spill stores (offline buffer for undelivered events)
+export {
+  MemorySpillStore,
+  KvSpillStore,
+  QueueSpillStore,
+  DurableObjectSpillStore,
+  SpillBufferDurableObject,
+} from "./spill";
+export type { KvSpillStoreOptions } from "./spill";
+
+// Export rate limit stores (token buckets for the middleware rate-limit stage)
+export {
+  MemoryRateLimitStore,
+  DurableObjectRateLimitStore,
+  RateLimiterDurableObject,
+  BindingRateLimitStore,
+} from "./rate-limit";
+export type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  TokenBucketState,
+} from "./types/rate-limit.types";
+
+// Export transports (destinations for tracked events)
+export {
+  HttpTransport,
+  QueueTransport,
+  AnalyticsEngineTransport,
+  MemoryTransport,
+  ConsoleTransport,
+} from "./transports";
+export type { AnalyticsEngineTransportOptions } from "./transports";
+
 // Export middleware (new in v0.7.0)
 export { createCloudflareMiddleware } from "./middleware/cloudflare";
+export { resolveConsent, cookielessSessionId } from "./middleware/consent";
+export {
+  createProviderAdapter,
+  CloudflareAdapter,
+  FastlyAdapter,
+  AkamaiAdapter,
+  CloudFrontAdapter,
+  HeaderMappingAdapter,
+} from "./types/provider.types";
 
 // Export types — existing
 export type {
@@ -21,21 +95,60 @@ export type {
   TrackOptions,
   RetryConfig,
   HttpClientConfig,
+  HttpTransportConfig,
+  Transport,
+  SessionTrackingConfig,
+  ConsentConfig,
+  ConsentState,
+  IpHandlingMode,
+  RedactionConfig,
+  RedactionAction,
+  BuiltInRedactionDetector,
+  CustomRedactionDetector,
+  RedactionReportEntry,
+  EventFilterConfig,
+  SamplingConfig,
+  StatusCodePattern,
+  BeforeSendHook,
+  BatchQueueConfig,
+  CircuitBreakerConfig,
+  CircuitState,
   RawRequestEvent,
   ClassifiedEvent,
   IngestEvent,
   IngestResponse,
+  IngestBatchResponse,
+  BatchFormat,
+  BatchCompression,
   FlushResult,
   QueueStats,
+  SpillStore,
+  SpilledBatch,
+  DrainResult,
   TrafficType,
   BotClassification,
   BaseEvent,
+  ProviderBotData,
+  ProviderAdapter,
+  BotDetectionProvider,
+  BotDetectionProviderOption,
+  HeaderMappingConfig,
+  BotVerificationConfig,
+  BotVerificationStatus,
+  BotVerificationResult,
+  BotVerificationMethod,
+  BotVerificationSource,
+  DnsResolver,
+  SignedAgent,
+  KeyDirectory,
+  WebBotAuthConfig,
 } from "./types";
 
 // Export types — middleware (new in v0.7.0)
 export type {
   MiddlewareConfig,
   ResponseContext,
+  CrawlerPayment,
 } from "./types/middleware.types";
 
 // Export types — managed rules (new in v0.7.0)
@@ -46,8 +159,27 @@ export type {
   WellKnownRuleConfig,
   ManagedFileMode,
   RemoteConfigBundle,
+  AccessPolicyAction,
+  AccessPolicyConfig,
+  AccessPolicyMatch,
+  AccessPolicyRule,
+  CrawlerPricingConfig,
+  RateLimitConfig,
+  RateLimitKey,
+  RateLimitRule,
+  RobotsEnforcementConfig,
+  RobotsEnforcementMode,
 } from "./types/managed-rules.types";
 
+// Export types — bot catalog
+export type {
+  BotCatalogEntry,
+  BotCategory,
+  BotDefinitionsConfig,
+  BotMatch,
+  BotPurpose,
+} from "./types/bot-catalog.types";
+
 // Export types — GEO (new in v0.7.0)
 export type {
   GeoRuleConfig,
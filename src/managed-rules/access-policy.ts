@@ -0,0 +1,120 @@
+/**
+ * Access Policy Handler
+ *
+ * Evaluates ordered allow/block/respond/redirect rules against the
+ * request context (bot, classification, verification, country, path).
+ * The first matching rule wins; "allow" stops evaluation so it can carve
+ * exceptions out of broader rules listed after it.
+ */
+
+import type { ResponseContext } from "../types/middleware.types";
+import type { AccessPolicyMatch, AccessPolicyRule } from "../types/managed-rules.types";
+import { globToRegex } from "../geo/page-type-detector";
+
+/**
+ * Redirect statuses accepted for "redirect" rules
+ */
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+/** Maximum compiled path globs per isolate */
+const MAX_COMPILED_GLOBS = 500;
+
+/** Compiled path globs, cached per isolate (rules are re-evaluated on every request) */
+const compiledGlobs = new Map<string, RegExp>();
+
+/**
+ * Compile a path glob, reusing an earlier compilation
+ */
+function compileGlob(glob: string): RegExp {
+  let regex = compiledGlobs.get(glob);
+  if (!regex) {
+    if (compiledGlobs.size >= MAX_COMPILED_GLOBS) {
+      compiledGlobs.delete(compiledGlobs.keys().next().value!);
+    }
+    regex = globToRegex(glob);
+    compiledGlobs.set(glob, regex);
+  }
+  return regex;
+}
+
+/**
+ * Whether a list condition is absent or contains the value
+ */
+function listMatches<T>(list: T[] | undefined, value: T | undefined): boolean {
+  if (!list || list.length === 0) return true;
+  return value !== undefined && list.includes(value);
+}
+
+/**
+ * Whether a rule's conditions all match the request
+ */
+export function ruleMatches(match: AccessPolicyMatch, context: ResponseContext): boolean {
+  if (match.bots?.length) {
+    const botName = context.botName?.toLowerCase();
+    if (!botName || !match.bots.some((name) => name.toLowerCase() === botName)) return false;
+  }
+  if (!listMatches<string>(match.categories, context.botCategory)) return false;
+  if (match.tags?.length && !match.tags.some((tag) => context.botTags?.includes(tag))) {
+    return false;
+  }
+  if (!listMatches(match.trafficTypes, context.trafficType)) return false;
+  if (!listMatches(match.verification, context.botVerification)) return false;
+  if (!listMatches(match.countries, context.country)) return false;
+  if (match.paths?.length && !match.paths.some((glob) => compileGlob(glob).test(context.url.pathname))) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Find the first rule matching the request
+ */
+export function findMatchingPolicy(
+  context: ResponseContext,
+  rules: AccessPolicyRule[],
+): AccessPolicyRule | null {
+  for (const rule of rules) {
+    if (ruleMatches(rule.match ?? {}, context)) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build the response for a matched rule.
+ * Returns null for "allow" (serve normally).
+ */
+export function buildPolicyResponse(
+  rule: AccessPolicyRule,
+  context: ResponseContext,
+): Response | null {
+  const policyName = rule.name || rule.action;
+
+  switch (rule.action) {
+    case "block": {
+      const headers = new Headers(rule.headers);
+      if (!headers.has("Content-Type")) headers.set("Content-Type", "text/plain; charset=utf-8");
+      headers.set("X-BotMon-Policy", policyName);
+      return new Response(rule.body ?? "Forbidden", { status: 403, headers });
+    }
+    case "respond": {
+      const headers = new Headers(rule.headers);
+      headers.set("X-BotMon-Policy", policyName);
+      return new Response(rule.body ?? "", { status: rule.status ?? 200, headers });
+    }
+    case "redirect": {
+      if (!rule.location) return null;
+      const status = rule.status && REDIRECT_STATUSES.has(rule.status) ? rule.status : 302;
+      return new Response(null, {
+        status,
+        headers: {
+          Location: new URL(rule.location, context.url).href,
+          "X-BotMon-Policy": policyName,
+        },
+      });
+    }
+    default:
+      return null;
+  }
+}
@@ -11,6 +11,22 @@ import type {
   ResolvedConfig,
 } from "../types/managed-rules.types";
 import type { GeoPageRule } from "../types/geo.types";
+import {
+  BOT_CATALOG,
+  BotCatalog,
+  DEFAULT_BOT_CATALOG,
+  applyBotDefinitions,
+} from "../classification/bot-catalog";
+
+/**
+ * Compiled bot catalogs kept per isolate, keyed by their definitions.
+ * The remote bundle is re-parsed on every request, so the key is its
+ * serialized content rather than object identity.
+ */
+const compiledCatalogs = new Map<string, BotCatalog>();
+
+/** Maximum compiled catalogs per isolate */
+const MAX_COMPILED_CATALOGS = 10;
 
 /**
  * Default resolved config (when nothing is configured)
@@ -26,6 +42,20 @@ const DEFAULTS: ResolvedConfig = {
     enrichHeadings: true,
     rules: [],
   },
+  bots: DEFAULT_BOT_CATALOG,
+  accessPolicies: { enabled: false, rules: [] },
+  crawlerPricing: {
+    enabled: false,
+    price: 0,
+    currency: "USD",
+    match: { categories: ["ai-crawler"] },
+  },
+  rateLimits: { enabled: false, rules: [] },
+  robotsEnforcement: {
+    enabled: false,
+    mode: "tag",
+    match: { categories: ["ai-crawler", "ai-search", "search-engine", "seo-tool"] },
+  },
 };
 
 /**
@@ -42,6 +72,11 @@ export function mergeConfig(
     sitemap: mergeSitemap(sdkConfig, remote),
     wellKnown: mergeWellKnown(sdkConfig, remote),
     geo: mergeGeo(sdkConfig, remote),
+    bots: mergeBots(sdkConfig, remote),
+    accessPolicies: mergeAccessPolicies(sdkConfig, remote),
+    crawlerPricing: mergeCrawlerPricing(sdkConfig, remote),
+    rateLimits: mergeRateLimits(sdkConfig, remote),
+    robotsEnforcement: mergeRobotsEnforcement(sdkConfig, remote),
   };
 }
 
@@ -63,6 +98,26 @@ function mergeRobotsTxt(
   };
 }
 
+function mergeRobotsEnforcement(
+  sdk: ManagedRulesConfig,
+  remote: RemoteConfigBundle | null,
+): ResolvedConfig["robotsEnforcement"] {
+  const defaults = DEFAULTS.robotsEnforcement;
+  const base: ResolvedConfig["robotsEnforcement"] = {
+    enabled: sdk.robotsEnforcement?.enabled ?? defaults.enabled,
+    mode: sdk.robotsEnforcement?.mode ?? defaults.mode,
+    match: sdk.robotsEnforcement?.match ?? defaults.match,
+  };
+
+  if (!remote?.robotsEnforcement) return base;
+
+  return {
+    enabled: remote.robotsEnforcement.enabled ?? base.enabled,
+    mode: remote.robotsEnforcement.mode ?? base.mode,
+    match: remote.robotsEnforcement.match ?? base.match,
+  };
+}
+
 function mergeSitemap(
   sdk: ManagedRulesConfig,
   remote: RemoteConfigBundle | null,
@@ -148,6 +203,119 @@ function mergeGeo(
   };
 }
 
+/**
+ * Merge access policies. Rule order matters (first match wins), so
+ * dashboard rules come first and replace SDK rules with the same name.
+ */
+function mergeAccessPolicies(
+  sdk: ManagedRulesConfig,
+  remote: RemoteConfigBundle | null,
+): ResolvedConfig["accessPolicies"] {
+  const base: ResolvedConfig["accessPolicies"] = {
+    enabled: sdk.accessPolicies?.enabled ?? DEFAULTS.accessPolicies.enabled,
+    rules: sdk.accessPolicies?.rules ?? [],
+  };
+
+  if (!remote?.accessPolicies) return base;
+
+  return {
+    enabled: remote.accessPolicies.enabled ?? base.enabled,
+    rules: mergeNamedRules(base.rules, remote.accessPolicies.rules || []),
+  };
+}
+
+/**
+ * Merge rate limits. Like access policies, dashboard rules come first
+ * and replace SDK rules with the same name.
+ */
+function mergeRateLimits(
+  sdk: ManagedRulesConfig,
+  remote: RemoteConfigBundle | null,
+): ResolvedConfig["rateLimits"] {
+  const base: ResolvedConfig["rateLimits"] = {
+    enabled: sdk.rateLimits?.enabled ?? DEFAULTS.rateLimits.enabled,
+    rules: sdk.rateLimits?.rules ?? [],
+  };
+
+  if (!remote?.rateLimits) return base;
+
+  return {
+    enabled: remote.rateLimits.enabled ?? base.enabled,
+    rules: mergeNamedRules(base.rules, remote.rateLimits.rules || []),
+  };
+}
+
+/**
+ * Put dashboard rules ahead of SDK rules, dropping SDK rules that a
+ * dashboard rule replaces by name
+ */
+function mergeNamedRules<T extends { name?: string }>(sdkRules: T[], dashboardRules: T[]): T[] {
+  const dashboardNames = new Set(dashboardRules.map((rule) => rule.name).filter(Boolean));
+  return [
+    ...dashboardRules,
+    ...sdkRules.filter((rule) => !rule.name || !dashboardNames.has(rule.name)),
+  ];
+}
+
+/**
+ * Merge crawler pricing. The token secret only comes from SDK code.
+ */
+function mergeCrawlerPricing(
+  sdk: ManagedRulesConfig,
+  remote: RemoteConfigBundle | null,
+): ResolvedConfig["crawlerPricing"] {
+  const defaults = DEFAULTS.crawlerPricing;
+  const base: ResolvedConfig["crawlerPricing"] = {
+    enabled: sdk.crawlerPricing?.enabled ?? defaults.enabled,
+    price: sdk.crawlerPricing?.price ?? defaults.price,
+    currency: sdk.crawlerPricing?.currency ?? defaults.currency,
+    match: sdk.crawlerPricing?.match ?? defaults.match,
+    paymentUrl: sdk.crawlerPricing?.paymentUrl,
+    secret: sdk.crawlerPricing?.secret,
+  };
+
+  const merged = remote?.crawlerPricing
+    ? {
+      enabled: remote.crawlerPricing.enabled ?? base.enabled,
+      price: remote.crawlerPricing.price ?? base.price,
+      currency: remote.crawlerPricing.currency ?? base.currency,
+      match: remote.crawlerPricing.match ?? base.match,
+      paymentUrl: remote.crawlerPricing.paymentUrl ?? base.paymentUrl,
+      secret: base.secret,
+    }
+    : base;
+
+  // Reject pricing without a positive price (a 402 for a free crawl is a misconfiguration)
+  if (merged.enabled && !(typeof merged.price === "number" && merged.price > 0)) {
+    return { ...merged, enabled: false };
+  }
+  return merged;
+}
+
+/**
+ * Apply SDK, then dashboard, bot definitions to the built-in catalog.
+ * Dashboard additions end up ahead of SDK additions, so the dashboard wins.
+ */
+function mergeBots(
+  sdk: ManagedRulesConfig,
+  remote: RemoteConfigBundle | null,
+): ResolvedConfig["bots"] {
+  if (!sdk.bots && !remote?.bots) return DEFAULTS.bots;
+
+  const key = JSON.stringify([sdk.bots ?? null, remote?.bots ?? null]);
+  let catalog = compiledCatalogs.get(key);
+  if (!catalog) {
+    const sdkEntries = applyBotDefinitions(BOT_CATALOG, sdk.bots ?? {});
+    catalog = new BotCatalog(applyBotDefinitions(sdkEntries, remote?.bots ?? {}));
+
+    if (compiledCatalogs.size >= MAX_COMPILED_CATALOGS) {
+      compiledCatalogs.delete(compiledCatalogs.keys().next().value!);
+    }
+    compiledCatalogs.set(key, catalog);
+  }
+  return catalog;
+}
+
 /**
  * Merge GEO rules from SDK and dashboard.
  * Dashboard rules override SDK rules with the same urlPattern.
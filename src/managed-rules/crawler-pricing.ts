@@ -0,0 +1,235 @@
+/**
+ * Crawler Pricing (pay-per-crawl)
+ *
+ * Charges matching crawlers per request. A crawler presents a payment
+ * token as `Authorization: Bearer <token>`: an HS256 JWT signed with the
+ * site's secret by whoever sells access. Crawlers without a valid token
+ * get `402 Payment Required` with the price in a `crawler-price` header.
+ * Paid crawls reach origin without the token (it is meant for this
+ * middleware, not origin) and the response carries `crawler-charged`.
+ * Without a secret no token can be verified, so the stage is skipped.
+ *
+ * Tokens are time-boxed passes, not per-request payments: there is no
+ * replay tracking, so a token is accepted on every request until `exp`.
+ * The issuer prices the window it grants and keeps it short.
+ *
+ * Token claims:
+ * - exp (required): expiry, in seconds since the epoch
+ * - nbf: not valid before, in seconds since the epoch
+ * - aud: hostname (or list of hostnames) the token is valid for
+ * - sub: bot name the token was issued to (case-insensitive)
+ * - max_price: highest price per request the crawler agreed to pay
+ */
+
+import type { CrawlerPayment, ResponseContext } from "../types/middleware.types";
+import type { ResolvedConfig } from "../types/managed-rules.types";
+import { fromBase64Url, importHmacKey, hmacVerify } from "../utils/crypto";
+import { ruleMatches } from "./access-policy";
+
+/**
+ * Tolerated clock skew for `exp` and `nbf` (60 seconds)
+ */
+const DEFAULT_CLOCK_SKEW = 60;
+
+/**
+ * Env bindings read by crawler pricing
+ */
+interface CrawlerPricingEnv {
+  /** Token secret (used when `crawlerPricing.secret` isn't set) */
+  BOTMON_CRAWLER_TOKEN_SECRET?: string;
+}
+
+/** Whether the missing-secret warning was logged in this isolate */
+let warnedMissingSecret = false;
+
+/** Imported keys, cached per isolate by secret */
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+const decoder = new TextDecoder();
+
+/**
+ * Result of verifying a payment token
+ */
+export type CrawlerTokenResult =
+  | { valid: true }
+  | { valid: false; reason: Exclude<CrawlerPayment["reason"], "missing" | undefined> };
+
+/**
+ * Decode a base64url JSON object, or return null if invalid
+ */
+function decodeJsonPart(part: string): Record<string, unknown> | null {
+  const bytes = fromBase64Url(part);
+  if (!bytes) return null;
+  try {
+    const value = JSON.parse(decoder.decode(bytes));
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Token secret from config, else from the env binding
+ */
+function getTokenSecret(config: ResolvedConfig["crawlerPricing"], env: unknown): string | undefined {
+  if (config.secret) return config.secret;
+  const secret = (env as CrawlerPricingEnv | undefined)?.BOTMON_CRAWLER_TOKEN_SECRET;
+  return typeof secret === "string" && secret ? secret : undefined;
+}
+
+/**
+ * Format a price for the `crawler-price` / `crawler-charged` headers (e.g. "USD 0.01")
+ */
+export function formatCrawlerPrice(price: number, currency: string): string {
+  return `${currency} ${price}`;
+}
+
+/**
+ * Verify an HS256 payment token for this request and price
+ */
+export async function verifyCrawlerToken(
+  token: string,
+  secret: string,
+  context: ResponseContext,
+  price: number,
+  now = Date.now(),
+): Promise<CrawlerTokenResult> {
+  const parts = token.split(".");
+  if (parts.length !== 3) return { valid: false, reason: "invalid" };
+  const [headerPart, payloadPart, signature] = parts;
+
+  const header = decodeJsonPart(headerPart);
+  if (header?.alg !== "HS256") return { valid: false, reason: "invalid" };
+
+  let key = keyCache.get(secret);
+  if (!key) {
+    key = importHmacKey(secret);
+    keyCache.set(secret, key);
+  }
+  if (!(await hmacVerify(await key, `${headerPart}.${payloadPart}`, signature))) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  const claims = decodeJsonPart(payloadPart);
+  if (!claims || typeof claims.exp !== "number") return { valid: false, reason: "invalid" };
+
+  const nowSeconds = now / 1000;
+  if (claims.exp + DEFAULT_CLOCK_SKEW < nowSeconds) return { valid: false, reason: "expired" };
+  if (typeof claims.nbf === "number" && claims.nbf - DEFAULT_CLOCK_SKEW > nowSeconds) {
+    return { valid: false, reason: "invalid" };
+  }
+
+  if (claims.aud !== undefined) {
+    const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+    if (!audiences.includes(context.url.hostname)) return { valid: false, reason: "invalid" };
+  }
+  if (claims.sub !== undefined) {
+    const botName = context.botName?.toLowerCase();
+    if (typeof claims.sub !== "string" || claims.sub.toLowerCase() !== botName) {
+      return { valid: false, reason: "invalid" };
+    }
+  }
+  if (claims.max_price !== undefined) {
+    if (typeof claims.max_price !== "number" || claims.max_price < price) {
+      return { valid: false, reason: "price" };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Build the 402 response for a refused crawl
+ */
+export function buildPaymentRequiredResponse(
+  config: ResolvedConfig["crawlerPricing"],
+  context: ResponseContext,
+  reason: NonNullable<CrawlerPayment["reason"]>,
+): Response {
+  const headers = new Headers({
+    "Content-Type": "application/json; charset=utf-8",
+    "crawler-price": formatCrawlerPrice(config.price, config.currency),
+    "WWW-Authenticate": reason === "missing"
+      ? `Bearer realm="${context.url.hostname}"`
+      : `Bearer realm="${context.url.hostname}", error="invalid_token"`,
+    "Cache-Control": "no-store",
+  });
+  const paymentUrl = config.paymentUrl ? new URL(config.paymentUrl, context.url).href : undefined;
+  if (paymentUrl) {
+    headers.set("Link", `<${paymentUrl}>; rel="payment"`);
+  }
+
+  const body = {
+    error: "payment_required",
+    reason,
+    price: config.price,
+    currency: config.currency,
+    paymentUrl,
+  };
+  return new Response(JSON.stringify(body), { status: 402, headers });
+}
+
+/**
+ * Check a priced crawler's payment token.
+ * Sets `context.crawlerPayment` and returns a 402 response for refused
+ * crawls, or null when the request isn't priced or was paid for.
+ */
+export async function handleCrawlerPricing(
+  context: ResponseContext,
+  config: ResolvedConfig["crawlerPricing"],
+): Promise<Response | null> {
+  if (!ruleMatches(config.match, context)) return null;
+
+  const secret = getTokenSecret(config, context.env);
+  if (!secret) {
+    if (!warnedMissingSecret) {
+      warnedMissingSecret = true;
+      console.warn(
+        "[BotMon] Crawler pricing is enabled but no token secret is configured " +
+        "(crawlerPricing.secret or BOTMON_CRAWLER_TOKEN_SECRET); skipping",
+      );
+    }
+    return null;
+  }
+
+  const { price, currency } = config;
+  const authorization = context.request.headers.get("Authorization") ?? "";
+  const token = /^Bearer\s+(\S+)$/i.exec(authorization.trim())?.[1];
+
+  let reason: NonNullable<CrawlerPayment["reason"]> = "missing";
+  if (token) {
+    const result = await verifyCrawlerToken(token, secret, context, price);
+    if (result.valid) {
+      context.crawlerPayment = { status: "paid", price, currency };
+      return null;
+    }
+    reason = result.reason;
+  }
+
+  context.crawlerPayment = { status: "refused", price, currency, reason };
+  return buildPaymentRequiredResponse(config, context, reason);
+}
+
+/**
+ * Request to forward to origin for a paid crawl, without the payment
+ * token, or undefined when the request wasn't paid for
+ */
+export function stripPaymentToken(context: ResponseContext): Request | undefined {
+  if (context.crawlerPayment?.status !== "paid") return undefined;
+
+  const forwarded = new Request(context.request);
+  forwarded.headers.delete("Authorization");
+  return forwarded;
+}
+
+/**
+ * Mark a paid crawl's response with the `crawler-charged` header
+ */
+export function applyCrawlerCharge(response: Response, context: ResponseContext): Response {
+  const payment = context.crawlerPayment;
+  if (payment?.status !== "paid") return response;
+
+  const charged = new Response(response.body, response);
+  charged.headers.set("crawler-charged", formatCrawlerPrice(payment.price, payment.currency));
+  return charged;
+}
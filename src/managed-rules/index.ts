@@ -6,6 +6,10 @@
 
 export { fetchConfig } from "./api-client";
 export { mergeConfig } from "./config-merger";
-export { handleRobotsTxt } from "./robots-txt";
+export { handleRobotsTxt, resolveRobotsTxt } from "./robots-txt";
+export { enforceRobotsTxt, evaluateRobotsTxt, parseRobotsGroups } from "./robots-enforcement";
 export { handleSitemap } from "./sitemap";
 export { handleWellKnown } from "./well-known";
+export { findMatchingPolicy, buildPolicyResponse } from "./access-policy";
+export { handleCrawlerPricing, verifyCrawlerToken } from "./crawler-pricing";
+export { handleRateLimit, findMatchingRateLimit } from "./rate-limit";
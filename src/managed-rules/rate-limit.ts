@@ -0,0 +1,92 @@
+/**
+ * Rate Limit Handler
+ *
+ * Matches ordered token bucket rules against the request (with the same
+ * conditions as access policies) and answers requests over the limit with
+ * `429 Too Many Requests` and `Retry-After`. Each rule has its own
+ * buckets, keyed by bot name, client IP or session. Only authenticated
+ * bots share a bucket by name: anyone can send a crawler's User-Agent.
+ */
+
+import type { ResponseContext } from "../types/middleware.types";
+import type { RateLimitRule } from "../types/managed-rules.types";
+import type { RateLimitStore } from "../types/rate-limit.types";
+import { ruleMatches } from "./access-policy";
+
+/**
+ * Find the first valid rule matching the request
+ *
+ * @returns The rule and its position (used to key unnamed rules)
+ */
+export function findMatchingRateLimit(
+  context: ResponseContext,
+  rules: RateLimitRule[],
+): { rule: RateLimitRule; index: number } | null {
+  for (const [index, rule] of rules.entries()) {
+    // Skip malformed dashboard rules rather than limiting everything
+    if (!(rule.limit > 0 && rule.period > 0)) continue;
+    if (ruleMatches(rule.match ?? {}, context)) {
+      return { rule, index };
+    }
+  }
+  return null;
+}
+
+/**
+ * Bucket key for a request under a rule
+ */
+export function rateLimitKey(rule: RateLimitRule, index: number, context: ResponseContext): string {
+  const prefix = rule.name || `rule-${index}`;
+  const ip = context.request.headers.get("CF-Connecting-IP") || "unknown";
+
+  switch (rule.key ?? "bot") {
+    case "bot": {
+      // Unverifiable claims share a separate bucket, so they can't drain the
+      // real crawler's; claims proven false are limited per client IP
+      if (!context.botName || context.botVerification === "spoofed") return `${prefix}:ip:${ip}`;
+      const bucket = `${prefix}:bot:${context.botName.toLowerCase()}`;
+      const authenticated = context.botVerification === "verified" || context.signedAgent !== undefined;
+      return authenticated ? bucket : `${bucket}:unverified`;
+    }
+    case "session":
+      return context.sessionId ? `${prefix}:session:${context.sessionId}` : `${prefix}:ip:${ip}`;
+    default:
+      return `${prefix}:ip:${ip}`;
+  }
+}
+
+/**
+ * Take a token for the request.
+ * Sets `context.rateLimit` and returns a 429 response when the bucket is
+ * empty, or null when no rule matches or the request is within the limit.
+ */
+export async function handleRateLimit(
+  context: ResponseContext,
+  rules: RateLimitRule[],
+  store: RateLimitStore,
+): Promise<Response | null> {
+  const matched = findMatchingRateLimit(context, rules);
+  if (!matched) return null;
+
+  const { rule, index } = matched;
+  const result = await store.consume(rateLimitKey(rule, index, context), {
+    limit: rule.limit,
+    period: rule.period,
+  });
+
+  if (result.allowed) {
+    context.rateLimit = { rule: rule.name, limited: false };
+    return null;
+  }
+
+  const retryAfter = Math.max(1, Math.ceil(result.retryAfter));
+  context.rateLimit = { rule: rule.name, limited: true, retryAfter };
+  return new Response("Too Many Requests", {
+    status: 429,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Retry-After": String(retryAfter),
+      "X-BotMon-RateLimit": rule.name || `rule-${index}`,
+    },
+  });
+}
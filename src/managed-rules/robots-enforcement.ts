@@ -0,0 +1,270 @@
+/**
+ * robots.txt Enforcement
+ *
+ * Checks crawler requests against the robots.txt the site serves (origin
+ * plus managed content, as resolved by the robots.txt handler). Groups
+ * are picked by the bot's User-Agent product token and rules by longest
+ * match, following RFC 9309. Violations are recorded on the context and,
+ * depending on the mode, logged or blocked.
+ *
+ * The resolved robots.txt is cached per hostname in the isolate, so
+ * origin's /robots.txt is requested at most once per TTL. A failed or
+ * empty fetch is cached briefly, and the last good copy is kept meanwhile,
+ * so an origin hiccup doesn't turn enforcement off. Log mode warns
+ * once per TTL for each hostname, bot and directive.
+ */
+
+import type { ResponseContext } from "../types/middleware.types";
+import type { ResolvedConfig } from "../types/managed-rules.types";
+import { resolveRobotsTxt } from "./robots-txt";
+import { ruleMatches } from "./access-policy";
+
+/**
+ * Resolved robots.txt cache TTL (5 minutes)
+ */
+const DEFAULT_ROBOTS_CACHE_TTL_MS = 300_000;
+
+/**
+ * Cache TTL after a failed, non-200 or empty origin fetch (30 seconds)
+ */
+const FAILED_ROBOTS_CACHE_TTL_MS = 30_000;
+
+/** Maximum cached robots.txt files per isolate */
+const MAX_CACHED_ROBOTS = 50;
+
+/** Maximum remembered logged violations per isolate */
+const MAX_LOGGED_VIOLATIONS = 500;
+
+/**
+ * Allow or Disallow rule
+ */
+interface RobotsRule {
+  allow: boolean;
+  /** Path pattern as written */
+  path: string;
+  pattern: RegExp;
+}
+
+/**
+ * Group of rules for one or more user agents
+ */
+export interface RobotsGroup {
+  /** Lowercased product tokens ("*" for the default group) */
+  agents: string[];
+  rules: RobotsRule[];
+}
+
+/**
+ * Cached robots.txt for a hostname
+ */
+interface CachedRobots {
+  expires: number;
+  groups: Promise<RobotsGroup[]>;
+  /** Groups from the last fetch origin answered in full */
+  lastGood?: Promise<RobotsGroup[]>;
+}
+
+/**
+ * Outcome of checking a path against robots.txt
+ */
+export interface RobotsDecision {
+  allowed: boolean;
+  /** Deciding rule (e.g. "Disallow: /private") */
+  directive?: string;
+}
+
+/** Parsed robots.txt files, cached per isolate by hostname and managed config */
+const robotsCache = new Map<string, CachedRobots>();
+
+/** Expiry of the last warning per hostname, bot and directive (log mode) */
+const loggedViolations = new Map<string, number>();
+
+/**
+ * Compile a robots.txt path pattern (`*` wildcard, trailing `$` anchor)
+ */
+function compilePathPattern(path: string): RegExp {
+  const anchored = path.endsWith("$");
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+/**
+ * Parse robots.txt into groups. Consecutive User-agent lines share a
+ * group; rules outside a group are ignored.
+ */
+export function parseRobotsGroups(content: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of content.split("\n")) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      if (!current || !collectingAgents) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      // Product token only ("GPTBot/1.0" → "gptbot")
+      current.agents.push(value.split(/[/\s]/)[0].toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    collectingAgents = false;
+    // An empty Disallow allows everything, so it never decides
+    if (current && (field === "allow" || field === "disallow") && value) {
+      current.rules.push({ allow: field === "allow", path: value, pattern: compilePathPattern(value) });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Check whether robots.txt allows a crawler to fetch a path.
+ * The longest matching rule wins; Allow wins ties.
+ *
+ * @param groups - Parsed robots.txt
+ * @param token - Crawler's User-Agent product token (case-insensitive)
+ * @param path - Request path including the query string
+ */
+export function evaluateRobotsTxt(groups: RobotsGroup[], token: string, path: string): RobotsDecision {
+  const agent = token.toLowerCase();
+  let matched = groups.filter((group) => group.agents.includes(agent));
+  if (matched.length === 0) {
+    matched = groups.filter((group) => group.agents.includes("*"));
+  }
+
+  let best: RobotsRule | undefined;
+  for (const group of matched) {
+    for (const rule of group.rules) {
+      if (!rule.pattern.test(path)) continue;
+      if (
+        !best ||
+        rule.path.length > best.path.length ||
+        (rule.path.length === best.path.length && rule.allow && !best.allow)
+      ) {
+        best = rule;
+      }
+    }
+  }
+
+  if (!best || best.allow) return { allowed: true };
+  return { allowed: false, directive: `Disallow: ${best.path}` };
+}
+
+/**
+ * Get the parsed robots.txt served for the request's hostname
+ *
+ * @param fetchRobotsTxt - Fetches origin's /robots.txt
+ */
+function getRobotsGroups(
+  context: ResponseContext,
+  robotsConfig: ResolvedConfig["robotsTxt"],
+  fetchRobotsTxt: () => Promise<Response>,
+): Promise<RobotsGroup[]> {
+  // Managed content is part of the key, so dashboard changes apply immediately
+  const mode = robotsConfig.enabled ? robotsConfig.mode : "disabled";
+  const key = JSON.stringify([context.url.hostname, mode, robotsConfig.content ?? ""]);
+  const now = Date.now();
+
+  const cached = robotsCache.get(key);
+  if (cached && cached.expires > now) return cached.groups;
+
+  // Note whether origin's robots.txt came back whole
+  let originFailed = false;
+  const fetchOrigin = async (): Promise<Response> => {
+    try {
+      const response = await fetchRobotsTxt();
+      if (response.status !== 200 || !(await response.clone().text()).trim()) originFailed = true;
+      return response;
+    } catch (error) {
+      originFailed = true;
+      throw error;
+    }
+  };
+
+  const entry: CachedRobots = { expires: now + DEFAULT_ROBOTS_CACHE_TTL_MS, groups: Promise.resolve([]) };
+  const lastGood = cached?.lastGood;
+  entry.groups = resolveRobotsTxt({ ...robotsConfig, mode }, fetchOrigin).then((content) => {
+    if (!originFailed) {
+      entry.lastGood = entry.groups;
+      return parseRobotsGroups(content);
+    }
+    // Retry soon, enforcing the last good copy until then
+    entry.expires = Date.now() + FAILED_ROBOTS_CACHE_TTL_MS;
+    entry.lastGood = lastGood;
+    return lastGood ?? parseRobotsGroups(content);
+  });
+
+  robotsCache.delete(key);
+  if (robotsCache.size >= MAX_CACHED_ROBOTS) {
+    robotsCache.delete(robotsCache.keys().next().value!);
+  }
+  robotsCache.set(key, entry);
+  return entry.groups;
+}
+
+/**
+ * Warn about a violation unless the same bot broke the same directive
+ * on this hostname within the TTL
+ */
+function logViolation(context: ResponseContext, directive: string): void {
+  const key = JSON.stringify([context.url.hostname, context.botName, directive]);
+  const now = Date.now();
+  const expires = loggedViolations.get(key);
+  if (expires !== undefined && expires > now) return;
+
+  loggedViolations.delete(key);
+  if (loggedViolations.size >= MAX_LOGGED_VIOLATIONS) {
+    loggedViolations.delete(loggedViolations.keys().next().value!);
+  }
+  loggedViolations.set(key, now + DEFAULT_ROBOTS_CACHE_TTL_MS);
+  console.warn(
+    `[BotMon] robots.txt violation: ${context.botName} fetched ${context.url.pathname} (${directive})`,
+  );
+}
+
+/**
+ * Check a crawler request against robots.txt.
+ * Sets `context.robotsViolation` for disallowed paths and returns a 403
+ * response in "block" mode, or null otherwise.
+ */
+export async function enforceRobotsTxt(
+  context: ResponseContext,
+  config: ResolvedConfig["robotsEnforcement"],
+  robotsConfig: ResolvedConfig["robotsTxt"],
+  fetchRobotsTxt: () => Promise<Response>,
+): Promise<Response | null> {
+  // robots.txt itself is always allowed (RFC 9309)
+  if (!context.botToken || context.url.pathname === "/robots.txt") return null;
+  if (!ruleMatches(config.match, context)) return null;
+
+  const groups = await getRobotsGroups(context, robotsConfig, fetchRobotsTxt);
+  const decision = evaluateRobotsTxt(groups, context.botToken, context.url.pathname + context.url.search);
+  if (decision.allowed || !decision.directive) return null;
+
+  context.robotsViolation = { directive: decision.directive, mode: config.mode };
+
+  if (config.mode === "log") {
+    logViolation(context, decision.directive);
+  }
+  if (config.mode !== "block") return null;
+
+  return new Response("Forbidden by robots.txt", {
+    status: 403,
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "X-BotMon-Robots": decision.directive,
+    },
+  });
+}
@@ -15,62 +15,59 @@ type RobotsTxtConfig = ResolvedConfig["robotsTxt"];
  * Handle a /robots.txt request based on the resolved configuration.
  */
 export async function handleRobotsTxt(
-  context: ResponseContext,
+  _context: ResponseContext,
   config: RobotsTxtConfig,
   fetchOrigin: () => Promise<Response>,
 ): Promise<Response> {
-  const botmonContent = config.content || "";
-
   switch (config.mode) {
-    case "replace": {
-      // Serve entirely from BotMon
-      return new Response(botmonContent, {
-        status: 200,
-        headers: {
-          "Content-Type": "text/plain; charset=utf-8",
-          "X-BotMon-Managed": "robots-txt",
-          "X-BotMon-Mode": "replace",
-        },
-      });
-    }
-
-    case "append": {
-      // Fetch origin, append BotMon content (treat non-200/non-text as empty)
-      const originText = await fetchOriginText(fetchOrigin);
-      const merged = appendRobotsTxt(originText, botmonContent);
-
-      return new Response(merged, {
-        status: 200,
-        headers: {
-          "Content-Type": "text/plain; charset=utf-8",
-          "X-BotMon-Managed": "robots-txt",
-          "X-BotMon-Mode": "append",
-        },
-      });
-    }
-
+    case "replace":
+    case "append":
     case "merge": {
-      // Fetch origin, intelligently merge (treat non-200/non-text as empty)
-      const originText = await fetchOriginText(fetchOrigin);
-      const merged = mergeRobotsTxt(originText, botmonContent);
-
-      return new Response(merged, {
+      return new Response(await resolveRobotsTxt(config, fetchOrigin), {
         status: 200,
         headers: {
           "Content-Type": "text/plain; charset=utf-8",
           "X-BotMon-Managed": "robots-txt",
-          "X-BotMon-Mode": "merge",
+          "X-BotMon-Mode": config.mode,
         },
       });
     }
 
     default: {
       // disabled or unknown — return origin response
-      return context.response;
+      return fetchOrigin();
     }
   }
 }
 
+/**
+ * Resolve the robots.txt content crawlers see: managed content combined
+ * with origin according to the mode, or origin alone when disabled.
+ */
+export async function resolveRobotsTxt(
+  config: RobotsTxtConfig,
+  fetchOrigin: () => Promise<Response>,
+): Promise<string> {
+  const botmonContent = config.content || "";
+
+  switch (config.mode) {
+    case "replace":
+      // Served entirely from BotMon
+      return botmonContent;
+
+    case "append":
+      // Append BotMon content to origin (treat non-200/non-text as empty)
+      return appendRobotsTxt(await fetchOriginText(fetchOrigin), botmonContent);
+
+    case "merge":
+      // Intelligently merge with origin (treat non-200/non-text as empty)
+      return mergeRobotsTxt(await fetchOriginText(fetchOrigin), botmonContent);
+
+    default:
+      return fetchOriginText(fetchOrigin);
+  }
+}
+
 /**
  * Fetch origin robots.txt, returning empty string if origin returns
  * non-200, non-text/plain content, or errors.
@@ -80,7 +77,8 @@ async function fetchOriginText(
 ): Promise<string> {
   try {
     const response = await fetchOrigin();
-    if (!response.ok) return "";
+    // Only a full 200 (not 206 Partial Content or 304 Not Modified)
+    if (response.status !== 200) return "";
     const contentType = response.headers.get("content-type") || "";
     if (!contentType.includes("text/plain")) return "";
     return await response.text();
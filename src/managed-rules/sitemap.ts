@@ -15,7 +15,7 @@ type SitemapConfig = ResolvedConfig["sitemap"];
  * Handle a sitemap request based on the resolved configuration.
  */
 export async function handleSitemap(
-  context: ResponseContext,
+  _context: ResponseContext,
   config: SitemapConfig,
   fetchOrigin: () => Promise<Response>,
 ): Promise<Response> {
@@ -66,7 +66,7 @@ export async function handleSitemap(
 
     default: {
       // disabled or unknown — return origin response
-      return context.response;
+      return fetchOrigin();
     }
   }
 }
@@ -22,12 +22,27 @@ import type {
   CloudflareFetchHandler,
   CloudflareWorkerExport,
   MiddlewareAnalyticsMetadata,
+  ResponseContext,
 } from "../types/middleware.types";
 import { buildContext } from "./context";
-import { runPipeline } from "./pipeline";
+import { runPipeline, lazyOrigin } from "./pipeline";
 import { fetchConfig } from "../managed-rules/api-client";
 import { mergeConfig } from "../managed-rules/config-merger";
+import { formatCrawlerPrice } from "../managed-rules/crawler-pricing";
 import { BotMon } from "../client/botmon";
+import { resolveConsent, cookielessSessionId } from "./consent";
+import {
+  resolveSessionCookieOptions,
+  readSession,
+  buildSessionCookie,
+  buildExpiredSessionCookie,
+} from "./session-cookie";
+import { getCookie } from "../utils/cookies";
+import { BotVerifier } from "../verification/bot-verifier";
+import { WebBotAuthVerifier } from "../verification/web-bot-auth";
+import { MemoryRateLimitStore } from "../rate-limit/memory";
+import { createProviderAdapter } from "../types/provider.types";
+import type { ConsentState, ProviderBotData } from "../types";
 import { SDK_VERSION } from "../index";
 
 /**
@@ -41,38 +56,27 @@ const DEFAULT_API_BASE_URL = "https://app.botmon.io/api";
 const DEFAULT_CONFIG_CACHE_TTL = 300;
 
 /**
- * Default session cookie name
+ * Request headers forwarded to origin's /robots.txt for enforcement.
+ * The result is cached per hostname and applied to every client, so
+ * conditional, Range and credential headers are never forwarded.
  */
-const DEFAULT_SESSION_COOKIE_NAME = "__botmon_sid";
+const ROBOTS_TXT_FORWARDED_HEADERS = [
+  "User-Agent",
+  "X-Forwarded-Host",
+  "X-Forwarded-Proto",
+  "CF-Connecting-IP",
+];
 
 /**
- * Default session cookie max age (30 minutes)
+ * Build the /robots.txt request for enforcement from the request that triggered it
  */
-const DEFAULT_SESSION_MAX_AGE = 1800;
-
-/**
- * Parse session cookie from request Cookie header
- */
-function parseSessionCookie(request: Request, cookieName: string): string | undefined {
-  const cookieHeader = request.headers.get("Cookie");
-  if (!cookieHeader) return undefined;
-
-  const cookies = cookieHeader.split(";");
-  for (const cookie of cookies) {
-    const [name, ...valueParts] = cookie.trim().split("=");
-    if (name === cookieName) {
-      return valueParts.join("=") || undefined;
-    }
+function robotsTxtRequest(request: Request, url: URL): Request {
+  const headers = new Headers();
+  for (const name of ROBOTS_TXT_FORWARDED_HEADERS) {
+    const value = request.headers.get(name);
+    if (value !== null) headers.set(name, value);
   }
-
-  return undefined;
-}
-
-/**
- * Build Set-Cookie header value for session tracking
- */
-function buildSetCookieHeader(cookieName: string, value: string, maxAge: number): string {
-  return `${cookieName}=${value}; Path=/; Max-Age=${maxAge}; HttpOnly; Secure; SameSite=Lax`;
+  return new Request(new URL("/robots.txt", url), { headers });
 }
 
 /**
@@ -84,6 +88,13 @@ function buildSetCookieHeader(cookieName: string, value: string, maxAge: number)
 export function createCloudflareMiddleware(
   config: MiddlewareConfig,
 ): (handler: CloudflareFetchHandler) => CloudflareWorkerExport {
+  // Shared across requests so DNS results and key directories stay cached in the isolate
+  const verifier = new BotVerifier(config.verification);
+  const webBotAuth = new WebBotAuthVerifier(config.webBotAuth);
+  const providerAdapter = createProviderAdapter(config.botDetectionProvider || "none");
+  // Fallback token buckets, counted per isolate
+  const memoryRateLimitStore = new MemoryRateLimitStore();
+
   return (handler: CloudflareFetchHandler): CloudflareWorkerExport => {
     return {
       fetch: async (
@@ -93,6 +104,11 @@ export function createCloudflareMiddleware(
       ): Promise<Response> => {
         const startTime = performance.now();
 
+        // Origin fetch (lazy and memoized — intercepted requests never reach origin,
+        // and the handler runs at most once for the request itself; robots.txt
+        // enforcement may also call it for /robots.txt on a cache miss)
+        const originFetch = lazyOrigin(async (forwarded = request) => handler(forwarded, env, ctx));
+
         try {
           // Resolve API key from config or env
           const apiKey = config.apiKey || (env as any)?.BOTMON_API_KEY;
@@ -101,14 +117,45 @@ export function createCloudflareMiddleware(
             return handler(request, env, ctx);
           }
 
-          // Session tracking: read cookie
+          // Consent mode: resolve before touching the session cookie
+          let consentState: ConsentState | undefined;
+          if (config.consent?.enabled) {
+            consentState = await resolveConsent(request, config.consent);
+          }
+
+          // Session tracking: read cookie (or derive a cookieless ID without consent)
           const sessionEnabled = config.sessionTracking?.enabled !== false;
-          const sessionCookieName = config.sessionTracking?.cookieName || DEFAULT_SESSION_COOKIE_NAME;
-          const sessionMaxAge = config.sessionTracking?.maxAge ?? DEFAULT_SESSION_MAX_AGE;
+          const sessionOptions = resolveSessionCookieOptions(
+            config.sessionTracking,
+            config.sessionTracking?.secret || (env as any)?.BOTMON_SESSION_SECRET,
+          );
+          const hasSessionCookie =
+            sessionEnabled && getCookie(request, sessionOptions.cookieName) !== undefined;
+          const useSessionCookie = sessionEnabled && (!consentState || consentState === "granted");
+          let sessionCookie: string | null = null;
           let sessionId: string | undefined;
+          // Only sessions the client already holds (new ones are free to mint)
+          let establishedSessionId: string | undefined;
 
-          if (sessionEnabled) {
-            sessionId = parseSessionCookie(request, sessionCookieName) || crypto.randomUUID();
+          if (useSessionCookie) {
+            // Forged, tampered or expired cookies start a new session
+            const session = await readSession(request, sessionOptions);
+            sessionId = session.sessionId;
+            if (!session.isNew) establishedSessionId = session.sessionId;
+            sessionCookie = await buildSessionCookie(session, sessionOptions);
+            if (config.debug && session.isNew && hasSessionCookie) {
+              console.log("[BotMon] Invalid session cookie rejected, starting a new session");
+            }
+          } else if (sessionEnabled) {
+            sessionId = await cookielessSessionId(
+              request,
+              config.ipHashSecret || (env as any)?.BOTMON_IP_HASH_SECRET,
+            );
+            establishedSessionId = sessionId;
+            // Consent withdrawn: expire a previously set session cookie
+            if (hasSessionCookie) {
+              sessionCookie = buildExpiredSessionCookie(sessionOptions);
+            }
           }
 
           const url = new URL(request.url);
@@ -122,21 +169,56 @@ export function createCloudflareMiddleware(
           // Merge: SDK code defaults + dashboard overrides (dashboard wins)
           const resolvedConfig = mergeConfig(config.managedRules || {}, remoteConfig);
 
-          // Define origin fetch (lazy — only called if no managed file matches)
-          const originFetch = async () => handler(request, env, ctx);
+          // Upstream bot signals (custom adapters must not break the request)
+          let providerBotData: ProviderBotData | undefined;
+          try {
+            providerBotData = providerAdapter.extractBotData(request) ?? undefined;
+          } catch (error) {
+            if (config.debug) console.error("[BotMon] Provider adapter failed:", error);
+          }
 
-          // Call origin to get the response for context building
-          // (Pipeline stages that intercept will short-circuit before using it)
-          const originResponse = await originFetch();
+          // Verify crawler claims (published IP ranges / reverse DNS)
+          const verification = await verifier.verify(
+            request,
+            providerBotData?.verified === true,
+            (promise) => ctx.waitUntil(promise),
+          );
+          if (config.debug && verification.status === "spoofed") {
+            console.log(
+              `[BotMon] Spoofed ${verification.operator} crawler from ${request.headers.get("CF-Connecting-IP")}`,
+            );
+          }
+
+          // Verify Web Bot Auth signatures (signed agents)
+          const signature = await webBotAuth.verify(request);
+          if (config.debug && signature.status === "invalid") {
+            console.log(`[BotMon] Rejected Web Bot Auth signature: ${signature.reason}`);
+          }
 
           // Build request context
-          const context = buildContext(request, originResponse, env, ctx);
+          const context = buildContext(request, env, ctx, {
+            providerBotData,
+            botVerification: verification.status,
+            signedAgent: signature.signedAgent,
+          }, resolvedConfig.bots);
+          context.sessionId = establishedSessionId;
+
+          // Rate limit buckets: configured store (or factory from env), else per isolate
+          const rateLimitStore = typeof config.rateLimitStore === "function"
+            ? config.rateLimitStore(env)
+            : config.rateLimitStore ?? memoryRateLimitStore;
 
           // Run managed rules pipeline
           const { response, appliedRules } = await runPipeline(
             context,
             resolvedConfig,
             originFetch,
+            {
+              rateLimitStore,
+              // Origin robots.txt for enforcement (cached by the stage): an extra
+              // handler call with the routing headers of the original request
+              fetchRobotsTxt: async () => handler(robotsTxtRequest(request, url), env, ctx),
+            },
           );
 
           // Apply onResponse hook if configured
@@ -144,7 +226,7 @@ export function createCloudflareMiddleware(
           if (config.onResponse) {
             try {
               context.response = response;
-              finalResponse = await config.onResponse(context);
+              finalResponse = await config.onResponse(context as ResponseContext & { response: Response });
             } catch (error) {
               console.error("[BotMon] onResponse hook failed:", error);
               finalResponse = response;
@@ -153,10 +235,12 @@ export function createCloudflareMiddleware(
 
           // Track analytics (non-blocking via waitUntil)
           try {
+            // Forward the full SDK config (batching, retries, hooks, ...).
+            // Module workers have no global env, so env secrets are passed explicitly.
             const sdk = BotMon.init({
+              ...config,
               apiKey,
-              ingestUrl: config.ingestUrl,
-              debug: config.debug,
+              ipHashSecret: config.ipHashSecret || (env as any)?.BOTMON_IP_HASH_SECRET,
             });
 
             const analyticsMetadata: MiddlewareAnalyticsMetadata = {
@@ -165,6 +249,16 @@ export function createCloudflareMiddleware(
               managedRulesApplied: appliedRules.length > 0 ? appliedRules : undefined,
               geoPageType: context.pageType,
               geoModified: appliedRules.includes("geo"),
+              accessPolicyRule: context.accessPolicy?.rule,
+              accessPolicyAction: context.accessPolicy?.action,
+              robotsViolation: context.robotsViolation ? true : undefined,
+              robotsDirective: context.robotsViolation?.directive,
+              rateLimitRule: context.rateLimit?.rule,
+              rateLimited: context.rateLimit?.limited,
+              crawlerPayment: context.crawlerPayment?.status,
+              crawlerPrice: context.crawlerPayment
+                ? formatCrawlerPrice(context.crawlerPayment.price, context.crawlerPayment.currency)
+                : undefined,
             };
 
             sdk.track(ctx, {
@@ -173,6 +267,10 @@ export function createCloudflareMiddleware(
               startTime,
               metadata: analyticsMetadata,
               sessionId,
+              consentState,
+              botVerification: verification.status,
+              signedAgent: signature.signedAgent,
+              classification: context.classification,
             });
           } catch (error) {
             // Analytics failure should never break the response
@@ -181,13 +279,10 @@ export function createCloudflareMiddleware(
             }
           }
 
-          // Session tracking: set/refresh cookie on response
-          if (sessionEnabled && sessionId) {
+          // Session tracking: set/refresh (or expire) cookie on response
+          if (sessionCookie) {
             const responseWithCookie = new Response(finalResponse.body, finalResponse);
-            responseWithCookie.headers.append(
-              "Set-Cookie",
-              buildSetCookieHeader(sessionCookieName, sessionId, sessionMaxAge),
-            );
+            responseWithCookie.headers.append("Set-Cookie", sessionCookie);
             return responseWithCookie;
           }
 
@@ -197,7 +292,12 @@ export function createCloudflareMiddleware(
           if (config.debug) {
             console.error("[BotMon] Middleware error, falling through to origin:", error);
           }
-          return handler(request, env, ctx);
+          // Reuse the origin response (the handler never runs twice). If a
+          // stage already consumed its body, there is nothing left to serve.
+          const originResponse = await originFetch();
+          return originResponse.bodyUsed
+            ? new Response("Bad Gateway", { status: 502 })
+            : originResponse;
         }
       },
     };
@@ -0,0 +1,82 @@
+/**
+ * Consent Mode
+ *
+ * Resolves whether a visitor consented to analytics cookies and derives a
+ * cookieless session ID for visitors who didn't. Cookieless IDs are a
+ * hash of IP + User-Agent + UTC day, so requests can be grouped for a day
+ * without storing anything on the device.
+ */
+
+import { getCookie } from "../utils/cookies";
+import { sha256Hex, hmacSha256Hex } from "../utils/crypto";
+import type { ConsentConfig, ConsentState } from "../types";
+
+/** Consent cookie values treated as "granted" by default */
+const DEFAULT_GRANTED_VALUES = ["1", "true", "yes", "granted", "accepted", "all"];
+
+/**
+ * Resolve the consent state of a request
+ */
+export async function resolveConsent(
+  request: Request,
+  config: ConsentConfig,
+): Promise<ConsentState> {
+  // Browser-level opt-outs take precedence over any stored choice
+  if (config.honorGpc !== false && request.headers.get("Sec-GPC")?.trim() === "1") {
+    return "denied";
+  }
+  if (config.honorDnt !== false && request.headers.get("DNT")?.trim() === "1") {
+    return "denied";
+  }
+
+  if (config.resolve) {
+    const state = await config.resolve(request);
+    if (state !== "unknown") return state;
+  }
+
+  if (config.cookieName) {
+    const value = getCookie(request, config.cookieName);
+    if (value !== undefined) {
+      let decoded = value;
+      try {
+        decoded = decodeURIComponent(value);
+      } catch {
+        // Keep the raw value
+      }
+      const granted = (config.grantedValues ?? DEFAULT_GRANTED_VALUES)
+        .some((v) => v.toLowerCase() === decoded.toLowerCase());
+      return granted ? "granted" : "denied";
+    }
+  }
+
+  return "unknown";
+}
+
+/**
+ * Cookieless session ID: hash of IP + User-Agent + UTC day, formatted as a UUID
+ *
+ * Keyed with `secret` (HMAC-SHA256) when provided, so IDs can't be
+ * brute-forced back to an IP address.
+ */
+export async function cookielessSessionId(
+  request: Request,
+  secret?: string,
+  now: Date = new Date(),
+): Promise<string> {
+  const input = [
+    request.headers.get("CF-Connecting-IP") || "",
+    request.headers.get("User-Agent") || "",
+    now.toISOString().slice(0, 10),
+  ].join("|");
+
+  const hex = secret ? await hmacSha256Hex(secret, input) : await sha256Hex(input);
+
+  // UUID version 8 (custom) so it's recognizable but still a valid UUID
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `8${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join("-");
+}
@@ -1,43 +1,57 @@
 /**
  * Middleware Context Builder
  *
- * Builds a ResponseContext from the incoming request, origin response,
- * and Cloudflare-specific data (cf object).
+ * Builds a ResponseContext from the incoming request and Cloudflare-specific
+ * data (cf object). Built before origin is called; the pipeline sets
+ * `response` later.
  */
 
 import type { ResponseContext } from "../types/middleware.types";
-import type { TrafficType } from "../types/ingest-event.types";
 import { detectAiBot } from "../geo/ai-bot-detector";
+import { BotCatalog, DEFAULT_BOT_CATALOG } from "../classification/bot-catalog";
+import { classifyRequest, type ClassificationSignals } from "../classification/traffic-classifier";
 
 /**
- * Build a ResponseContext from request/response and CF env
+ * Build a ResponseContext from the request and CF env
+ *
+ * @param signals - Provider data and authentication results computed by the middleware
+ * @param catalog - Bot catalog with SDK and dashboard definitions applied (ResolvedConfig.bots)
  */
 export function buildContext(
   request: Request,
-  response: Response,
   env: unknown,
   ctx: ExecutionContext,
+  signals: ClassificationSignals = {},
+  catalog: BotCatalog = DEFAULT_BOT_CATALOG,
 ): ResponseContext {
   const url = new URL(request.url);
   const cf = (request as any).cf;
   const userAgent = request.headers.get("User-Agent") || "";
 
-  // Detect AI bot from user agent
-  const botDetection = detectAiBot(userAgent);
+  // Look up the bot catalog and detect AI bots from user agent
+  const bot = catalog.detect(userAgent);
+  const botDetection = detectAiBot(userAgent, catalog);
 
-  // Classify traffic type (lightweight: AI bot or human)
-  const trafficType: TrafficType = botDetection.isAiBot ? "good_bot" : "human";
+  // Classify traffic (catalog, provider score, verification, header anomalies)
+  const classification = classifyRequest(request, signals, catalog);
 
   return {
     request,
-    response,
-    trafficType,
-    botName: botDetection.botName,
-    botCategory: botDetection.botCategory,
-    botTags: botDetection.botTags,
+    trafficType: classification.type,
+    classification,
+    botName: classification.botName,
+    botVersion: bot?.version,
+    botToken: bot?.pattern,
+    botCategory: bot?.category,
+    botTags: bot?.tags,
+    botOperator: bot?.operator,
+    botPurpose: bot?.purpose,
+    botVerification: signals.botVerification,
+    signedAgent: signals.signedAgent,
     country: cf?.country || undefined,
     url,
-    isAiBot: botDetection.isAiBot,
+    // Spoofed crawlers don't get AI bot treatment
+    isAiBot: botDetection.isAiBot && signals.botVerification !== "spoofed",
     env,
     ctx,
   };
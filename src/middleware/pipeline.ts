@@ -1,19 +1,34 @@
 /**
  * Middleware Pipeline Orchestrator
  *
- * Runs managed rules sequentially with error isolation.
+ * Runs managed rules sequentially with error isolation, in two phases:
+ *
+ * 1. Pre-origin: managed files, access policies, robots.txt enforcement,
+ *    rate limits and crawler pricing. A stage that handles
+ *    the request short-circuits, and origin is never called unless the
+ *    stage itself needs it (e.g. robots.txt in append mode).
+ * 2. Post-origin: origin is fetched, then response rewrites (GEO, crawler
+ *    charge headers) run.
+ *
+ * Origin is fetched lazily and at most once per request (robots.txt
+ * enforcement fetches /robots.txt separately, via `fetchRobotsTxt`).
  * Each rule is wrapped in try/catch so failures don't break the pipeline.
  */
 
 import type { ResponseContext, PipelineStageResult } from "../types/middleware.types";
 import type { ResolvedConfig } from "../types/managed-rules.types";
+import type { RateLimitStore } from "../types/rate-limit.types";
 import { handleRobotsTxt } from "../managed-rules/robots-txt";
 import { handleSitemap } from "../managed-rules/sitemap";
 import { handleWellKnown } from "../managed-rules/well-known";
+import { findMatchingPolicy, buildPolicyResponse } from "../managed-rules/access-policy";
+import { enforceRobotsTxt } from "../managed-rules/robots-enforcement";
+import { handleRateLimit } from "../managed-rules/rate-limit";
+import { handleCrawlerPricing, applyCrawlerCharge, stripPaymentToken } from "../managed-rules/crawler-pricing";
 import { applyGeoOptimization } from "../geo/index";
 
 /**
- * Pipeline stage definition
+ * Pre-origin stage definition
  */
 interface PipelineStage {
   name: string;
@@ -24,20 +39,64 @@ interface PipelineStage {
   ) => Promise<PipelineStageResult>;
 }
 
+/**
+ * Post-origin stage definition.
+ * Returns the response to continue with (a stage that reads the body
+ * must return a fresh response even when it doesn't apply).
+ */
+interface PostOriginStage {
+  name: string;
+  run: (
+    context: ResponseContext,
+    config: ResolvedConfig,
+    response: Response,
+  ) => Promise<{ applied: boolean; response: Response }>;
+}
+
+/**
+ * Services the pipeline needs beyond the request
+ */
+export interface PipelineOptions {
+  /** Token buckets for rate limits (rate limits are skipped without one) */
+  rateLimitStore?: RateLimitStore;
+  /** Fetches origin's /robots.txt (robots.txt enforcement is skipped without one) */
+  fetchRobotsTxt?: () => Promise<Response>;
+}
+
+/**
+ * Wrap an origin fetch so the handler runs at most once.
+ * Every caller gets the same response promise; the first caller may pass
+ * the request to forward (default: the incoming request).
+ */
+export function lazyOrigin(
+  originFetch: (request?: Request) => Promise<Response>,
+): (request?: Request) => Promise<Response> {
+  let response: Promise<Response> | undefined;
+  return (request) => {
+    response ??= originFetch(request);
+    return response;
+  };
+}
+
 /**
  * Run the managed rules pipeline.
  *
- * Stages run sequentially. If a stage "handles" the request (e.g. serves
- * a managed robots.txt), remaining stages are skipped.
+ * Pre-origin stages run sequentially. If a stage "handles" the request
+ * (e.g. serves a managed robots.txt), remaining stages are skipped and the
+ * origin response is never requested. Otherwise origin is fetched and
+ * post-origin stages may rewrite its response.
  *
  * Returns the final response (potentially modified) and a list of applied rules.
  */
 export async function runPipeline(
   context: ResponseContext,
   config: ResolvedConfig,
-  originFetch: () => Promise<Response>,
+  originFetch: (request?: Request) => Promise<Response>,
+  options: PipelineOptions = {},
 ): Promise<{ response: Response; appliedRules: string[] }> {
   const appliedRules: string[] = [];
+  const fetchOrigin = lazyOrigin(originFetch);
+  const { rateLimitStore, fetchRobotsTxt } = options;
 
   const stages: PipelineStage[] = [
     {
@@ -85,14 +144,91 @@ export async function runPipeline(
         return { handled: true, response };
       },
     },
+    {
+      // After managed files, so blocked crawlers can still read robots.txt
+      name: "access-policy",
+      run: async (ctx, cfg) => {
+        if (!cfg.accessPolicies.enabled) {
+          return { handled: false };
+        }
+        const rule = findMatchingPolicy(ctx, cfg.accessPolicies.rules);
+        if (!rule) {
+          return { handled: false };
+        }
+        ctx.accessPolicy = { rule: rule.name, action: rule.action };
+        const response = buildPolicyResponse(rule, ctx);
+        return response ? { handled: true, response } : { handled: false };
+      },
+    },
+    {
+      // Crawlers only (bots with a catalog token)
+      name: "robots-enforcement",
+      run: async (ctx, cfg) => {
+        if (!cfg.robotsEnforcement.enabled || !fetchRobotsTxt) {
+          return { handled: false };
+        }
+        const response = await enforceRobotsTxt(ctx, cfg.robotsEnforcement, cfg.robotsTxt, fetchRobotsTxt);
+        return response ? { handled: true, response } : { handled: false };
+      },
+    },
+    {
+      // Before pricing, so 429s protect origin even from paying crawlers
+      name: "rate-limit",
+      run: async (ctx, cfg) => {
+        if (!cfg.rateLimits.enabled || !rateLimitStore) {
+          return { handled: false };
+        }
+        const response = await handleRateLimit(ctx, cfg.rateLimits.rules, rateLimitStore);
+        return response ? { handled: true, response } : { handled: false };
+      },
+    },
+    {
+      // An "allow" policy exempts the request from pricing
+      name: "crawler-pricing",
+      run: async (ctx, cfg) => {
+        if (!cfg.crawlerPricing.enabled || ctx.accessPolicy?.action === "allow") {
+          return { handled: false };
+        }
+        const response = await handleCrawlerPricing(ctx, cfg.crawlerPricing);
+        return response ? { handled: true, response } : { handled: false };
+      },
+    },
+  ];
+
+  const postOriginStages: PostOriginStage[] = [
+    {
+      // AI bots only
+      name: "geo",
+      run: async (ctx, cfg, response) => {
+        if (!cfg.geo.enabled || !ctx.isAiBot) {
+          return { applied: false, response };
+        }
+        const geoResult = await applyGeoOptimization(response, ctx, cfg.geo);
+        if (geoResult.modified) {
+          ctx.pageType = geoResult.pageType;
+        }
+        return { applied: geoResult.modified, response: geoResult.response };
+      },
+    },
+    {
+      // Paid crawls only
+      name: "crawler-pricing",
+      run: async (ctx, _cfg, response) => {
+        if (ctx.crawlerPayment?.status !== "paid") {
+          return { applied: false, response };
+        }
+        return { applied: true, response: applyCrawlerCharge(response, ctx) };
+      },
+    },
   ];
 
-  // Run pre-origin stages (managed file interception)
+  // Pre-origin: managed files, access policies, robots.txt enforcement, rate limits, pricing
   for (const stage of stages) {
     try {
-      const result = await stage.run(context, config, originFetch);
+      const result = await stage.run(context, config, fetchOrigin);
       if (result.handled && result.response) {
         appliedRules.push(stage.name);
+        context.response = result.response;
         return { response: result.response, appliedRules };
       }
     } catch (error) {
@@ -101,20 +237,22 @@ export async function runPipeline(
     }
   }
 
-  // No managed file matched — use the origin response from context
-  let response = context.response;
+  // Nothing intercepted — call origin (reuses the response if a stage already fetched it).
+  // Paid crawls reach origin without their payment token.
+  let response = await fetchOrigin(stripPaymentToken(context));
+  context.response = response;
 
-  // Post-origin: GEO optimization (AI bots only)
-  if (config.geo.enabled && context.isAiBot) {
+  // Post-origin: response rewrites
+  for (const stage of postOriginStages) {
     try {
-      const geoResult = await applyGeoOptimization(response, context, config.geo);
-      if (geoResult.modified) {
-        response = geoResult.response;
-        appliedRules.push("geo");
-        context.pageType = geoResult.pageType;
+      const result = await stage.run(context, config, response);
+      if (result.applied) {
+        appliedRules.push(stage.name);
       }
+      response = result.response;
+      context.response = response;
     } catch (error) {
-      console.error("[BotMon] GEO optimization failed:", error);
+      console.error(`[BotMon] Post-origin stage "${stage.name}" failed:`, error);
     }
   }
 
@@ -0,0 +1,188 @@
+/**
+ * Session Cookie
+ *
+ * First-party session cookie used by the middleware. With a secret, the
+ * cookie value is `<sessionId>.<timestamp>.<signature>`, signed with
+ * HMAC-SHA256, so clients can't forge, tamper with or indefinitely replay
+ * session IDs. Invalid or expired values are discarded and a new session
+ * is started. Without a secret the cookie holds a bare UUID.
+ *
+ * The timestamp is the session start ("absolute" expiry) or the last
+ * refresh ("sliding" expiry).
+ */
+
+import { getCookie } from "../utils/cookies";
+import { importHmacKey, hmacSign, hmacVerify } from "../utils/crypto";
+import type { SessionTrackingConfig } from "../types";
+
+/**
+ * Default session cookie name
+ */
+const DEFAULT_SESSION_COOKIE_NAME = "__botmon_sid";
+
+/**
+ * Default session cookie max age (30 minutes)
+ */
+const DEFAULT_SESSION_MAX_AGE = 1800;
+
+/** Tolerated clock skew between isolates for signed timestamps */
+const MAX_CLOCK_SKEW_MS = 60_000;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Session cookie options with defaults applied
+ */
+export interface SessionCookieOptions {
+  cookieName: string;
+  maxAge: number;
+  expiry: "sliding" | "absolute";
+  path: string;
+  sameSite: "Strict" | "Lax" | "None";
+  partitioned: boolean;
+  domain?: string;
+  /** Imported signing key (null for unsigned cookies) */
+  key: Promise<CryptoKey> | null;
+}
+
+/**
+ * Session read from the request cookie
+ */
+export interface Session {
+  sessionId: string;
+  /** Session start (absolute) or last refresh (sliding), in ms */
+  timestamp: number;
+  /** True if no valid session cookie was sent */
+  isNew: boolean;
+}
+
+/** Imported keys, cached per isolate by secret */
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Apply defaults to the session tracking config
+ *
+ * @param config - sessionTracking config
+ * @param secret - Signing secret (config or env); unsigned cookies when absent
+ */
+export function resolveSessionCookieOptions(
+  config: SessionTrackingConfig = {},
+  secret?: string,
+): SessionCookieOptions {
+  let key: Promise<CryptoKey> | null = null;
+  if (secret) {
+    key = keyCache.get(secret) ?? importHmacKey(secret);
+    keyCache.set(secret, key);
+  }
+
+  return {
+    cookieName: config.cookieName || DEFAULT_SESSION_COOKIE_NAME,
+    maxAge: config.maxAge ?? DEFAULT_SESSION_MAX_AGE,
+    expiry: config.expiry ?? "sliding",
+    path: config.path || "/",
+    sameSite: config.sameSite ?? "Lax",
+    partitioned: config.partitioned ?? false,
+    domain: config.domain,
+    key,
+  };
+}
+
+/**
+ * Read and verify the session cookie, starting a new session if it's
+ * missing, invalid or expired
+ */
+export async function readSession(
+  request: Request,
+  options: SessionCookieOptions,
+  now: number = Date.now(),
+): Promise<Session> {
+  const value = getCookie(request, options.cookieName);
+  const session = value ? await parseSessionValue(value, options, now) : null;
+
+  return session ?? { sessionId: crypto.randomUUID(), timestamp: now, isNew: true };
+}
+
+/**
+ * Build the Set-Cookie header for a session
+ *
+ * @returns Header value, or null if the existing cookie doesn't need refreshing
+ *   (absolute expiry keeps the cookie the browser already has)
+ */
+export async function buildSessionCookie(
+  session: Session,
+  options: SessionCookieOptions,
+  now: number = Date.now(),
+): Promise<string | null> {
+  if (options.expiry === "absolute" && !session.isNew) {
+    return null;
+  }
+
+  // Sliding sessions are re-stamped on every response
+  const timestamp = options.expiry === "sliding" ? now : session.timestamp;
+  let value = session.sessionId;
+  if (options.key) {
+    const payload = `${session.sessionId}.${timestamp.toString(36)}`;
+    value = `${payload}.${await hmacSign(await options.key, payload)}`;
+  }
+
+  return buildSetCookieHeader(value, options.maxAge, options);
+}
+
+/**
+ * Build a Set-Cookie header that deletes the session cookie
+ */
+export function buildExpiredSessionCookie(options: SessionCookieOptions): string {
+  return buildSetCookieHeader("", 0, options);
+}
+
+/**
+ * Parse and verify a cookie value
+ */
+async function parseSessionValue(
+  value: string,
+  options: SessionCookieOptions,
+  now: number,
+): Promise<Session | null> {
+  if (!options.key) {
+    return UUID_PATTERN.test(value)
+      ? { sessionId: value, timestamp: now, isNew: false }
+      : null;
+  }
+
+  const parts = value.split(".");
+  if (parts.length !== 3) return null;
+
+  const [sessionId, encodedTimestamp, signature] = parts;
+  const timestamp = parseInt(encodedTimestamp, 36);
+  if (!UUID_PATTERN.test(sessionId) || !Number.isFinite(timestamp)) return null;
+
+  const valid = await hmacVerify(await options.key, `${sessionId}.${encodedTimestamp}`, signature);
+  if (!valid) return null;
+
+  // Reject replays of cookies that should already have expired
+  const age = now - timestamp;
+  if (age > options.maxAge * 1000 || age < -MAX_CLOCK_SKEW_MS) return null;
+
+  return { sessionId, timestamp, isNew: false };
+}
+
+/**
+ * Build Set-Cookie header value for session tracking
+ */
+function buildSetCookieHeader(
+  value: string,
+  maxAge: number,
+  options: SessionCookieOptions,
+): string {
+  const attributes = [
+    `${options.cookieName}=${value}`,
+    `Path=${options.path}`,
+    ...(options.domain ? [`Domain=${options.domain}`] : []),
+    `Max-Age=${maxAge}`,
+    "HttpOnly",
+    "Secure",
+    `SameSite=${options.sameSite}`,
+    ...(options.partitioned ? ["Partitioned"] : []),
+  ];
+  return attributes.join("; ");
+}
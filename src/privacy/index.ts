@@ -0,0 +1,9 @@
+/**
+ * Privacy
+ *
+ * PII redaction and IP anonymization applied to events before they
+ * leave the worker.
+ */
+
+export { Redactor, DEFAULT_SENSITIVE_PARAM_PATTERNS, type RedactionResult } from "./redactor";
+export { IpAnonymizer, truncateIp, type ClientIpFields } from "./ip-anonymizer";
@@ -0,0 +1,103 @@
+/**
+ * IP Anonymizer
+ *
+ * Applies the configured ipHandling mode to the client IP. In hash mode
+ * the IP is keyed with a salt derived from the secret and the current UTC
+ * day, so the backend can group a visitor's requests within a day but
+ * hashes can't be linked across days or reversed without the secret.
+ */
+
+import { hmacSha256Hex } from "../utils/crypto";
+import { expandIpv6 } from "../utils/ip";
+import type { BaseEvent, IpHandlingMode } from "../types";
+
+/** IPv4 prefix length kept by truncation */
+const IPV4_PREFIX_BITS = 24;
+
+/** IPv6 prefix length kept by truncation */
+const IPV6_PREFIX_BITS = 48;
+
+/** Client IP fields set on events */
+export type ClientIpFields = Pick<BaseEvent, "clientIp" | "clientIpHash" | "clientIpNetwork">;
+
+/**
+ * Truncate an IP to its network address (IPv4 /24, IPv6 /48)
+ *
+ * IPv4-mapped IPv6 addresses are truncated as IPv4.
+ *
+ * @returns Network address and CIDR, or null if the IP can't be parsed
+ */
+export function truncateIp(ip: string): { address: string; cidr: string } | null {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip);
+  const candidate = mapped ? mapped[1] : ip;
+
+  const octets = candidate.split(".");
+  if (octets.length === 4) {
+    if (!octets.every((o) => /^\d{1,3}$/.test(o) && Number(o) <= 255)) return null;
+    const address = `${octets.slice(0, 3).map(Number).join(".")}.0`;
+    return { address, cidr: `${address}/${IPV4_PREFIX_BITS}` };
+  }
+
+  const hextets = expandIpv6(candidate);
+  if (!hextets) return null;
+  const address = `${hextets.slice(0, IPV6_PREFIX_BITS / 16).map((h) => h.toString(16)).join(":")}::`;
+  return { address, cidr: `${address}/${IPV6_PREFIX_BITS}` };
+}
+
+export class IpAnonymizer {
+  private saltDay = "";
+  private salt: Promise<string> | null = null;
+
+  constructor(
+    private mode: IpHandlingMode = "full",
+    private secret?: string,
+  ) {
+    if (mode === "hash" && !secret) {
+      throw new Error(
+        "[BotMon] ipHashSecret is required when ipHandling is \"hash\". " +
+        "Provide it via config or set env.BOTMON_IP_HASH_SECRET",
+      );
+    }
+  }
+
+  /**
+   * Client IP fields for an event
+   *
+   * @param ip - Raw client IP (CF-Connecting-IP)
+   * @param verifiedBot - Whether the request is from a verified bot
+   */
+  async apply(ip: string | undefined, verifiedBot = false): Promise<ClientIpFields> {
+    if (!ip || this.mode === "none") return {};
+    if (this.mode === "full" || verifiedBot) return { clientIp: ip };
+
+    const network = truncateIp(ip);
+    if (this.mode === "truncate") {
+      // Never fall back to the full address for unparseable input
+      return network ? { clientIp: network.address } : {};
+    }
+
+    return {
+      clientIpHash: await this.hash(ip),
+      clientIpNetwork: network?.cidr,
+    };
+  }
+
+  /**
+   * HMAC the IP with today's salt
+   */
+  async hash(ip: string, now: Date = new Date()): Promise<string> {
+    return hmacSha256Hex(await this.dailySalt(now), ip);
+  }
+
+  /**
+   * Salt for the current UTC day, derived from the secret (cached per isolate)
+   */
+  private dailySalt(now: Date): Promise<string> {
+    const day = now.toISOString().slice(0, 10);
+    if (!this.salt || this.saltDay !== day) {
+      this.saltDay = day;
+      this.salt = hmacSha256Hex(this.secret!, `botmon-ip-salt:${day}`);
+    }
+    return this.salt;
+  }
+}
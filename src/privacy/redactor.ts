@@ -0,0 +1,388 @@
+/**
+ * PII Redactor
+ *
+ * Removes credentials and personal data from events before they leave the
+ * worker. Two kinds of rules are applied:
+ * - sensitive names: query params and metadata keys such as `token` or `password`
+ * - value detectors: emails, JWTs, credit card numbers and long hex tokens
+ *   found in query values, paths, referers, the URL and metadata strings
+ */
+
+import { sha256Hex, hmacSha256Hex } from "../utils/crypto";
+import type {
+  IngestEvent,
+  RedactionConfig,
+  RedactionAction,
+  RedactionReportEntry,
+  BuiltInRedactionDetector,
+} from "../types";
+
+/**
+ * Sensitive query parameter / metadata key patterns
+ * These are removed by default to prevent credential leakage
+ */
+export const DEFAULT_SENSITIVE_PARAM_PATTERNS: RegExp[] = [
+  /^token$/i,
+  /^key$/i,
+  /^password$/i,
+  /^passwd$/i,
+  /^secret$/i,
+  /^auth$/i,
+  /^authorization$/i,
+  /^credential$/i,
+  /^session$/i,
+  /^jwt$/i,
+  /^bearer$/i,
+  /^api[_-]?key$/i,
+  /^apikey$/i,
+  /^access[_-]?token$/i,
+  /^refresh[_-]?token$/i,
+  /^private[_-]?key$/i,
+  /^client[_-]?secret$/i,
+];
+
+/** Max metadata nesting depth that is inspected */
+const MAX_METADATA_DEPTH = 8;
+
+/** Hex characters kept from a hash replacement */
+const HASH_PREFIX_LENGTH = 16;
+
+interface Detector {
+  name: string;
+  pattern: RegExp;
+  validate?: (match: string) => boolean;
+}
+
+/**
+ * Luhn checksum, to avoid redacting arbitrary long numbers as card numbers
+ */
+function isLuhnValid(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, "");
+  if (digits.length < 13 || digits.length > 19) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/** Built-in detectors, applied in this order (hex tokens before card numbers) */
+const BUILT_IN_DETECTORS: Record<BuiltInRedactionDetector, Detector> = {
+  email: {
+    name: "email",
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g,
+  },
+  jwt: {
+    name: "jwt",
+    pattern: /eyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g,
+  },
+  hexToken: {
+    name: "hexToken",
+    pattern: /\b[0-9a-f]{32,}\b/gi,
+  },
+  creditCard: {
+    name: "creditCard",
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isLuhnValid,
+  },
+};
+
+/**
+ * Replace regex matches using an async replacer
+ */
+async function replaceAsync(
+  text: string,
+  pattern: RegExp,
+  replacer: (match: string) => Promise<string>,
+): Promise<string> {
+  const matches = [...text.matchAll(pattern)];
+  if (matches.length === 0) return text;
+
+  let result = "";
+  let lastIndex = 0;
+  for (const match of matches) {
+    result += text.slice(lastIndex, match.index) + await replacer(match[0]);
+    lastIndex = match.index! + match[0].length;
+  }
+  return result + text.slice(lastIndex);
+}
+
+/**
+ * Result of redacting an event
+ */
+export interface RedactionResult {
+  event: IngestEvent;
+  report: RedactionReportEntry[];
+}
+
+export class Redactor {
+  private enabled: boolean;
+  private paramPatterns: RegExp[];
+  private detectors: Detector[];
+  private paramAction: RedactionAction;
+  private valueAction: RedactionAction;
+
+  constructor(private config: RedactionConfig = {}) {
+    this.enabled = config.enabled ?? true;
+    this.paramAction = config.paramAction ?? "drop";
+    this.valueAction = config.valueAction ?? "redact";
+
+    this.paramPatterns = [
+      ...DEFAULT_SENSITIVE_PARAM_PATTERNS,
+      ...(config.params ?? []).map((param) =>
+        typeof param === "string"
+          ? new RegExp(`^${param.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, "i")
+          : param,
+      ),
+    ];
+
+    this.detectors = (config.detectors ?? Object.keys(BUILT_IN_DETECTORS) as BuiltInRedactionDetector[])
+      .map((detector) => {
+        if (typeof detector === "string") {
+          const builtIn = BUILT_IN_DETECTORS[detector];
+          if (!builtIn) {
+            throw new Error(`[BotMon] Unknown redaction detector: ${detector}`);
+          }
+          return builtIn;
+        }
+        const flags = detector.pattern.flags.includes("g")
+          ? detector.pattern.flags
+          : detector.pattern.flags + "g";
+        return { name: detector.name, pattern: new RegExp(detector.pattern.source, flags) };
+      });
+  }
+
+  /**
+   * Redact an event
+   *
+   * Returns a new event; the input is not modified.
+   */
+  async redact(event: IngestEvent): Promise<RedactionResult> {
+    const report: RedactionReportEntry[] = [];
+    if (!this.enabled) {
+      return { event, report };
+    }
+
+    const path = await this.redactPath(event.path, "path", report);
+    const queryString = await this.redactQuery(event.queryString, "queryString", report);
+    const url = this.rebuildUrl(event.url, path, queryString);
+    const referer = event.referer
+      ? await this.redactUrl(event.referer, "referer", report)
+      : undefined;
+    const metadata = event.metadata
+      ? await this.redactObject(event.metadata, "metadata", report, 0)
+      : undefined;
+
+    return {
+      event: { ...event, url, path, queryString, referer, metadata },
+      report,
+    };
+  }
+
+  /**
+   * Whether a param or metadata key name is sensitive
+   */
+  isSensitiveName(name: string): boolean {
+    return this.paramPatterns.some((pattern) => pattern.test(name));
+  }
+
+  private async redactQuery(
+    queryString: string | undefined,
+    field: string,
+    report: RedactionReportEntry[],
+  ): Promise<string | undefined> {
+    if (!queryString) return undefined;
+
+    const params: Array<[string, string]> = [];
+    new URLSearchParams(queryString).forEach((value, key) => params.push([key, value]));
+    const redacted = new URLSearchParams();
+
+    for (const [key, value] of params) {
+      if (this.isSensitiveName(key)) {
+        report.push({ field: `${field}.${key}`, reason: "param", action: this.paramAction });
+        if (this.paramAction !== "drop") {
+          redacted.append(key, await this.replacement("param", value, this.paramAction));
+        }
+        continue;
+      }
+
+      const reasons: string[] = [];
+      const text = await this.redactText(value, reasons, this.textAction());
+      for (const reason of reasons) {
+        report.push({ field: `${field}.${key}`, reason, action: this.valueAction });
+      }
+      if (reasons.length > 0 && this.valueAction === "drop") {
+        continue;
+      }
+      redacted.append(key, text);
+    }
+
+    const result = redacted.toString();
+    return result || undefined;
+  }
+
+  /**
+   * Redact a URL path segment by segment (segments are decoded for matching)
+   */
+  private async redactPath(
+    path: string,
+    field: string,
+    report: RedactionReportEntry[],
+  ): Promise<string> {
+    const segments = path.split("/");
+    const reasons: string[] = [];
+
+    for (let i = 0; i < segments.length; i++) {
+      let decoded: string;
+      try {
+        decoded = decodeURIComponent(segments[i]);
+      } catch {
+        decoded = segments[i];
+      }
+
+      const before = reasons.length;
+      const text = await this.redactText(decoded, reasons, this.textAction());
+      if (reasons.length > before) {
+        segments[i] = encodeURIComponent(text);
+      }
+    }
+
+    for (const reason of reasons) {
+      report.push({ field, reason, action: this.textAction() });
+    }
+    return segments.join("/");
+  }
+
+  /**
+   * Redact a full URL (path and query), e.g. a referer
+   */
+  private async redactUrl(
+    value: string,
+    field: string,
+    report: RedactionReportEntry[],
+  ): Promise<string> {
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      const reasons: string[] = [];
+      const text = await this.redactText(value, reasons, this.textAction());
+      for (const reason of reasons) {
+        report.push({ field, reason, action: this.textAction() });
+      }
+      return text;
+    }
+
+    const path = await this.redactPath(url.pathname, field, report);
+    const query = await this.redactQuery(url.search.substring(1), field, report);
+    return this.rebuildUrl(url.href, path, query);
+  }
+
+  private async redactObject(
+    value: Record<string, any>,
+    field: string,
+    report: RedactionReportEntry[],
+    depth: number,
+  ): Promise<Record<string, any>> {
+    const result: Record<string, any> = Array.isArray(value) ? [] : {};
+
+    for (const [key, item] of Object.entries(value)) {
+      const itemField = `${field}.${key}`;
+
+      if (!Array.isArray(value) && this.isSensitiveName(key)) {
+        report.push({ field: itemField, reason: "param", action: this.paramAction });
+        if (this.paramAction !== "drop") {
+          const raw = typeof item === "string" ? item : JSON.stringify(item) ?? "";
+          result[key] = await this.replacement("param", raw, this.paramAction);
+        }
+        continue;
+      }
+
+      if (typeof item === "string") {
+        const reasons: string[] = [];
+        const text = await this.redactText(item, reasons, this.textAction());
+        // Array items can't be dropped without shifting indexes
+        const drop = this.valueAction === "drop" && !Array.isArray(value);
+        for (const reason of reasons) {
+          report.push({ field: itemField, reason, action: drop ? "drop" : this.textAction() });
+        }
+        if (reasons.length > 0 && drop) {
+          continue;
+        }
+        result[key] = text;
+      } else if (item && typeof item === "object" && depth < MAX_METADATA_DEPTH) {
+        result[key] = await this.redactObject(item, itemField, report, depth + 1);
+      } else {
+        result[key] = item;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace detector matches in free text, recording the detector names
+   */
+  private async redactText(
+    text: string,
+    reasons: string[],
+    action: Exclude<RedactionAction, "drop">,
+  ): Promise<string> {
+    let result = text;
+
+    for (const detector of this.detectors) {
+      result = await replaceAsync(result, detector.pattern, async (match) => {
+        if (detector.validate && !detector.validate(match)) {
+          return match;
+        }
+        reasons.push(detector.name);
+        return this.replacement(detector.name, match, action);
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Value action for text that can't be dropped (paths, URLs)
+   */
+  private textAction(): Exclude<RedactionAction, "drop"> {
+    return this.valueAction === "hash" ? "hash" : "redact";
+  }
+
+  /**
+   * URL-safe replacement for a sensitive value
+   */
+  private async replacement(
+    reason: string,
+    value: string,
+    action: RedactionAction,
+  ): Promise<string> {
+    if (action === "hash") {
+      const digest = this.config.hashSecret
+        ? await hmacSha256Hex(this.config.hashSecret, value)
+        : await sha256Hex(value);
+      return `${this.config.hashSecret ? "hmac" : "sha256"}-${digest.slice(0, HASH_PREFIX_LENGTH)}`;
+    }
+    return reason === "param" ? "REDACTED" : `REDACTED-${reason.toUpperCase()}`;
+  }
+
+  /**
+   * Rebuild a URL from its origin and redacted path/query (fragments are dropped)
+   */
+  private rebuildUrl(href: string, path: string, queryString: string | undefined): string {
+    let origin: string;
+    try {
+      origin = new URL(href).origin;
+    } catch {
+      return href;
+    }
+    return `${origin}${path}${queryString ? `?${queryString}` : ""}`;
+  }
+}
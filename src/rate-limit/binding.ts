@@ -0,0 +1,33 @@
+/**
+ * Cloudflare Rate Limit Binding Store
+ *
+ * Delegates to a Workers rate limiting binding. The binding's limit and
+ * period are fixed in wrangler.toml, so the policy's `limit` is ignored
+ * and its `period` only sets `Retry-After`.
+ *
+ * @example
+ * ```toml
+ * [[unsafe.bindings]]
+ * name = "BOTMON_RATE_LIMIT"
+ * type = "ratelimit"
+ * namespace_id = "1001"
+ * simple = { limit = 60, period = 60 }
+ * ```
+ *
+ * ```typescript
+ * createCloudflareMiddleware({
+ *   rateLimitStore: (env) => new BindingRateLimitStore(env.BOTMON_RATE_LIMIT),
+ * });
+ * ```
+ */
+
+import type { RateLimitPolicy, RateLimitResult, RateLimitStore } from "../types/rate-limit.types";
+
+export class BindingRateLimitStore implements RateLimitStore {
+  constructor(private binding: RateLimit) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const { success } = await this.binding.limit({ key });
+    return { allowed: success, retryAfter: success ? 0 : Math.ceil(policy.period) };
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Durable Object Rate Limit Store
+ *
+ * Keeps each token bucket in its own Durable Object, so limits hold
+ * across isolates and locations. Export `RateLimiterDurableObject` from
+ * your worker and bind it:
+ *
+ * @example
+ * ```toml
+ * [[durable_objects.bindings]]
+ * name = "BOTMON_RATE_LIMITER"
+ * class_name = "RateLimiterDurableObject"
+ * ```
+ *
+ * ```typescript
+ * export { RateLimiterDurableObject } from "@botmonio/sdk";
+ *
+ * createCloudflareMiddleware({
+ *   rateLimitStore: (env) => new DurableObjectRateLimitStore(env.BOTMON_RATE_LIMITER),
+ * });
+ * ```
+ */
+
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  TokenBucketState,
+} from "../types/rate-limit.types";
+import { consumeToken } from "./token-bucket";
+
+/** Storage key for the bucket */
+const BUCKET_KEY = "bucket";
+
+/**
+ * Rate limit store client that talks to RateLimiterDurableObject instances
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(private namespace: DurableObjectNamespace) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const stub = this.namespace.get(this.namespace.idFromName(key));
+    const response = await stub.fetch("https://rate-limiter/consume", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(policy),
+    });
+    if (!response.ok) {
+      throw new Error(`[BotMon] Rate limiter consume failed: HTTP ${response.status}`);
+    }
+    return response.json<RateLimitResult>();
+  }
+}
+
+/**
+ * Durable Object holding a single token bucket
+ */
+export class RateLimiterDurableObject implements DurableObject {
+  /** Bucket cached in memory while the object stays loaded */
+  private bucket: TokenBucketState | undefined;
+
+  constructor(private state: DurableObjectState, _env?: unknown) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === "POST" && url.pathname === "/consume") {
+      const policy = await request.json<RateLimitPolicy>();
+      if (!(policy.limit > 0 && policy.period > 0)) {
+        return new Response("Invalid policy", { status: 400 });
+      }
+
+      this.bucket ??= await this.state.storage.get<TokenBucketState>(BUCKET_KEY);
+      const { result, state } = consumeToken(this.bucket, policy, Date.now());
+      this.bucket = state;
+      await this.state.storage.put(BUCKET_KEY, state);
+
+      return Response.json(result);
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+}
@@ -0,0 +1,10 @@
+/**
+ * Rate Limit Stores
+ *
+ * Token bucket storage for the middleware's rate-limit stage.
+ */
+
+export { MemoryRateLimitStore } from "./memory";
+export { DurableObjectRateLimitStore, RateLimiterDurableObject } from "./durable-object";
+export { BindingRateLimitStore } from "./binding";
+export { consumeToken } from "./token-bucket";
@@ -0,0 +1,45 @@
+/**
+ * In-Memory Rate Limit Store
+ *
+ * Holds token buckets in isolate memory. Each isolate counts separately,
+ * so limits are approximate in production — intended for tests, local
+ * development and as a fallback when no shared store is configured.
+ */
+
+import type {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitStore,
+  TokenBucketState,
+} from "../types/rate-limit.types";
+import { consumeToken } from "./token-bucket";
+
+/**
+ * Default maximum buckets held (least recently used are evicted)
+ */
+const DEFAULT_MAX_KEYS = 10_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, TokenBucketState>();
+
+  constructor(private maxKeys: number = DEFAULT_MAX_KEYS) {}
+
+  async consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult> {
+    const { result, state } = consumeToken(this.buckets.get(key), policy, Date.now());
+
+    // Re-insert so Map order tracks recency
+    this.buckets.delete(key);
+    if (this.buckets.size >= this.maxKeys) {
+      this.buckets.delete(this.buckets.keys().next().value!);
+    }
+    this.buckets.set(key, state);
+    return result;
+  }
+
+  /**
+   * Number of buckets currently held
+   */
+  get size(): number {
+    return this.buckets.size;
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Token Bucket
+ *
+ * Refill-on-read token bucket shared by the rate-limit stores. Buckets
+ * start full and refill continuously at `limit / period` tokens per
+ * second; each request takes one token.
+ */
+
+import type { RateLimitPolicy, RateLimitResult, TokenBucketState } from "../types/rate-limit.types";
+
+/**
+ * Take a token from a bucket
+ *
+ * @param state - Stored bucket (undefined for a new, full bucket)
+ * @param policy - Bucket capacity and refill period
+ * @param now - Current time in ms
+ * @returns The outcome and the bucket state to store
+ */
+export function consumeToken(
+  state: TokenBucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number,
+): { result: RateLimitResult; state: TokenBucketState } {
+  const refillPerMs = policy.limit / (policy.period * 1000);
+  const elapsed = state ? Math.max(0, now - state.updatedAt) : 0;
+  const tokens = state ? Math.min(policy.limit, state.tokens + elapsed * refillPerMs) : policy.limit;
+
+  if (tokens >= 1) {
+    return {
+      result: { allowed: true, remaining: Math.floor(tokens - 1), retryAfter: 0 },
+      state: { tokens: tokens - 1, updatedAt: now },
+    };
+  }
+
+  return {
+    result: {
+      allowed: false,
+      remaining: 0,
+      retryAfter: Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000)),
+    },
+    state: { tokens, updatedAt: now },
+  };
+}
@@ -0,0 +1,129 @@
+/**
+ * Durable Object Spill Store
+ *
+ * Persists undelivered events in a Durable Object's transactional storage.
+ * Export `SpillBufferDurableObject` from your worker and bind it:
+ *
+ * @example
+ * ```toml
+ * [[durable_objects.bindings]]
+ * name = "BOTMON_SPILL"
+ * class_name = "SpillBufferDurableObject"
+ * ```
+ *
+ * ```typescript
+ * export { SpillBufferDurableObject } from "@botmonio/sdk";
+ *
+ * BotMon.init({ spillStore: new DurableObjectSpillStore(env.BOTMON_SPILL) });
+ * ```
+ */
+
+import type { IngestEvent, SpillStore, SpilledBatch } from "../types";
+import { spillKeySuffix } from "./spill-key";
+
+/** Default Durable Object instance name (one buffer per worker) */
+const DEFAULT_OBJECT_NAME = "botmon-spill";
+
+/** Storage key prefix for spilled batches */
+const STORAGE_PREFIX = "spill:";
+
+/** Max keys per storage.delete() call */
+const MAX_KEYS_PER_DELETE = 128;
+
+/**
+ * Spill store client that talks to a SpillBufferDurableObject
+ */
+export class DurableObjectSpillStore implements SpillStore {
+  constructor(
+    private namespace: DurableObjectNamespace,
+    private objectName: string = DEFAULT_OBJECT_NAME,
+  ) {}
+
+  async put(events: IngestEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const response = await this.stub().fetch("https://spill-buffer/put", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(events),
+    });
+    if (!response.ok) {
+      throw new Error(`[BotMon] Spill buffer put failed: HTTP ${response.status}`);
+    }
+  }
+
+  async peek(limit: number): Promise<SpilledBatch[]> {
+    const response = await this.stub().fetch(
+      `https://spill-buffer/peek?limit=${limit}`,
+      { method: "POST" },
+    );
+    if (!response.ok) {
+      throw new Error(`[BotMon] Spill buffer peek failed: HTTP ${response.status}`);
+    }
+    return response.json<SpilledBatch[]>();
+  }
+
+  async ack(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const response = await this.stub().fetch("https://spill-buffer/ack", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(keys),
+    });
+    if (!response.ok) {
+      throw new Error(`[BotMon] Spill buffer ack failed: HTTP ${response.status}`);
+    }
+  }
+
+  private stub(): DurableObjectStub {
+    return this.namespace.get(this.namespace.idFromName(this.objectName));
+  }
+}
+
+/**
+ * Durable Object that buffers spilled events in its storage
+ */
+export class SpillBufferDurableObject implements DurableObject {
+  constructor(private state: DurableObjectState, _env?: unknown) {}
+
+  async fetch(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+
+    if (request.method === "POST" && url.pathname === "/put") {
+      const events = await request.json<IngestEvent[]>();
+      const key = `${STORAGE_PREFIX}${spillKeySuffix()}`;
+      await this.state.storage.put(key, events);
+      return new Response(null, { status: 204 });
+    }
+
+    if (request.method === "POST" && url.pathname === "/peek") {
+      const limit = Math.max(1, parseInt(url.searchParams.get("limit") || "100", 10) || 100);
+      const peeked: SpilledBatch[] = [];
+      let count = 0;
+
+      // Storage lists keys in ascending order, so oldest batches come first
+      const stored = await this.state.storage.list<IngestEvent[]>({
+        prefix: STORAGE_PREFIX,
+        limit,
+      });
+      for (const [key, events] of stored) {
+        if (count >= limit) break;
+        peeked.push({ key, events });
+        count += events.length;
+      }
+
+      return Response.json(peeked);
+    }
+
+    if (request.method === "POST" && url.pathname === "/ack") {
+      const keys = (await request.json<string[]>()).filter((key) => key.startsWith(STORAGE_PREFIX));
+      for (let i = 0; i < keys.length; i += MAX_KEYS_PER_DELETE) {
+        await this.state.storage.delete(keys.slice(i, i + MAX_KEYS_PER_DELETE));
+      }
+      return new Response(null, { status: 204 });
+    }
+
+    return new Response("Not Found", { status: 404 });
+  }
+}
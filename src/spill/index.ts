@@ -0,0 +1,10 @@
+/**
+ * Spill Stores
+ *
+ * Durable buffers for events that exhaust retries or hit an open circuit.
+ */
+
+export { MemorySpillStore } from "./memory";
+export { KvSpillStore, type KvSpillStoreOptions } from "./kv";
+export { QueueSpillStore } from "./queue";
+export { DurableObjectSpillStore, SpillBufferDurableObject } from "./durable-object";
@@ -0,0 +1,75 @@
+/**
+ * KV Spill Store
+ *
+ * Persists undelivered events in a Workers KV namespace. Each spilled batch
+ * is stored under a time-ordered key so draining redelivers oldest first.
+ * Batches are deleted only once acknowledged after redelivery.
+ */
+
+import type { IngestEvent, SpillStore, SpilledBatch } from "../types";
+import { spillKeySuffix } from "./spill-key";
+
+/** Default key prefix for spilled batches */
+const DEFAULT_PREFIX = "botmon:spill:";
+
+/** Default expiration for spilled batches (7 days) */
+const DEFAULT_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+export interface KvSpillStoreOptions {
+  /** Key prefix (default: "botmon:spill:") */
+  prefix?: string;
+  /** Expiration for spilled batches in seconds (default: 7 days) */
+  ttlSeconds?: number;
+}
+
+export class KvSpillStore implements SpillStore {
+  private prefix: string;
+  private ttlSeconds: number;
+
+  constructor(
+    private namespace: KVNamespace,
+    options: KvSpillStoreOptions = {},
+  ) {
+    this.prefix = options.prefix ?? DEFAULT_PREFIX;
+    this.ttlSeconds = options.ttlSeconds ?? DEFAULT_TTL_SECONDS;
+  }
+
+  async put(events: IngestEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const key = `${this.prefix}${spillKeySuffix()}`;
+    await this.namespace.put(key, JSON.stringify(events), {
+      expirationTtl: this.ttlSeconds,
+    });
+  }
+
+  async peek(limit: number): Promise<SpilledBatch[]> {
+    const peeked: SpilledBatch[] = [];
+    let count = 0;
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.namespace.list({ prefix: this.prefix, cursor });
+
+      for (const { name } of page.keys) {
+        if (count >= limit) return peeked;
+
+        // Expired between list() and get()
+        const events = await this.namespace.get<IngestEvent[]>(name, "json");
+        if (!events) continue;
+        peeked.push({ key: name, events });
+        count += events.length;
+      }
+
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor && count < limit);
+
+    return peeked;
+  }
+
+  async ack(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.namespace.delete(key);
+    }
+  }
+}
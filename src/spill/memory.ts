@@ -0,0 +1,41 @@
+/**
+ * In-Memory Spill Store
+ *
+ * Holds undelivered events in isolate memory. Not durable — intended for
+ * tests and local development only.
+ */
+
+import type { IngestEvent, SpillStore, SpilledBatch } from "../types";
+
+export class MemorySpillStore implements SpillStore {
+  private batches: SpilledBatch[] = [];
+  private nextKey = 0;
+
+  async put(events: IngestEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    this.batches.push({ key: String(this.nextKey++), events });
+  }
+
+  async peek(limit: number): Promise<SpilledBatch[]> {
+    const peeked: SpilledBatch[] = [];
+    let count = 0;
+    for (const batch of this.batches) {
+      if (count >= limit) break;
+      peeked.push(batch);
+      count += batch.events.length;
+    }
+    return peeked;
+  }
+
+  async ack(keys: string[]): Promise<void> {
+    const acked = new Set(keys);
+    this.batches = this.batches.filter((batch) => !acked.has(batch.key));
+  }
+
+  /**
+   * Number of spilled events currently held
+   */
+  get size(): number {
+    return this.batches.reduce((total, batch) => total + batch.events.length, 0);
+  }
+}
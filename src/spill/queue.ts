@@ -0,0 +1,37 @@
+/**
+ * Queue Spill Store
+ *
+ * Sends undelivered events to a Cloudflare Queue. Queues are push-based:
+ * redeliver events from the queue consumer with `BotMon.redeliver()`.
+ *
+ * @example
+ * ```typescript
+ * export default {
+ *   async queue(batch: MessageBatch<IngestEvent>, env: Env) {
+ *     const sdk = BotMon.init({ apiKey: env.BOTMON_API_KEY });
+ *     const results = await sdk.redeliver(batch.messages.map((m) => m.body));
+ *     batch.messages.forEach((message, i) => {
+ *       if (results[i].success) message.ack(); else message.retry();
+ *     });
+ *   },
+ * };
+ * ```
+ */
+
+import type { IngestEvent, SpillStore } from "../types";
+
+/** Max messages per Queue.sendBatch() call */
+const MAX_MESSAGES_PER_BATCH = 100;
+
+export class QueueSpillStore implements SpillStore {
+  constructor(private queue: Queue<IngestEvent>) {}
+
+  async put(events: IngestEvent[]): Promise<void> {
+    for (let i = 0; i < events.length; i += MAX_MESSAGES_PER_BATCH) {
+      const messages = events
+        .slice(i, i + MAX_MESSAGES_PER_BATCH)
+        .map((event) => ({ body: event, contentType: "json" as const }));
+      await this.queue.sendBatch(messages);
+    }
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Spill Key Helper
+ *
+ * Shared key scheme for stores that persist spilled batches by key.
+ */
+
+let spillSequence = 0;
+
+/**
+ * Time-ordered key suffix. Zero-padded timestamp plus a per-isolate sequence
+ * keeps lexicographic key order equal to insertion order.
+ */
+export function spillKeySuffix(): string {
+  spillSequence = (spillSequence + 1) % 1_000_000;
+  return `${Date.now().toString().padStart(15, "0")}:${spillSequence.toString().padStart(6, "0")}:${crypto.randomUUID()}`;
+}
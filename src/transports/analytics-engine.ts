@@ -0,0 +1,76 @@
+/**
+ * Analytics Engine Transport
+ *
+ * Writes one data point per event to a Workers Analytics Engine dataset.
+ * The default mapping indexes by hostname; pass `toDataPoint` to choose
+ * your own blobs, doubles and index.
+ *
+ * Default layout:
+ * - indexes: [hostname]
+ * - blobs: [hostname, path, method, userAgent, clientCountry, referer,
+ *   sessionId, provider classification, clientAsOrganization, ja4,
+ *   trafficType (classified events)]
+ * - doubles: [statusCode, responseTimeMs, provider score (-1 if unknown),
+ *   clientAsn (0 if unknown)]
+ */
+
+import type { IngestEvent, FlushResult, Transport } from "../types";
+
+export interface AnalyticsEngineTransportOptions {
+  /** Custom mapping from event to data point */
+  toDataPoint?: (event: IngestEvent) => AnalyticsEngineDataPoint;
+}
+
+/**
+ * Default event → data point mapping
+ */
+function defaultDataPoint(event: IngestEvent): AnalyticsEngineDataPoint {
+  return {
+    indexes: [event.hostname],
+    blobs: [
+      event.hostname,
+      event.path,
+      event.method,
+      event.userAgent ?? null,
+      event.clientCountry ?? null,
+      event.referer ?? null,
+      event.sessionId ?? null,
+      event.providerBotData?.classification ?? null,
+      event.clientAsOrganization ?? null,
+      event.providerBotData?.ja4 ?? null,
+      event.type === "classified" ? event.trafficType : null,
+    ],
+    doubles: [
+      event.statusCode ?? 0,
+      event.responseTimeMs ?? 0,
+      event.providerBotData?.score ?? -1,
+      event.clientAsn ?? 0,
+    ],
+  };
+}
+
+export class AnalyticsEngineTransport implements Transport {
+  readonly name = "analytics-engine";
+  private toDataPoint: (event: IngestEvent) => AnalyticsEngineDataPoint;
+
+  constructor(
+    private dataset: AnalyticsEngineDataset,
+    options: AnalyticsEngineTransportOptions = {},
+  ) {
+    this.toDataPoint = options.toDataPoint ?? defaultDataPoint;
+  }
+
+  async send(event: IngestEvent): Promise<FlushResult> {
+    try {
+      // writeDataPoint() is fire-and-forget; the runtime batches writes
+      this.dataset.writeDataPoint(this.toDataPoint(event));
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: (err as Error)?.message || String(err) };
+    }
+  }
+
+  sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    return Promise.all(events.map((event) => this.send(event)));
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * Console Transport
+ *
+ * Logs each event as a JSON line. Useful with `wrangler dev` or
+ * `wrangler tail` to see exactly what would be sent.
+ */
+
+import type { IngestEvent, FlushResult, Transport } from "../types";
+
+export class ConsoleTransport implements Transport {
+  readonly name = "console";
+
+  async send(event: IngestEvent): Promise<FlushResult> {
+    console.log("[BotMon] Event:", JSON.stringify(event));
+    return { success: true };
+  }
+
+  sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    return Promise.all(events.map((event) => this.send(event)));
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * BotMon Ingest Transport
+ *
+ * Sends events to the BotMon ingest API over HTTPS with retries, a circuit
+ * breaker and an optional spill store for events that can't be delivered.
+ * This is the SDK's default transport whenever an apiKey is configured.
+ */
+
+import { HttpClient } from "../utils/http-client";
+import { RetryEngine } from "../core/retry-engine";
+import { CircuitBreaker } from "../core/circuit-breaker";
+import { IngestError } from "../core/errors";
+import type {
+  Transport,
+  HttpTransportConfig,
+  IngestEvent,
+  FlushResult,
+  CircuitState,
+  DrainResult,
+} from "../types";
+
+/** Default max events taken from the spill store per drain() call */
+const DEFAULT_DRAIN_LIMIT = 500;
+
+export class HttpTransport implements Transport {
+  readonly name = "botmon";
+  private httpClient: HttpClient;
+  private retryEngine: RetryEngine;
+  private circuitBreaker: CircuitBreaker | null;
+
+  constructor(private config: HttpTransportConfig) {
+    // Validate ingestUrl is HTTPS (security requirement)
+    if (config.ingestUrl && !config.ingestUrl.startsWith("https://")) {
+      throw new Error(
+        "[BotMon] ingestUrl must use HTTPS for security. " +
+        "Received: " + config.ingestUrl.substring(0, 50),
+      );
+    }
+    if (config.batchIngestUrl && !config.batchIngestUrl.startsWith("https://")) {
+      throw new Error(
+        "[BotMon] batchIngestUrl must use HTTPS for security. " +
+        "Received: " + config.batchIngestUrl.substring(0, 50),
+      );
+    }
+
+    this.httpClient = new HttpClient({
+      apiKey: config.apiKey,
+      ingestUrl: config.ingestUrl,
+      batchIngestUrl: config.batchIngestUrl,
+      batchFormat: config.batchFormat,
+      compression: config.compression,
+      maxBatchBytes: config.maxBatchBytes,
+      debug: config.debug,
+      timeoutMs: config.timeoutMs,
+    });
+
+    this.retryEngine = new RetryEngine({
+      retryAttempts: config.retryAttempts,
+      retryBackoffMs: config.retryBackoffMs,
+      retryMaxBackoffMs: config.retryMaxBackoffMs,
+      retryDeadlineMs: config.retryDeadlineMs,
+      debug: config.debug,
+    });
+
+    // The BotMon singleton makes the breaker shared per isolate
+    this.circuitBreaker = config.circuitBreaker
+      ? new CircuitBreaker({
+        failureThreshold: config.circuitBreaker.failureThreshold,
+        resetTimeoutMs: config.circuitBreaker.resetTimeoutMs,
+        debug: config.debug,
+        onStateChange: (state, previous) => this.handleCircuitStateChange(state, previous),
+      })
+      : null;
+  }
+
+  /**
+   * Send a single event to the ingest endpoint
+   */
+  async send(event: IngestEvent): Promise<FlushResult> {
+    try {
+      return await this.execute(() => this.httpClient.sendEvent(event), "event");
+    } catch (err) {
+      const [result] = await this.fail([event], err, true);
+      return result;
+    }
+  }
+
+  /**
+   * Send a batch of events with retry logic
+   *
+   * Each size-limited chunk is retried independently so a failing chunk
+   * doesn't cause already-delivered chunks to be resent. While the circuit
+   * breaker is open, chunks fail immediately without calling the API.
+   * Chunks that fail with a retryable error are persisted to the spill
+   * store (if configured) for later redelivery.
+   */
+  sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    return this.deliver(events, true);
+  }
+
+  /**
+   * Send events without spilling failures (see BotMon.redeliver)
+   */
+  redeliver(events: IngestEvent[]): Promise<FlushResult[]> {
+    return this.deliver(events, false);
+  }
+
+  /**
+   * Read up to `limit` events from the spill store and send them again.
+   * A batch is removed from the store only after delivery: events that
+   * still fail stay spilled (a partly delivered batch is replaced by its
+   * failed events), so a failed drain or a dying isolate loses nothing.
+   * Events the API rejected as non-retryable are dropped.
+   */
+  async drain(options: { limit?: number } = {}): Promise<DrainResult> {
+    const store = this.config.spillStore;
+    if (!store?.peek || !store.ack) {
+      return { taken: 0, delivered: 0, failed: 0 };
+    }
+
+    const batches = await store.peek(options.limit ?? DEFAULT_DRAIN_LIMIT);
+    const events = batches.flatMap((batch) => batch.events);
+    if (events.length === 0) {
+      return { taken: 0, delivered: 0, failed: 0 };
+    }
+
+    // Results keep event order, so each batch owns a contiguous slice
+    const results = await this.redeliver(events);
+    const acked: string[] = [];
+    let offset = 0;
+    for (const batch of batches) {
+      const batchResults = results.slice(offset, offset + batch.events.length);
+      offset += batch.events.length;
+
+      const pending = batch.events.filter((_, index) => {
+        const result = batchResults[index];
+        return !result?.success && result?.retryable !== false;
+      });
+      if (pending.length === batch.events.length) continue;
+      if (pending.length > 0 && !await this.spill(pending)) continue;
+      acked.push(batch.key);
+    }
+    await store.ack(acked);
+
+    const delivered = results.filter((result) => result.success).length;
+
+    if (this.config.debug) {
+      console.log(`[BotMon] Drained ${events.length} spilled events (${delivered} delivered)`);
+    }
+
+    return { taken: events.length, delivered, failed: events.length - delivered };
+  }
+
+  /**
+   * Get the circuit breaker state for this isolate
+   */
+  getCircuitState(): CircuitState {
+    return this.circuitBreaker?.getState() ?? "closed";
+  }
+
+  private async deliver(events: IngestEvent[], spill: boolean): Promise<FlushResult[]> {
+    const results: FlushResult[] = [];
+
+    for (const chunk of this.httpClient.splitBatch(events)) {
+      try {
+        const chunkResults = await this.execute(
+          () => this.httpClient.sendBatch(chunk),
+          `batch of ${chunk.length} events`,
+        );
+        results.push(...await this.spillFailedEvents(chunk, chunkResults, spill));
+      } catch (err) {
+        results.push(...await this.fail(chunk, err, spill));
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Spill the events a successful batch response reports as failed
+   */
+  private async spillFailedEvents(
+    events: IngestEvent[],
+    results: FlushResult[],
+    spill: boolean,
+  ): Promise<FlushResult[]> {
+    const failed = events.filter((_, index) => !results[index]?.success);
+    if (!spill || failed.length === 0 || !await this.spill(failed)) {
+      return results;
+    }
+
+    return results.map((result) => result.success
+      ? result
+      : { ...result, error: `${result.error ?? "Event not ingested"} (spilled for redelivery)`, spilled: true });
+  }
+
+  /**
+   * Run a request through the circuit breaker and retry engine
+   */
+  private execute<T>(fn: () => Promise<T>, context: string): Promise<T> {
+    const send = () => this.retryEngine.executeWithRetry(fn, context);
+    return this.circuitBreaker ? this.circuitBreaker.execute(send) : send();
+  }
+
+  /**
+   * Build failed results for undelivered events, spilling them when retryable
+   */
+  private async fail(
+    events: IngestEvent[],
+    err: unknown,
+    spill: boolean,
+  ): Promise<FlushResult[]> {
+    let error = (err as Error)?.message || String(err);
+
+    // Rejected payloads (non-retryable) would fail again on redelivery
+    const retryable = !(err instanceof IngestError && !err.retryable);
+    const spilled = spill && retryable && await this.spill(events);
+    if (spilled) {
+      error += " (spilled for redelivery)";
+    }
+
+    return events.map(() => ({ success: false, error, spilled, retryable }));
+  }
+
+  /**
+   * Persist undelivered events to the spill store
+   *
+   * @returns true if the events were persisted
+   */
+  private async spill(events: IngestEvent[]): Promise<boolean> {
+    if (!this.config.spillStore) return false;
+
+    try {
+      await this.config.spillStore.put(events);
+      if (this.config.debug) {
+        console.log(`[BotMon] Spilled ${events.length} undelivered events`);
+      }
+      return true;
+    } catch (err) {
+      this.config.onError?.(
+        new Error(`BotMon spill failed: ${(err as Error)?.message || String(err)}`),
+      );
+      return false;
+    }
+  }
+
+  /**
+   * Report circuit breaker transitions via onCircuitStateChange and onError
+   */
+  private handleCircuitStateChange(state: CircuitState, previous: CircuitState): void {
+    this.config.onCircuitStateChange?.(state, previous);
+
+    if (state === "open" && this.config.circuitBreaker) {
+      this.config.onError?.(new Error(
+        `BotMon ingest circuit opened after ${this.config.circuitBreaker.failureThreshold} ` +
+        `consecutive failures; events will fail fast for ${this.config.circuitBreaker.resetTimeoutMs}ms`,
+      ));
+    }
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Transports
+ *
+ * Destinations for tracked events. The BotMon ingest API is used by default;
+ * additional transports receive a copy of every flushed batch.
+ */
+
+export { HttpTransport } from "./http";
+export { QueueTransport } from "./queue";
+export {
+  AnalyticsEngineTransport,
+  type AnalyticsEngineTransportOptions,
+} from "./analytics-engine";
+export { MemoryTransport } from "./memory";
+export { ConsoleTransport } from "./console";
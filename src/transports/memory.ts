@@ -0,0 +1,37 @@
+/**
+ * In-Memory Transport
+ *
+ * Collects events in isolate memory. Intended for tests and local
+ * development only.
+ */
+
+import type { IngestEvent, FlushResult, Transport } from "../types";
+
+export class MemoryTransport implements Transport {
+  readonly name = "memory";
+  private sent: IngestEvent[] = [];
+
+  async send(event: IngestEvent): Promise<FlushResult> {
+    this.sent.push(event);
+    return { success: true };
+  }
+
+  async sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    this.sent.push(...events);
+    return events.map(() => ({ success: true }));
+  }
+
+  /**
+   * Events sent so far, oldest first
+   */
+  get events(): IngestEvent[] {
+    return this.sent;
+  }
+
+  /**
+   * Forget all collected events
+   */
+  clear(): void {
+    this.sent = [];
+  }
+}
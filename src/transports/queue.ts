@@ -0,0 +1,53 @@
+/**
+ * Queue Transport
+ *
+ * Sends events to a Cloudflare Queue, e.g. to tee them into your own
+ * warehouse pipeline alongside the BotMon ingest API.
+ *
+ * @example
+ * ```typescript
+ * const sdk = BotMon.init({
+ *   apiKey: env.BOTMON_API_KEY,
+ *   transports: [new QueueTransport(env.EVENTS_QUEUE)],
+ * });
+ * ```
+ */
+
+import type { IngestEvent, FlushResult, Transport } from "../types";
+
+/** Max messages per Queue.sendBatch() call */
+const MAX_MESSAGES_PER_BATCH = 100;
+
+export class QueueTransport implements Transport {
+  readonly name = "queue";
+
+  constructor(private queue: Queue<IngestEvent>) {}
+
+  async send(event: IngestEvent): Promise<FlushResult> {
+    try {
+      await this.queue.send(event, { contentType: "json" });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: (err as Error)?.message || String(err) };
+    }
+  }
+
+  async sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    const results: FlushResult[] = [];
+
+    for (let i = 0; i < events.length; i += MAX_MESSAGES_PER_BATCH) {
+      const chunk = events.slice(i, i + MAX_MESSAGES_PER_BATCH);
+      try {
+        await this.queue.sendBatch(
+          chunk.map((event) => ({ body: event, contentType: "json" as const })),
+        );
+        results.push(...chunk.map(() => ({ success: true })));
+      } catch (err) {
+        const error = (err as Error)?.message || String(err);
+        results.push(...chunk.map(() => ({ success: false, error })));
+      }
+    }
+
+    return results;
+  }
+}
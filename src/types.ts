@@ -10,11 +10,17 @@ import type {
   ClassifiedEvent,
   IngestEvent,
   IngestResponse,
+  IngestBatchResponse,
   TrafficType,
   BotClassification,
   BaseEvent,
 } from "./types/ingest-event.types";
-import type { BotDetectionProvider } from "./types/provider.types";
+import type { BotDetectionProviderOption } from "./types/provider.types";
+import type {
+  BotVerificationConfig,
+  BotVerificationStatus,
+  SignedAgent,
+} from "./types/verification.types";
 
 // Re-export types for SDK consumers
 export type {
@@ -22,6 +28,7 @@ export type {
   ClassifiedEvent,
   IngestEvent,
   IngestResponse,
+  IngestBatchResponse,
   TrafficType,
   BotClassification,
   BaseEvent,
@@ -31,23 +38,60 @@ export type {
  * SDK Configuration
  */
 export interface BotMonConfig {
-  // Required (can also be set via env vars: BOTMON_API_KEY)
+  // Required unless `transports` are given (can also be set via env vars: BOTMON_API_KEY)
   apiKey?: string;                   // btmn_prod_xxx
 
   // Optional - API endpoint
   ingestUrl?: string;                // Default: https://analytics.botmon.io/ingest
+  batchIngestUrl?: string;           // Default: `${ingestUrl}/batch`
 
   // Optional - Retry
   retryAttempts?: number;            // Default: 3
   retryBackoffMs?: number;           // Default: 1000
   retryMaxBackoffMs?: number;        // Default: 30000
+  retryDeadlineMs?: number;          // Default: 25000 (total retry budget, stays within waitUntil)
 
   // Optional - Timeout
   timeoutMs?: number;                // Default: 5000
 
+  // Optional - Circuit breaker (per isolate, around the ingest endpoint)
+  circuitBreaker?: {
+    enabled?: boolean;               // Default: true
+    failureThreshold?: number;       // Default: 5 consecutive failed batches
+    resetTimeoutMs?: number;         // Default: 30000 (time before a probe request)
+  };
+  onCircuitStateChange?: (state: CircuitState, previous: CircuitState) => void;
+
+  // Optional - Batching
+  batchSize?: number;                // Default: 25
+  flushIntervalMs?: number;          // Default: 1000
+  maxQueueSize?: number;             // Default: 1000 (oldest events dropped beyond this)
+  batchFormat?: BatchFormat;         // Default: "ndjson"
+  compression?: BatchCompression;    // Default: "gzip"
+  maxBatchBytes?: number;            // Default: 1048576 (1MB, uncompressed)
+  onFlush?: (events: IngestEvent[], results: FlushResult[]) => void;
+
+  // Optional - Offline buffer for events that exhaust retries
+  spillStore?: SpillStore;           // Default: none (undelivered events are dropped)
+
+  // Optional - PII redaction (query strings, paths, referers, URLs and metadata)
+  redaction?: RedactionConfig;       // Default: built-in param list and all detectors
+
+  // Optional - Client IP anonymization
+  ipHandling?: IpHandlingMode;       // Default: "full"
+  ipHashSecret?: string;             // Required for "hash" (or set env.BOTMON_IP_HASH_SECRET)
+
+  // Optional - Filtering and sampling (applied before beforeSend)
+  filters?: EventFilterConfig;       // Default: none (every request is tracked)
+  sampling?: SamplingConfig;         // Default: { human: 1, bot: 1 }
+  beforeSend?: BeforeSendHook;       // Mutate the event, or return null to drop it
+
+  // Optional - Additional destinations for every flushed batch (e.g. your own Queue)
+  transports?: Transport[];          // Default: none (BotMon ingest API only)
+
   // Optional - Debug
   debug?: boolean;                   // Default: false
-  onError?: (error: Error, event?: RawRequestEvent) => void;
+  onError?: (error: Error, event?: IngestEvent) => void;
 
   /**
    * Bot detection provider (optional)
@@ -56,22 +100,53 @@ export interface BotMonConfig {
    * @default 'none'
    * @example 'cloudflare' - Extract from cf.botManagement
    * @example 'fastly' - Extract from Fastly bot detection headers
+   * @example new MyWafAdapter() - Custom ProviderAdapter implementation
+   * @example { scoreHeader: 'X-Waf-Score', verifiedHeader: 'X-Waf-Verified', scale: 1 }
    */
-  botDetectionProvider?: BotDetectionProvider;
+  botDetectionProvider?: BotDetectionProviderOption;
 
   /**
    * Session tracking configuration (optional)
    * Enables first-party cookie-based session tracking in the middleware.
    * When enabled, a cookie is set on each response to identify sessions
-   * across requests, even if the client IP changes.
+   * across requests, even if the client IP changes. Set a secret to sign
+   * the cookie so clients can't forge or replay session IDs.
    *
    * @default { enabled: true, cookieName: "__botmon_sid", maxAge: 1800 }
    */
-  sessionTracking?: {
-    enabled?: boolean;        // default: true
-    cookieName?: string;      // default: "__botmon_sid"
-    maxAge?: number;          // default: 1800 (30 min)
-  };
+  sessionTracking?: SessionTrackingConfig;
+
+  /**
+   * Consent mode for session tracking (optional)
+   * When enabled, the session cookie is only set once consent is granted.
+   * Without consent, a cookieless session ID (daily hash of IP + User-Agent)
+   * is used instead, and every event records its consent state.
+   *
+   * @default { enabled: false, honorGpc: true, honorDnt: true }
+   */
+  consent?: ConsentConfig;
+
+  /**
+   * Verified-bot authentication (optional)
+   * Requests whose User-Agent claims a known crawler (Googlebot, GPTBot,
+   * ClaudeBot, ...) are checked against the operator's published IP ranges,
+   * and optionally forward-confirmed reverse DNS. Events record
+   * `botVerification`: "verified", "spoofed" or "unknown".
+   *
+   * @default { enabled: true, reverseDns: false }
+   */
+  verification?: BotVerificationConfig;
+
+  /**
+   * Event type to send (optional)
+   * "raw" sends request data for server-side classification. "classified"
+   * classifies traffic at the edge (catalog, provider score, verification,
+   * header anomalies) and sends ClassifiedEvents with trafficType,
+   * botScore and botName.
+   *
+   * @default "raw"
+   */
+  eventType?: "raw" | "classified";
 
   /**
    * Enable robots.txt body capture (optional)
@@ -112,8 +187,175 @@ export interface TrackOptions {
 
   /** Session identifier from cookie-based tracking (set by middleware) */
   sessionId?: string;
+
+  /** Consent state for this request (set by middleware in consent mode) */
+  consentState?: ConsentState;
+
+  /** Verified-bot result for this request (set by middleware; computed when absent) */
+  botVerification?: BotVerificationStatus;
+
+  /** Agent identity from a verified Web Bot Auth signature (set by middleware) */
+  signedAgent?: SignedAgent;
+
+  /** Traffic classification for this request (set by middleware; computed when absent) */
+  classification?: BotClassification;
+}
+
+/**
+ * Session cookie configuration
+ */
+export interface SessionTrackingConfig {
+  enabled?: boolean;        // default: true
+  cookieName?: string;      // default: "__botmon_sid"
+  maxAge?: number;          // default: 1800 (30 min)
+  /** HMAC signing secret (or set env.BOTMON_SESSION_SECRET); unsigned cookies without it */
+  secret?: string;
+  /** "sliding" extends the session on every request; "absolute" ends it maxAge after it started */
+  expiry?: "sliding" | "absolute"; // default: "sliding"
+  domain?: string;          // default: none (host-only cookie)
+  path?: string;            // default: "/"
+  sameSite?: "Strict" | "Lax" | "None"; // default: "Lax"
+  /** Add the Partitioned attribute (CHIPS) for third-party embeds */
+  partitioned?: boolean;    // default: false
+}
+
+/**
+ * Visitor consent state for analytics cookies
+ */
+export type ConsentState = "granted" | "denied" | "unknown";
+
+/**
+ * Consent mode configuration
+ *
+ * Resolution order: Sec-GPC / DNT opt-outs (when honored) → resolve
+ * callback → consent cookie → "unknown".
+ */
+export interface ConsentConfig {
+  /** Enable consent mode (default: false — the session cookie is always set) */
+  enabled?: boolean;
+  /** Cookie holding the visitor's consent choice (e.g. "cookie_consent") */
+  cookieName?: string;
+  /** Cookie values that mean consent was granted (default: "1", "true", "yes", "granted", "accepted", "all") */
+  grantedValues?: string[];
+  /** Custom resolver, e.g. for a CMP cookie format; return "unknown" to fall through to the cookie */
+  resolve?: (request: Request) => ConsentState | Promise<ConsentState>;
+  /** Treat `Sec-GPC: 1` as denied (default: true) */
+  honorGpc?: boolean;
+  /** Treat `DNT: 1` as denied (default: true) */
+  honorDnt?: boolean;
 }
 
+/**
+ * How the client IP is sent
+ * - full: the address as received
+ * - truncate: IPv4 /24 or IPv6 /48 network address (e.g. 203.0.113.0)
+ * - hash: no address; a daily-salted HMAC plus the truncated network
+ * - none: no IP data at all
+ *
+ * Verified bots keep their full address in truncate and hash modes, since
+ * crawler IPs aren't personal data and are needed to verify them.
+ */
+export type IpHandlingMode = "full" | "truncate" | "hash" | "none";
+
+/**
+ * What to do with a detected sensitive value
+ * - redact: replace with a marker (e.g. REDACTED-EMAIL)
+ * - hash: replace with a SHA-256 (or HMAC, with hashSecret) prefix
+ * - drop: remove the query param or metadata key (redacts inside paths and URLs)
+ */
+export type RedactionAction = "redact" | "hash" | "drop";
+
+/**
+ * Built-in value detectors
+ */
+export type BuiltInRedactionDetector = "email" | "jwt" | "creditCard" | "hexToken";
+
+/**
+ * Custom value detector
+ */
+export interface CustomRedactionDetector {
+  /** Name used in markers and debug reports */
+  name: string;
+  /** Pattern matching sensitive values (the global flag is added automatically) */
+  pattern: RegExp;
+}
+
+/**
+ * PII redaction configuration
+ */
+export interface RedactionConfig {
+  /** Set false to send query strings, paths and referers unmodified */
+  enabled?: boolean;
+  /** Additional sensitive param/metadata key names (strings match exactly, case-insensitive) */
+  params?: Array<string | RegExp>;
+  /** Action for sensitive params and metadata keys (default: "drop") */
+  paramAction?: RedactionAction;
+  /** Value detectors (default: all built-ins) */
+  detectors?: Array<BuiltInRedactionDetector | CustomRedactionDetector>;
+  /** Action for values matched by a detector (default: "redact") */
+  valueAction?: RedactionAction;
+  /** Secret for keyed hashing; without it "hash" uses plain SHA-256 */
+  hashSecret?: string;
+}
+
+/**
+ * A single redaction, reported in debug mode (never includes the value)
+ */
+export interface RedactionReportEntry {
+  /** Event field, e.g. "queryString.token", "path", "metadata.user.email" */
+  field: string;
+  /** "param" for sensitive names, otherwise the detector name */
+  reason: string;
+  action: RedactionAction;
+}
+
+/**
+ * Status code filter: an exact code (404) or a class ("4xx")
+ */
+export type StatusCodePattern = number | `${1 | 2 | 3 | 4 | 5}xx`;
+
+/**
+ * Declarative event filters
+ *
+ * Path patterns are globs matched against the request path
+ * (`*` matches one segment, `**` matches any number of segments).
+ * Status code filters only apply to events with a response.
+ */
+export interface EventFilterConfig {
+  /** Only track matching paths (e.g. ["/blog/**"]) */
+  includePaths?: string[];
+  /** Never track matching paths (e.g. ["/assets/**", "/favicon.ico"]) */
+  excludePaths?: string[];
+  /** Only track matching status codes (e.g. [200, "3xx"]) */
+  includeStatusCodes?: StatusCodePattern[];
+  /** Never track matching status codes (e.g. [304]) */
+  excludeStatusCodes?: StatusCodePattern[];
+}
+
+/**
+ * Sampling rates between 0 and 1 (1 = keep every event)
+ *
+ * Sampled events carry `sampleRate` so totals can be extrapolated.
+ */
+export interface SamplingConfig {
+  /** Rate for traffic that doesn't look automated */
+  human?: number;
+  /** Rate for known bots, automated clients and low provider bot scores */
+  bot?: number;
+}
+
+/**
+ * Hook called before an event is queued
+ *
+ * Return a (possibly modified) event, modify it in place and return nothing,
+ * or return null to drop it.
+ */
+export type BeforeSendHook = (
+  event: IngestEvent,
+  request: Request,
+  response?: Response,
+) => IngestEvent | null | void | Promise<IngestEvent | null | void>;
+
 /**
  * Flush result for a single event
  */
@@ -121,6 +363,77 @@ export interface FlushResult {
   success: boolean;
   eventId?: string;
   error?: string;
+  /** Event was persisted to the spill store for later redelivery */
+  spilled?: boolean;
+  /** false when the API rejected the event (redelivery would fail again) */
+  retryable?: boolean;
+}
+
+/**
+ * Destination for tracked events
+ *
+ * Every flushed batch is handed to each configured transport. Transports
+ * should report failures as FlushResults rather than throwing.
+ */
+export interface Transport {
+  /** Short name used in error messages (e.g. "botmon", "queue") */
+  readonly name: string;
+
+  /** Send a single event */
+  send(event: IngestEvent): Promise<FlushResult>;
+
+  /** Send a batch of events; returns one FlushResult per event (same order) */
+  sendBatch(events: IngestEvent[]): Promise<FlushResult[]>;
+
+  /** Deliver anything the transport buffers internally */
+  flush?(): Promise<void>;
+
+  /** Release resources when the SDK is disposed */
+  close?(): Promise<void>;
+}
+
+/**
+ * Spilled batch read from a spill store
+ */
+export interface SpilledBatch {
+  /** Store key, passed to ack() once the batch is handled */
+  key: string;
+  events: IngestEvent[];
+}
+
+/**
+ * Durable buffer for events that could not be delivered
+ *
+ * Pull-based stores are drained peek-then-ack: batches stay stored until
+ * their events were delivered (or spilled again), so a failed drain or a
+ * dying isolate doesn't lose them. Push-based stores such as Queues omit
+ * peek/ack; their consumer redelivers events instead.
+ */
+export interface SpillStore {
+  /** Persist undelivered events */
+  put(events: IngestEvent[]): Promise<void>;
+
+  /**
+   * Return spilled batches, oldest first, without removing them.
+   * Stops once at least `limit` events have been read (events are stored
+   * in batches, so slightly more may be returned).
+   */
+  peek?(limit: number): Promise<SpilledBatch[]>;
+
+  /** Remove handled batches */
+  ack?(keys: string[]): Promise<void>;
+}
+
+/**
+ * Result of draining the spill store
+ */
+export interface DrainResult {
+  /** Events read from the spill store */
+  taken: number;
+  /** Events delivered to the ingest API */
+  delivered: number;
+  /** Events that failed again (kept spilled when retryable) */
+  failed: number;
 }
 
 /**
@@ -131,6 +444,7 @@ export interface QueueStats {
   flushing: boolean;
   totalAdded: number;
   totalFlushed: number;
+  totalFailed: number;
   totalDropped: number;
 }
 
@@ -141,7 +455,36 @@ export interface RetryConfig {
   retryAttempts: number;
   retryBackoffMs: number;
   retryMaxBackoffMs: number;
+  /** Total time budget for all attempts; no retry is scheduled past it */
+  retryDeadlineMs?: number;
+  debug?: boolean;
+}
+
+/**
+ * Batch payload encoding
+ * - ndjson: one JSON event per line (application/x-ndjson)
+ * - json: a single JSON array (application/json)
+ */
+export type BatchFormat = "ndjson" | "json";
+
+/**
+ * Batch payload compression
+ */
+export type BatchCompression = "gzip" | "none";
+
+/**
+ * Circuit breaker state
+ */
+export type CircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerConfig {
+  failureThreshold: number;
+  resetTimeoutMs: number;
   debug?: boolean;
+  onStateChange?: (state: CircuitState, previous: CircuitState) => void;
 }
 
 /**
@@ -150,10 +493,25 @@ export interface RetryConfig {
 export interface HttpClientConfig {
   apiKey: string;
   ingestUrl: string;
+  batchIngestUrl?: string;
+  batchFormat?: BatchFormat;
+  compression?: BatchCompression;
+  maxBatchBytes?: number;
   debug?: boolean;
   timeoutMs?: number;
 }
 
+/**
+ * BotMon ingest API transport configuration
+ */
+export interface HttpTransportConfig extends HttpClientConfig, RetryConfig {
+  /** Circuit breaker settings (null disables the breaker) */
+  circuitBreaker?: Pick<CircuitBreakerConfig, "failureThreshold" | "resetTimeoutMs"> | null;
+  spillStore?: SpillStore;
+  onCircuitStateChange?: (state: CircuitState, previous: CircuitState) => void;
+  onError?: (error: Error, event?: IngestEvent) => void;
+}
+
 /**
  * Batch queue configuration
  */
@@ -162,11 +520,28 @@ export interface BatchQueueConfig {
   flushIntervalMs: number;
   maxQueueSize: number;
   debug?: boolean;
-  onError?: (error: Error, event?: RawRequestEvent) => void;
-  onFlush?: (events: RawRequestEvent[], results: FlushResult[]) => void;
+  onError?: (error: Error, event?: IngestEvent) => void;
+  onFlush?: (events: IngestEvent[], results: FlushResult[]) => void;
 }
 
 /**
  * Provider bot detection types
  */
-export type { ProviderBotData, BotDetectionProvider } from "./types/provider.types";
+export type {
+  BotVerificationConfig,
+  BotVerificationStatus,
+  BotVerificationResult,
+  BotVerificationMethod,
+  BotVerificationSource,
+  DnsResolver,
+  SignedAgent,
+  KeyDirectory,
+  WebBotAuthConfig,
+} from "./types/verification.types";
+export type {
+  ProviderBotData,
+  ProviderAdapter,
+  BotDetectionProvider,
+  BotDetectionProviderOption,
+  HeaderMappingConfig,
+} from "./types/provider.types";
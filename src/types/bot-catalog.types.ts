@@ -0,0 +1,83 @@
+/**
+ * Bot Catalog Types
+ *
+ * Types for the catalog of known automated clients (crawlers, previewers,
+ * monitors, HTTP libraries and headless browsers).
+ */
+
+/**
+ * Bot category
+ */
+export type BotCategory =
+  | "ai-crawler"
+  | "ai-search"
+  | "ai-agent"
+  | "search-engine"
+  | "seo-tool"
+  | "social-preview"
+  | "monitor"
+  | "http-library"
+  | "headless-browser";
+
+/**
+ * Why the bot fetches pages
+ * - training: collects content for model training
+ * - search: builds a search (or AI search) index
+ * - user-triggered: fetches on behalf of a user's request
+ * - advertising: checks ad landing pages
+ * - seo: crawls for SEO analytics
+ * - preview: renders link previews
+ * - monitoring: checks availability or performance
+ * - automation: generic scripted or automated client
+ */
+export type BotPurpose =
+  | "training"
+  | "search"
+  | "user-triggered"
+  | "advertising"
+  | "seo"
+  | "preview"
+  | "monitoring"
+  | "automation";
+
+/**
+ * Catalog entry for a known bot
+ */
+export interface BotCatalogEntry {
+  /** Product token to match in User-Agent (case-insensitive, whole token) */
+  pattern: string;
+  /** Bot name */
+  name: string;
+  /** Bot category */
+  category: BotCategory;
+  /** Company or project operating the bot */
+  operator: string;
+  /** Why the bot fetches pages */
+  purpose: BotPurpose;
+  /** Whether the operator states the bot obeys robots.txt */
+  respectsRobots: boolean;
+  /** Operator documentation for the bot */
+  docsUrl?: string;
+  /** Additional classification tags */
+  tags: string[];
+}
+
+/**
+ * Catalog entry matched for a request
+ */
+export interface BotMatch extends BotCatalogEntry {
+  /** Version that followed the token in the User-Agent (e.g. "1.2") */
+  version?: string;
+}
+
+/**
+ * Changes to the built-in bot catalog (SDK code or dashboard)
+ */
+export interface BotDefinitionsConfig {
+  /** New bots, matched ahead of built-in entries (an entry with a built-in name replaces it) */
+  additions?: BotCatalogEntry[];
+  /** Field overrides keyed by bot name (e.g. { Bytespider: { respectsRobots: true } }) */
+  overrides?: Record<string, Partial<Omit<BotCatalogEntry, "name">>>;
+  /** Names of bots to stop recognizing */
+  disabled?: string[];
+}
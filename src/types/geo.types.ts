@@ -81,6 +81,8 @@ export interface PageTypeResult {
 export interface AiBotDetectionResult {
   isAiBot: boolean;
   botName?: string;
+  /** Version that followed the bot's token (e.g. "1.2" for "GPTBot/1.2") */
+  botVersion?: string;
   botCategory?: string;
   /** Tags for additional classification */
   botTags?: string[];
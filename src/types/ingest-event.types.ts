@@ -29,11 +29,21 @@ export interface BaseEvent {
   statusCode?: number;
 
   // Client data
-  clientIp?: string;
+  clientIp?: string;         // Full or truncated, depending on the SDK's ipHandling mode
+  clientIpHash?: string;     // HMAC of the IP with a daily-rotating salt (ipHandling: "hash")
+  clientIpNetwork?: string;  // Truncated network, e.g. 203.0.113.0/24 (ipHandling: "hash")
   clientCountry?: string;    // ISO country code (US, GB, etc.)
   userAgent?: string;
   referer?: string;
 
+  // Network (Cloudflare request.cf)
+  clientAsn?: number;            // Autonomous system number, e.g. 15169
+  clientAsOrganization?: string; // AS organization, e.g. "Google Cloud"
+  clientCity?: string;
+  colo?: string;                 // IATA code of the Cloudflare data center, e.g. "SJC"
+  tlsVersion?: string;           // e.g. "TLSv1.3"
+  httpProtocol?: string;         // e.g. "HTTP/2"
+
   // Performance
   responseTimeMs?: number;
   bytesSent?: number;
@@ -41,16 +51,37 @@ export interface BaseEvent {
 
   // Session tracking
   sessionId?: string;            // Cookie-based session identifier (UUID)
+  consentState?: "granted" | "denied" | "unknown"; // Set in consent mode; cookieless session when not granted
+
+  // Verified-bot authentication (claimed crawler checked against published IPs / reverse DNS)
+  botVerification?: "verified" | "spoofed" | "unknown";
+  signedAgent?: {
+    agent: string;             // Signature-Agent origin of a verified Web Bot Auth signature
+    keyId: string;             // JWK thumbprint of the signing key
+    operator?: string;         // Operator from the trusted agent registry
+  };
+
+  // Sampling
+  sampleRate?: number;           // Set when sampled (0-1); weight the event by 1/sampleRate
 
   // Extensibility
   metadata?: Record<string, any>;
 
   // Provider bot detection data (optional)
   providerBotData?: {
-    score?: number;           // Upstream provider bot score (0-100)
+    score?: number;           // Upstream provider bot score (0-100, lower = more likely automated)
     verified?: boolean;       // Is this a verified bot
     classification?: string;  // Provider's classification
+    botName?: string;         // Bot name reported by the provider
     provider: string;         // Provider name ('cloudflare', 'fastly', etc.)
+
+    // Cloudflare Bot Management signals
+    ja3Hash?: string;
+    ja4?: string;
+    detectionIds?: number[];
+    staticResource?: boolean;
+    verifiedBotCategory?: string;
+    corporateProxy?: boolean;
   };
 
   // robots.txt content capture (optional)
@@ -85,9 +116,10 @@ export type IngestEvent = RawRequestEvent | ClassifiedEvent;
  */
 export interface BotClassification {
   type: TrafficType;
-  score: number;             // 0-100
+  score: number;             // 0-100 (0=definitely bot, 100=definitely human)
   botName?: string;
   confidence: "high" | "medium" | "low";
+  reasons?: string[];        // Signals that decided the classification (e.g. "spoofed", "missing-accept")
 }
 
 /**
@@ -102,3 +134,17 @@ export interface IngestResponse {
   eventId?: string;
   error?: string;
 }
+
+/**
+ * Batch ingest response
+ */
+export interface IngestBatchResponse {
+  success: boolean;
+  /** Per-event results, in the same order as the submitted events */
+  results?: Array<{
+    success: boolean;
+    eventId?: string;
+    error?: string;
+  }>;
+  error?: string;
+}
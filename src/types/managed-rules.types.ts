@@ -6,6 +6,10 @@
  */
 
 import type { GeoRuleConfig, GeoPageRule } from "./geo.types";
+import type { BotCategory, BotDefinitionsConfig } from "./bot-catalog.types";
+import type { TrafficType } from "./ingest-event.types";
+import type { BotVerificationStatus } from "./verification.types";
+import type { BotCatalog } from "../classification/bot-catalog";
 
 /**
  * File serving mode for managed rules
@@ -20,6 +24,29 @@ export interface RobotsTxtRuleConfig {
   mode: ManagedFileMode;
 }
 
+/**
+ * What happens when a crawler fetches a path robots.txt disallows for it.
+ * Every mode records the violation in analytics.
+ * - block: 403 Forbidden
+ * - log: console warning
+ * - tag: analytics only
+ */
+export type RobotsEnforcementMode = "block" | "log" | "tag";
+
+/**
+ * robots.txt enforcement configuration
+ */
+export interface RobotsEnforcementConfig {
+  enabled: boolean;
+  /** Default "tag" */
+  mode?: RobotsEnforcementMode;
+  /**
+   * Crawlers to check (default: crawlers expected to obey robots.txt,
+   * `{ categories: ["ai-crawler", "ai-search", "search-engine", "seo-tool"] }`)
+   */
+  match?: AccessPolicyMatch;
+}
+
 /**
  * Sitemap rule configuration
  */
@@ -45,6 +72,113 @@ export interface WellKnownRuleConfig {
   files: Record<string, WellKnownFileConfig>;
 }
 
+/**
+ * Access policy action
+ * - allow: serve normally and stop evaluating rules
+ * - block: 403 Forbidden
+ * - respond: custom status, body and headers
+ * - redirect: redirect to `location`
+ */
+export type AccessPolicyAction = "allow" | "block" | "respond" | "redirect";
+
+/**
+ * Request conditions for an access policy rule.
+ * All listed conditions must match; each list matches any of its values.
+ * Bot conditions never match requests without a catalog bot.
+ */
+export interface AccessPolicyMatch {
+  /** Bot names (case-insensitive, e.g. "GPTBot") */
+  bots?: string[];
+  /** Bot categories (e.g. "ai-crawler") */
+  categories?: BotCategory[];
+  /** Bot tags (e.g. "llm-training") */
+  tags?: string[];
+  /** Traffic types from the classifier (e.g. "bad_bot") */
+  trafficTypes?: TrafficType[];
+  /** Crawler verification results (e.g. "spoofed") */
+  verification?: BotVerificationStatus[];
+  /** Client country codes (from cf.country) */
+  countries?: string[];
+  /** Glob patterns for the URL path (e.g. "/premium/**") */
+  paths?: string[];
+}
+
+/**
+ * Ordered access policy rule (first match wins)
+ */
+export interface AccessPolicyRule {
+  /** Rule name (recorded in analytics; dashboard rules replace SDK rules with the same name) */
+  name?: string;
+  match: AccessPolicyMatch;
+  action: AccessPolicyAction;
+  /** Status for "respond" (default 200) and "redirect" (default 302) */
+  status?: number;
+  /** Body for "block" and "respond" */
+  body?: string;
+  /** Extra response headers for "block" and "respond" */
+  headers?: Record<string, string>;
+  /** Redirect target for "redirect" (absolute, or relative to the request URL) */
+  location?: string;
+}
+
+/**
+ * Access policy configuration
+ */
+export interface AccessPolicyConfig {
+  enabled: boolean;
+  rules?: AccessPolicyRule[];
+}
+
+/**
+ * What a rate limit bucket is keyed by
+ * - bot: bot name of verified crawlers and signed agents (falls back to the client IP)
+ * - ip: client IP
+ * - session: established session ID (falls back to the client IP)
+ */
+export type RateLimitKey = "bot" | "ip" | "session";
+
+/**
+ * Ordered rate limit rule (first match wins): a token bucket of `limit`
+ * requests, refilled over `period` seconds
+ */
+export interface RateLimitRule {
+  /** Rule name (recorded in analytics; dashboard rules replace SDK rules with the same name) */
+  name?: string;
+  match: AccessPolicyMatch;
+  /** Bucket capacity (maximum burst) */
+  limit: number;
+  /** Seconds to refill an empty bucket */
+  period: number;
+  /** Bucket key (default "bot") */
+  key?: RateLimitKey;
+}
+
+/**
+ * Rate limit configuration
+ */
+export interface RateLimitConfig {
+  enabled: boolean;
+  rules?: RateLimitRule[];
+}
+
+/**
+ * Pay-per-crawl configuration.
+ * Matching crawlers without a valid payment token get `402 Payment Required`.
+ */
+export interface CrawlerPricingConfig {
+  enabled: boolean;
+  /** Price per request in `currency` (e.g. 0.01) */
+  price: number;
+  /** ISO 4217 currency code (default "USD") */
+  currency?: string;
+  /** Crawlers that have to pay (default: AI training crawlers, `{ categories: ["ai-crawler"] }`) */
+  match?: AccessPolicyMatch;
+  /** Where crawlers obtain tokens (sent in a `Link` header with 402 responses) */
+  paymentUrl?: string;
+  /** HMAC secret for HS256 payment tokens (or set env.BOTMON_CRAWLER_TOKEN_SECRET) */
+  secret?: string;
+}
+
 /**
  * Top-level managed rules configuration (SDK code defaults)
  */
@@ -53,6 +187,16 @@ export interface ManagedRulesConfig {
   sitemap?: SitemapRuleConfig;
   wellKnown?: WellKnownRuleConfig;
   geo?: GeoRuleConfig;
+  /** Additions, overrides and disables for the built-in bot catalog */
+  bots?: BotDefinitionsConfig;
+  /** Allow, block, respond or redirect by bot, path and country */
+  accessPolicies?: AccessPolicyConfig;
+  /** Charge AI crawlers per request with HTTP 402 */
+  crawlerPricing?: CrawlerPricingConfig;
+  /** Per-bot, per-IP or per-session token bucket limits */
+  rateLimits?: RateLimitConfig;
+  /** Detect (and optionally block) crawlers that ignore robots.txt */
+  robotsEnforcement?: RobotsEnforcementConfig;
 }
 
 /**
@@ -87,6 +231,15 @@ export interface RemoteConfigBundle {
     enrichHeadings?: boolean;
     rules?: GeoPageRule[];
   };
+  /** Bot definitions pushed from the dashboard (applied after SDK definitions) */
+  bots?: BotDefinitionsConfig;
+  /** Access policies (dashboard rules are evaluated before SDK rules) */
+  accessPolicies?: AccessPolicyConfig;
+  /** Crawler pricing (the token secret is never sent by the dashboard) */
+  crawlerPricing?: Omit<CrawlerPricingConfig, "secret">;
+  /** Rate limits (dashboard rules are evaluated before SDK rules) */
+  rateLimits?: RateLimitConfig;
+  robotsEnforcement?: RobotsEnforcementConfig;
 }
 
 /**
@@ -118,4 +271,27 @@ export interface ResolvedConfig {
     enrichHeadings: boolean;
     rules: GeoPageRule[];
   };
+  /** Built-in catalog with SDK and dashboard bot definitions applied */
+  bots: BotCatalog;
+  accessPolicies: {
+    enabled: boolean;
+    rules: AccessPolicyRule[];
+  };
+  crawlerPricing: {
+    enabled: boolean;
+    price: number;
+    currency: string;
+    match: AccessPolicyMatch;
+    paymentUrl?: string;
+    secret?: string;
+  };
+  rateLimits: {
+    enabled: boolean;
+    rules: RateLimitRule[];
+  };
+  robotsEnforcement: {
+    enabled: boolean;
+    mode: RobotsEnforcementMode;
+    match: AccessPolicyMatch;
+  };
 }
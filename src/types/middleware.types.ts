@@ -6,9 +6,16 @@
  */
 
 import type { BotMonConfig } from "../types";
-import type { ManagedRulesConfig } from "./managed-rules.types";
-import type { TrafficType } from "./ingest-event.types";
+import type {
+  ManagedRulesConfig,
+  AccessPolicyAction,
+  RobotsEnforcementMode,
+} from "./managed-rules.types";
+import type { TrafficType, BotClassification } from "./ingest-event.types";
 import type { PageType } from "./geo.types";
+import type { BotPurpose } from "./bot-catalog.types";
+import type { BotVerificationStatus, SignedAgent, WebBotAuthConfig } from "./verification.types";
+import type { RateLimitStore } from "./rate-limit.types";
 
 /**
  * Middleware configuration extending the base SDK config
@@ -18,13 +25,22 @@ export interface MiddlewareConfig extends BotMonConfig {
   managedRules?: ManagedRulesConfig;
 
   /** Hook called after response is generated (before returning to client) */
-  onResponse?: (context: ResponseContext) => Promise<Response> | Response;
+  onResponse?: (context: ResponseContext & { response: Response }) => Promise<Response> | Response;
 
   /** BotMon API base URL for remote config */
   apiBaseUrl?: string;
 
   /** Remote config cache TTL in seconds (default: 300) */
   configCacheTtl?: number;
+
+  /** Web Bot Auth signature verification (default: enabled) */
+  webBotAuth?: WebBotAuthConfig;
+
+  /**
+   * Token bucket storage for rate limits, or a factory receiving the Worker
+   * env (default: in-memory per isolate)
+   */
+  rateLimitStore?: RateLimitStore | ((env: unknown) => RateLimitStore);
 }
 
 /**
@@ -33,16 +49,38 @@ export interface MiddlewareConfig extends BotMonConfig {
 export interface ResponseContext {
   /** Original incoming request */
   request: Request;
-  /** Current response (may be modified by pipeline stages) */
-  response: Response;
+  /**
+   * Current response. Unset while pre-origin stages run; set once a stage
+   * intercepts or origin responds (may be modified by post-origin stages).
+   */
+  response?: Response;
   /** Classified traffic type */
   trafficType: TrafficType;
+  /** Full classification (score, confidence and deciding signals) */
+  classification: BotClassification;
   /** Detected bot name (if any) */
   botName?: string;
+  /** Detected bot version from the User-Agent (e.g. "1.2" for "GPTBot/1.2") */
+  botVersion?: string;
+  /** User-Agent product token the catalog matched (e.g. "GPTBot"), used for robots.txt groups */
+  botToken?: string;
   /** Bot category (e.g. "search-engine", "ai-crawler") */
   botCategory?: string;
   /** Additional bot classification tags */
   botTags?: string[];
+  /** Company or project operating the bot (from the bot catalog) */
+  botOperator?: string;
+  /** Why the bot fetches pages (from the bot catalog) */
+  botPurpose?: BotPurpose;
+  /** Whether the claimed crawler's IP matches its operator (see BotVerifier) */
+  botVerification?: BotVerificationStatus;
+  /** Agent identity from a verified Web Bot Auth signature */
+  signedAgent?: SignedAgent;
+  /**
+   * Established session ID (from a valid session cookie, or the cookieless
+   * ID). Unset when the request starts a new session.
+   */
+  sessionId?: string;
   /** Client country code (from cf.country) */
   country?: string;
   /** Parsed request URL */
@@ -51,12 +89,33 @@ export interface ResponseContext {
   isAiBot: boolean;
   /** Detected page type (set by GEO engine) */
   pageType?: PageType;
+  /** Access policy rule that matched (set by the access policy stage) */
+  accessPolicy?: { rule?: string; action: AccessPolicyAction };
+  /** robots.txt rule the crawler ignored (set by the robots enforcement stage) */
+  robotsViolation?: { directive: string; mode: RobotsEnforcementMode };
+  /** Rate limit rule that matched (set by the rate-limit stage) */
+  rateLimit?: { rule?: string; limited: boolean; retryAfter?: number };
+  /** Pay-per-crawl outcome (set by the crawler pricing stage for priced crawlers) */
+  crawlerPayment?: CrawlerPayment;
   /** Cloudflare Worker env bindings */
   env: unknown;
   /** Cloudflare Worker execution context */
   ctx: ExecutionContext;
 }
 
+/**
+ * Pay-per-crawl outcome for a priced crawler request
+ */
+export interface CrawlerPayment {
+  /** "paid": a valid token granted access; "refused": answered with 402 */
+  status: "paid" | "refused";
+  /** Price per request */
+  price: number;
+  currency: string;
+  /** Why the crawl was refused */
+  reason?: "missing" | "invalid" | "expired" | "price";
+}
+
 /**
  * Cloudflare Worker fetch handler signature
  */
@@ -94,4 +153,20 @@ export interface MiddlewareAnalyticsMetadata {
   managedRulesApplied?: string[];
   geoPageType?: PageType;
   geoModified?: boolean;
+  /** Name of the access policy rule that matched */
+  accessPolicyRule?: string;
+  /** Action taken by the matched access policy */
+  accessPolicyAction?: AccessPolicyAction;
+  /** Whether the crawler fetched a path robots.txt disallows for it */
+  robotsViolation?: boolean;
+  /** The robots.txt rule that disallows the path (e.g. "Disallow: /private") */
+  robotsDirective?: string;
+  /** Name of the rate limit rule that matched */
+  rateLimitRule?: string;
+  /** Whether the request was answered with 429 */
+  rateLimited?: boolean;
+  /** Pay-per-crawl outcome ("paid" or "refused") */
+  crawlerPayment?: CrawlerPayment["status"];
+  /** Price of the crawl (e.g. "USD 0.01") */
+  crawlerPrice?: string;
 }
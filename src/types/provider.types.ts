@@ -8,37 +8,253 @@
  * Extracted bot data from provider
  */
 export interface ProviderBotData {
-  score?: number;           // Upstream bot score (0-100, provider-specific)
+  score?: number;           // Upstream bot score (0-100, lower = more likely automated)
   verified?: boolean;       // Is this a verified bot
-  classification?: string;  // Provider's bot classification
+  classification?: string;  // Provider's bot classification (e.g. category)
+  botName?: string;         // Bot name reported by the provider
   provider: string;         // 'cloudflare' | 'fastly' | 'akamai' | 'cloudfront'
+
+  // Cloudflare Bot Management signals
+  ja3Hash?: string;             // JA3 TLS fingerprint
+  ja4?: string;                 // JA4 TLS fingerprint
+  detectionIds?: number[];      // Heuristic detections that matched the request
+  staticResource?: boolean;     // Request is for a static asset
+  verifiedBotCategory?: string; // e.g. "Search Engine Crawler"
+  corporateProxy?: boolean;     // Request came through a known corporate proxy
 }
 
 /**
  * Provider adapter interface
+ *
+ * Implement this to feed signals from other sources (e.g. an in-house WAF)
+ * into `providerBotData`, and pass the instance as `botDetectionProvider`.
  */
 export interface ProviderAdapter {
   extractBotData(request: Request): ProviderBotData | null;
 }
 
+/**
+ * Declarative adapter that reads bot signals from request headers
+ */
+export interface HeaderMappingConfig {
+  /** Provider name recorded on events (default: "custom") */
+  provider?: string;
+  /** Header holding the numeric bot score */
+  scoreHeader?: string;
+  /** Header holding the verified-bot flag ("true", "1" or "yes") */
+  verifiedHeader?: string;
+  /** Header holding the bot classification/category */
+  classificationHeader?: string;
+  /** Header holding the bot name */
+  botNameHeader?: string;
+  /**
+   * Maximum value of the score header; scores are rescaled to 0-100
+   * @default 100
+   */
+  scale?: number;
+  /**
+   * Set when a higher score means more likely automated, so the score is
+   * inverted to BotMon's direction (lower = more likely automated)
+   * @default false
+   */
+  invertScore?: boolean;
+}
+
 /**
  * Cloudflare Bot Management adapter
- * Extracts data from request.cf.botManagement
+ * Extracts data from request.cf.botManagement (JA3/JA4 and detection IDs
+ * require Bot Management for Enterprise)
  */
 export class CloudflareAdapter implements ProviderAdapter {
   extractBotData(request: Request): ProviderBotData | null {
-    const cf = (request as any).cf;
-    if (!cf?.botManagement) return null;
+    const botManagement = (request as any).cf?.botManagement;
+    if (!botManagement) return null;
+
+    const detectionIds = Array.isArray(botManagement.detectionIds)
+      ? botManagement.detectionIds.filter((id: unknown) => typeof id === "number")
+      : [];
 
     return {
-      score: cf.botManagement.score,
-      verified: cf.botManagement.verifiedBot || false,
-      classification: cf.botManagement.ja3Hash ? "fingerprinted" : undefined,
+      score: botManagement.score,
+      verified: botManagement.verifiedBot || false,
+      classification: botManagement.verifiedBotCategory || undefined,
       provider: "cloudflare",
+      ja3Hash: botManagement.ja3Hash || undefined,
+      ja4: botManagement.ja4 || undefined,
+      detectionIds: detectionIds.length > 0 ? detectionIds : undefined,
+      staticResource: botManagement.staticResource,
+      verifiedBotCategory: botManagement.verifiedBotCategory || undefined,
+      corporateProxy: botManagement.corporateProxy,
     };
   }
 }
 
+/**
+ * Parse a boolean signal header ("true", "1", "yes")
+ */
+function parseBooleanHeader(value: string | null): boolean | undefined {
+  if (value === null) return undefined;
+  return ["true", "1", "yes"].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Parse a 0-100 score where higher means more likely automated, and
+ * invert it so all providers share Cloudflare's direction (low = bot)
+ */
+function parseInvertedScore(value: string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value.trim() === "") return undefined;
+  const score = Number(value);
+  if (!Number.isFinite(score)) return undefined;
+  return 100 - Math.min(100, Math.max(0, score));
+}
+
+/**
+ * Parse a `key=value; key=value` header into a lowercase-keyed map
+ */
+function parseKeyValueHeader(value: string | null): Map<string, string> {
+  const result = new Map<string, string>();
+  if (!value) return result;
+
+  for (const part of value.split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    result.set(part.slice(0, index).trim().toLowerCase(), part.slice(index + 1).trim());
+  }
+  return result;
+}
+
+/**
+ * Drop undefined fields; return null if the provider sent no bot signals
+ */
+function toProviderBotData(
+  provider: string,
+  data: Omit<ProviderBotData, "provider">,
+): ProviderBotData | null {
+  const fields = Object.fromEntries(
+    Object.entries(data).filter(([, value]) => value !== undefined && value !== ""),
+  );
+  return Object.keys(fields).length > 0 ? { ...fields, provider } : null;
+}
+
+/**
+ * Fastly adapter
+ * Reads Fastly Bot Management signals forwarded as request headers (set
+ * them from VCL or Compute), plus Next-Gen WAF (Signal Sciences) tags:
+ * - Fastly-Bot-Score: 0-100, higher = more likely automated
+ * - Fastly-Bot-Verified: "true" for verified bots
+ * - Fastly-Bot-Name / Fastly-Bot-Category
+ * - X-SigSci-Tags: comma-separated signals (e.g. SUSPECTED-BAD-BOT)
+ */
+export class FastlyAdapter implements ProviderAdapter {
+  extractBotData(request: Request): ProviderBotData | null {
+    const headers = request.headers;
+    const tags = (headers.get("X-SigSci-Tags") ?? "")
+      .split(",")
+      .map((tag) => tag.trim().toUpperCase())
+      .filter(Boolean);
+    const suspectedBot = tags.find((tag) => tag.includes("BOT"));
+
+    return toProviderBotData("fastly", {
+      score: parseInvertedScore(headers.get("Fastly-Bot-Score")),
+      verified: parseBooleanHeader(headers.get("Fastly-Bot-Verified")),
+      classification: headers.get("Fastly-Bot-Category") ?? suspectedBot?.toLowerCase(),
+      botName: headers.get("Fastly-Bot-Name") ?? undefined,
+    });
+  }
+}
+
+/**
+ * Akamai adapter
+ * Reads Akamai Bot Manager headers added via a conditional action:
+ * - Akamai-Bot: `category=...; name=...; verified=true` (Akamai-categorized
+ *   bots from the known-bot directory are verified)
+ * - Akamai-Bot-Score: Bot Manager Premier score, 0-100, higher = more likely automated
+ * - Akamai-User-Risk: Account Protector `...; score=N; ...` (used when no bot score)
+ */
+export class AkamaiAdapter implements ProviderAdapter {
+  extractBotData(request: Request): ProviderBotData | null {
+    const headers = request.headers;
+    const bot = parseKeyValueHeader(headers.get("Akamai-Bot"));
+    const risk = parseKeyValueHeader(headers.get("Akamai-User-Risk"));
+
+    return toProviderBotData("akamai", {
+      score:
+        parseInvertedScore(headers.get("Akamai-Bot-Score")) ??
+        parseInvertedScore(risk.get("score")),
+      verified: bot.has("verified") ? parseBooleanHeader(bot.get("verified")!) : undefined,
+      classification: bot.get("category"),
+      botName: bot.get("name"),
+    });
+  }
+}
+
+/**
+ * CloudFront adapter
+ * Reads AWS WAF Bot Control labels forwarded as custom request headers
+ * (WAF prefixes inserted headers with `x-amzn-waf-`):
+ * - x-amzn-waf-bot-category (e.g. "search_engine"), x-amzn-waf-bot-name
+ * - x-amzn-waf-bot-verified: "true" for the `bot:verified` label
+ * - x-amzn-waf-bot-signal (e.g. "automated_browser")
+ * Falls back to CloudFront viewer headers: when every `CloudFront-Is-*-Viewer`
+ * header is "false", the client isn't a recognizable device ("non-browser").
+ */
+export class CloudFrontAdapter implements ProviderAdapter {
+  extractBotData(request: Request): ProviderBotData | null {
+    const headers = request.headers;
+    const viewerHeaders = ["Desktop", "Mobile", "Tablet", "SmartTV"]
+      .map((device) => headers.get(`CloudFront-Is-${device}-Viewer`))
+      .filter((value): value is string => value !== null);
+    const nonBrowser =
+      viewerHeaders.length > 0 && viewerHeaders.every((value) => value.toLowerCase() === "false");
+
+    return toProviderBotData("cloudfront", {
+      verified: parseBooleanHeader(headers.get("x-amzn-waf-bot-verified")),
+      classification:
+        headers.get("x-amzn-waf-bot-category") ??
+        headers.get("x-amzn-waf-bot-signal") ??
+        (nonBrowser ? "non-browser" : undefined),
+      botName: headers.get("x-amzn-waf-bot-name") ?? undefined,
+    });
+  }
+}
+
+/**
+ * Header mapping adapter
+ * Reads the headers named in a HeaderMappingConfig
+ */
+export class HeaderMappingAdapter implements ProviderAdapter {
+  constructor(private mapping: HeaderMappingConfig) {
+    const { scale } = mapping;
+    if (scale !== undefined && !(Number.isFinite(scale) && scale > 0)) {
+      throw new Error(`[BotMon] Header mapping scale must be a positive number, got ${scale}`);
+    }
+  }
+
+  extractBotData(request: Request): ProviderBotData | null {
+    const { scoreHeader, verifiedHeader, classificationHeader, botNameHeader } = this.mapping;
+    const get = (name?: string) => (name ? request.headers.get(name) : null);
+
+    return toProviderBotData(this.mapping.provider || "custom", {
+      score: this.parseScore(get(scoreHeader)),
+      verified: parseBooleanHeader(get(verifiedHeader)),
+      classification: get(classificationHeader) ?? undefined,
+      botName: get(botNameHeader) ?? undefined,
+    });
+  }
+
+  /**
+   * Rescale the score to 0-100, inverting it if configured
+   */
+  private parseScore(value: string | null): number | undefined {
+    if (value === null || value.trim() === "") return undefined;
+    const raw = Number(value);
+    if (!Number.isFinite(raw)) return undefined;
+
+    const score = Math.min(100, Math.max(0, (raw / (this.mapping.scale ?? 100)) * 100));
+    return this.mapping.invertScore ? 100 - score : score;
+  }
+}
+
 /**
  * Generic adapter for unsupported providers
  * Returns null (graceful degradation)
@@ -54,16 +270,30 @@ export class GenericAdapter implements ProviderAdapter {
  */
 export type BotDetectionProvider = "cloudflare" | "fastly" | "akamai" | "cloudfront" | "none";
 
+/**
+ * Built-in provider name, custom adapter instance or header mapping
+ */
+export type BotDetectionProviderOption = BotDetectionProvider | ProviderAdapter | HeaderMappingConfig;
+
 /**
  * Factory function to create provider adapter
  */
-export function createProviderAdapter(provider: BotDetectionProvider): ProviderAdapter {
+export function createProviderAdapter(provider: BotDetectionProviderOption): ProviderAdapter {
+  if (typeof provider === "object") {
+    return "extractBotData" in provider && typeof provider.extractBotData === "function"
+      ? provider
+      : new HeaderMappingAdapter(provider as HeaderMappingConfig);
+  }
+
   switch (provider) {
     case "cloudflare":
       return new CloudflareAdapter();
     case "fastly":
+      return new FastlyAdapter();
     case "akamai":
+      return new AkamaiAdapter();
     case "cloudfront":
+      return new CloudFrontAdapter();
     case "none":
     default:
       return new GenericAdapter();
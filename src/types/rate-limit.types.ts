@@ -0,0 +1,47 @@
+/**
+ * Rate Limit Types
+ *
+ * Types for the token buckets behind the middleware's rate-limit stage
+ * and the stores that hold them.
+ */
+
+/**
+ * Token bucket parameters: `limit` requests per `period`, with bursts
+ * of up to `limit` requests
+ */
+export interface RateLimitPolicy {
+  /** Bucket capacity (maximum burst) */
+  limit: number;
+  /** Seconds to refill an empty bucket */
+  period: number;
+}
+
+/**
+ * Outcome of taking a token from a bucket
+ */
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Tokens left after this request (absent when the store can't tell) */
+  remaining?: number;
+  /** Seconds until a token is available (0 when allowed) */
+  retryAfter: number;
+}
+
+/**
+ * Storage for token buckets (Durable Object, rate-limit binding, memory)
+ */
+export interface RateLimitStore {
+  /**
+   * Take a token from the bucket for `key`
+   */
+  consume(key: string, policy: RateLimitPolicy): Promise<RateLimitResult>;
+}
+
+/**
+ * Token bucket state as persisted by stores
+ */
+export interface TokenBucketState {
+  tokens: number;
+  /** Last refill, in ms */
+  updatedAt: number;
+}
@@ -0,0 +1,128 @@
+/**
+ * Bot Verification Types
+ *
+ * Types for authenticating requests that claim to be a known crawler
+ * (published IP ranges and forward-confirmed reverse DNS) and agents
+ * that sign their requests (Web Bot Auth).
+ */
+
+/**
+ * Verification outcome for a request
+ * - verified: the client IP belongs to the operator the User-Agent claims
+ * - spoofed: the User-Agent claims a known crawler but the IP doesn't match
+ * - unknown: not a known crawler, or the claim couldn't be checked
+ */
+export type BotVerificationStatus = "verified" | "spoofed" | "unknown";
+
+/**
+ * How a verification result was reached
+ */
+export type BotVerificationMethod = "provider" | "ip-range" | "reverse-dns";
+
+/**
+ * Verification result
+ */
+export interface BotVerificationResult {
+  status: BotVerificationStatus;
+  /** Operator key of the claimed crawler (e.g. "google", "openai") */
+  operator?: string;
+  /** Check that decided the result (absent when unknown) */
+  method?: BotVerificationMethod;
+}
+
+/**
+ * A crawler operator's verification data
+ */
+export interface BotVerificationSource {
+  /** User-Agent substrings claiming this operator (case-insensitive) */
+  userAgents: string[];
+  /** Published IPv4/IPv6 CIDR ranges */
+  ranges?: string[];
+  /** Reverse DNS domains for forward-confirmed reverse DNS (e.g. "googlebot.com") */
+  domains?: string[];
+  /** Published range lists in the googlebot.json format, loaded lazily and by refresh() */
+  rangesUrls?: string[];
+}
+
+/**
+ * DNS resolver used for forward-confirmed reverse DNS
+ */
+export interface DnsResolver {
+  /** Hostnames from the PTR records of an IP */
+  resolvePtr(ip: string): Promise<string[]>;
+  /** A and AAAA addresses of a hostname */
+  resolveAddresses(hostname: string): Promise<string[]>;
+}
+
+/**
+ * Bot verification configuration
+ */
+export interface BotVerificationConfig {
+  /** Verify requests claiming to be known crawlers (default: true) */
+  enabled?: boolean;
+  /**
+   * Operator sources merged over the bundled defaults by key. Replace a
+   * bundled entry to update its ranges, or add new operators.
+   */
+  sources?: Record<string, BotVerificationSource>;
+  /** Fall back to forward-confirmed reverse DNS when the IP isn't in a range (default: false) */
+  reverseDns?: boolean;
+  /** DNS-over-HTTPS endpoint (JSON API) for reverse DNS (default: Cloudflare) */
+  dohEndpoint?: string;
+  /** Custom DNS resolver (overrides dohEndpoint; useful for tests) */
+  resolver?: DnsResolver;
+  /** Reverse DNS result cache TTL in seconds (default: 3600) */
+  cacheTtl?: number;
+  /**
+   * Load operators' published range lists (`rangesUrls`) when a claimed
+   * crawler's IP isn't in the current ranges (default: true)
+   */
+  refreshRanges?: boolean;
+  /** Published range list cache TTL in seconds (default: 86400) */
+  rangesTtl?: number;
+}
+
+/**
+ * Identity of an agent whose Web Bot Auth signature verified
+ */
+export interface SignedAgent {
+  /** Agent origin from Signature-Agent (e.g. "https://chatgpt.com") */
+  agent: string;
+  /** JWK thumbprint of the signing key */
+  keyId: string;
+  /** Operator the agent signs for, from the trusted agent registry (e.g. "OpenAI") */
+  operator?: string;
+}
+
+/**
+ * Public keys published by a signing agent
+ */
+export interface KeyDirectory {
+  /**
+   * Ed25519 public keys (JWK) for an agent origin; empty if the agent has
+   * no usable directory
+   */
+  getKeys(agent: string): Promise<JsonWebKey[]>;
+}
+
+/**
+ * Web Bot Auth (RFC 9421 HTTP Message Signatures) configuration
+ */
+export interface WebBotAuthConfig {
+  /** Verify signed requests (default: true) */
+  enabled?: boolean;
+  /** Key directory lookup (default: fetched from the agent's well-known URL) */
+  keyDirectory?: KeyDirectory;
+  /**
+   * Agent origins whose signatures are accepted, added to the built-in
+   * registry (DEFAULT_TRUSTED_AGENTS). Map an origin to its operator
+   * (e.g. { "https://chatgpt.com": "OpenAI" }) to let the signature vouch
+   * for that operator's User-Agent. Other agents are unverified, and their
+   * key directories are never fetched.
+   */
+  trustedAgents?: string[] | Record<string, string>;
+  /** Key directory cache TTL in seconds (default: 3600) */
+  cacheTtl?: number;
+  /** Tolerated clock skew for `created`/`expires` in seconds (default: 60) */
+  clockSkew?: number;
+}
@@ -0,0 +1,21 @@
+/**
+ * Cookie Utilities
+ */
+
+/**
+ * Read a cookie value from the request Cookie header
+ */
+export function getCookie(request: Request, cookieName: string): string | undefined {
+  const cookieHeader = request.headers.get("Cookie");
+  if (!cookieHeader) return undefined;
+
+  const cookies = cookieHeader.split(";");
+  for (const cookie of cookies) {
+    const [name, ...valueParts] = cookie.trim().split("=");
+    if (name === cookieName) {
+      return valueParts.join("=") || undefined;
+    }
+  }
+
+  return undefined;
+}
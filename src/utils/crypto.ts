@@ -0,0 +1,88 @@
+/**
+ * Crypto Utilities
+ *
+ * Small Web Crypto helpers shared by privacy and signing features.
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * Hex-encode bytes
+ */
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return [...new Uint8Array(bytes)]
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Base64url-encode bytes (no padding)
+ */
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  let binary = "";
+  for (const byte of new Uint8Array(bytes)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decode base64url (padding optional), or return null if invalid
+ */
+export function fromBase64Url(value: string): Uint8Array<ArrayBuffer> | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(value)) return null;
+  try {
+    const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * SHA-256 digest of a string, hex-encoded
+ */
+export async function sha256Hex(input: string): Promise<string> {
+  return toHex(await crypto.subtle.digest("SHA-256", encoder.encode(input)));
+}
+
+/**
+ * Import a raw HMAC-SHA256 key
+ */
+export function importHmacKey(secret: string | Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  const raw = typeof secret === "string" ? encoder.encode(secret) : secret;
+  return crypto.subtle.importKey(
+    "raw",
+    raw,
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+/**
+ * HMAC-SHA256 of a string, hex-encoded
+ */
+export async function hmacSha256Hex(
+  secret: string | Uint8Array<ArrayBuffer> | CryptoKey,
+  input: string,
+): Promise<string> {
+  const key = secret instanceof CryptoKey ? secret : await importHmacKey(secret);
+  return toHex(await crypto.subtle.sign("HMAC", key, encoder.encode(input)));
+}
+
+/**
+ * HMAC-SHA256 signature of a string, base64url-encoded
+ */
+export async function hmacSign(key: CryptoKey, input: string): Promise<string> {
+  return toBase64Url(await crypto.subtle.sign("HMAC", key, encoder.encode(input)));
+}
+
+/**
+ * Verify a base64url HMAC-SHA256 signature (constant-time via Web Crypto)
+ */
+export async function hmacVerify(key: CryptoKey, input: string, signature: string): Promise<boolean> {
+  const bytes = fromBase64Url(signature);
+  if (!bytes) return false;
+  return crypto.subtle.verify("HMAC", key, bytes, encoder.encode(input));
+}
@@ -4,45 +4,58 @@
  * Wrapper around fetch for making API calls to BotMon ingest endpoint.
  */
 
-import type { RawRequestEvent, IngestResponse, HttpClientConfig } from "../types";
+import type {
+  IngestEvent,
+  IngestResponse,
+  IngestBatchResponse,
+  FlushResult,
+  HttpClientConfig,
+  BatchFormat,
+  BatchCompression,
+} from "../types";
+import { IngestError, isRetryableStatus, parseRetryAfter } from "../core/errors";
 
 /** Default timeout in milliseconds */
 const DEFAULT_TIMEOUT_MS = 5000;
 
+/** Default max uncompressed batch payload size (1MB) */
+const DEFAULT_MAX_BATCH_BYTES = 1024 * 1024;
+
+const encoder = new TextEncoder();
+
 export class HttpClient {
   private timeoutMs: number;
+  private batchIngestUrl: string;
+  private batchFormat: BatchFormat;
+  private compression: BatchCompression;
+  private maxBatchBytes: number;
 
   constructor(private config: HttpClientConfig) {
     this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.batchIngestUrl =
+      config.batchIngestUrl || `${config.ingestUrl.replace(/\/+$/, "")}/batch`;
+    this.batchFormat = config.batchFormat ?? "ndjson";
+    this.compression = config.compression ?? "gzip";
+    this.maxBatchBytes = config.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES;
   }
 
   /**
    * Send single event to ingest API
    *
-   * @param event - The raw request event to send
+   * @param event - The event to send
    * @returns Promise that resolves with the ingest response
-   * @throws Error if the API request fails or returns non-success response
+   * @throws IngestError if the API request fails or returns non-success response
    */
-  async sendEvent(event: RawRequestEvent): Promise<IngestResponse> {
+  async sendEvent(event: IngestEvent): Promise<IngestResponse> {
     const startTime = performance.now();
 
-    // Create AbortController for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
-
     try {
-      const response = await fetch(this.config.ingestUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "X-API-Key": this.config.apiKey,
-        },
-        body: JSON.stringify(event),
-        signal: controller.signal,
+      const response = await this.post(this.config.ingestUrl, JSON.stringify(event), {
+        "Content-Type": "application/json",
       });
 
-      // Parse response
-      const data = await response.json() as IngestResponse;
+      // Parse response (error responses may not be JSON)
+      const data = await response.json().catch(() => ({})) as Partial<IngestResponse>;
 
       if (this.config.debug) {
         console.log(
@@ -57,22 +70,181 @@ export class HttpClient {
 
       // Check if request was successful
       if (!response.ok) {
-        throw new Error(
-          data.error || `HTTP ${response.status}: ${response.statusText}`,
+        throw httpError(response, data.error);
+      }
+
+      // Check if the ingest was successful (not stored, may succeed on retry)
+      if (!data.success) {
+        throw new IngestError(data.error || "Ingest failed without error message", {
+          status: response.status,
+          retryable: true,
+        });
+      }
+
+      return data as IngestResponse;
+    } catch (error) {
+      if (this.config.debug) {
+        console.error(
+          `[BotMon] Event send failed after ${(performance.now() - startTime).toFixed(2)}ms`,
         );
       }
+      throw error;
+    }
+  }
+
+  /**
+   * Send many events to the batch ingest API
+   *
+   * Events are encoded as NDJSON (or a JSON array) and gzip-compressed.
+   * Payloads larger than `maxBatchBytes` are split into several requests.
+   *
+   * @param events - The events to send
+   * @returns Promise that resolves with one FlushResult per event (same order)
+   * @throws IngestError if any batch request fails or returns non-success response
+   */
+  async sendBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    const results: FlushResult[] = [];
+    for (const chunk of this.splitBatch(events)) {
+      results.push(...await this.postBatch(chunk));
+    }
+    return results;
+  }
+
+  /**
+   * Split events into chunks whose encoded size stays under `maxBatchBytes`
+   *
+   * An event that is larger than the limit on its own is sent as a
+   * single-event chunk rather than dropped.
+   */
+  splitBatch(events: IngestEvent[]): IngestEvent[][] {
+    const chunks: IngestEvent[][] = [];
+    let current: IngestEvent[] = [];
+    // Account for the JSON array brackets up front
+    let currentBytes = this.batchFormat === "json" ? 2 : 0;
+
+    for (const event of events) {
+      // +1 for the newline (ndjson) or comma (json) separator
+      const eventBytes = encoder.encode(JSON.stringify(event)).length + 1;
+
+      if (current.length > 0 && currentBytes + eventBytes > this.maxBatchBytes) {
+        chunks.push(current);
+        current = [];
+        currentBytes = this.batchFormat === "json" ? 2 : 0;
+      }
+
+      current.push(event);
+      currentBytes += eventBytes;
+    }
+
+    if (current.length > 0) {
+      chunks.push(current);
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Post a single (already size-limited) chunk of events
+   */
+  private async postBatch(events: IngestEvent[]): Promise<FlushResult[]> {
+    const startTime = performance.now();
+
+    const payload = this.batchFormat === "json"
+      ? JSON.stringify(events)
+      : events.map((event) => JSON.stringify(event)).join("\n") + "\n";
+
+    const headers: Record<string, string> = {
+      "Content-Type": this.batchFormat === "json" ? "application/json" : "application/x-ndjson",
+    };
+
+    let body: BodyInit = payload;
+    let compressed: ArrayBuffer | undefined;
+    if (this.compression === "gzip") {
+      body = compressed = await gzip(payload);
+      headers["Content-Encoding"] = "gzip";
+    }
+
+    try {
+      const response = await this.post(this.batchIngestUrl, body, headers);
+
+      // Error responses may not be JSON
+      const data = await response.json().catch(() => ({})) as Partial<IngestBatchResponse>;
+
+      if (this.config.debug) {
+        console.log(
+          `[BotMon] Batch of ${events.length} events sent in ${(performance.now() - startTime).toFixed(2)}ms:`,
+          {
+            success: data.success,
+            // Request body size on the wire (after compression)
+            bytes: compressed?.byteLength ?? encoder.encode(payload).byteLength,
+            compression: this.compression,
+          },
+        );
+      }
+
+      // Check if request was successful
+      if (!response.ok) {
+        throw httpError(response, data.error);
+      }
+
+      // Per-event results when the API provides them
+      if (Array.isArray(data.results) && data.results.length === events.length) {
+        return data.results.map((result) => ({
+          success: result.success,
+          eventId: result.eventId,
+          error: result.error,
+        }));
+      }
 
       // Check if the ingest was successful
       if (!data.success) {
-        throw new Error(data.error || "Ingest failed without error message");
+        throw new IngestError(data.error || "Batch ingest failed without error message", {
+          status: response.status,
+          retryable: true,
+        });
       }
 
-      return data;
+      return events.map(() => ({ success: true }));
+    } catch (error) {
+      if (this.config.debug) {
+        console.error(
+          `[BotMon] Batch send failed after ${(performance.now() - startTime).toFixed(2)}ms`,
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * POST to the ingest API with auth header and timeout
+   *
+   * @throws IngestError (retryable) on timeout or network failure
+   */
+  private async post(
+    url: string,
+    body: BodyInit,
+    headers: Record<string, string>,
+  ): Promise<Response> {
+    // Create AbortController for timeout
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+
+    try {
+      return await fetch(url, {
+        method: "POST",
+        headers: {
+          ...headers,
+          "X-API-Key": this.config.apiKey,
+        },
+        body,
+        signal: controller.signal,
+      });
     } catch (error) {
       // Handle abort errors (timeout)
       if (error instanceof Error && error.name === "AbortError") {
-        const timeoutError = new Error(
+        const timeoutError = new IngestError(
           `[BotMon] Request timed out after ${this.timeoutMs}ms`,
+          { retryable: true, cause: error },
         );
         if (this.config.debug) {
           console.error(timeoutError.message);
@@ -80,14 +252,35 @@ export class HttpClient {
         throw timeoutError;
       }
 
-      if (this.config.debug) {
-        console.error(
-          `[BotMon] Event send failed after ${(performance.now() - startTime).toFixed(2)}ms`,
-        );
-      }
-      throw error;
+      // Network failure (DNS, connection reset, ...)
+      throw new IngestError(
+        `[BotMon] Request failed: ${(error as Error)?.message || String(error)}`,
+        { retryable: true, cause: error },
+      );
     } finally {
       clearTimeout(timeoutId);
     }
   }
 }
+
+/**
+ * Build a typed error from a non-2xx ingest response
+ */
+function httpError(response: Response, message?: string): IngestError {
+  return new IngestError(
+    message || `HTTP ${response.status}: ${response.statusText}`,
+    {
+      status: response.status,
+      retryable: isRetryableStatus(response.status),
+      retryAfterMs: parseRetryAfter(response.headers.get("Retry-After")),
+    },
+  );
+}
+
+/**
+ * Gzip-compress a string with the Web Streams CompressionStream API
+ */
+async function gzip(data: string): Promise<ArrayBuffer> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream("gzip"));
+  return new Response(stream).arrayBuffer();
+}
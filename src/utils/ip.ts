@@ -0,0 +1,114 @@
+/**
+ * IP Address Utilities
+ */
+
+/**
+ * Parsed IP address
+ */
+export interface ParsedIp {
+  version: 4 | 6;
+  /** Address bytes (4 for IPv4, 16 for IPv6) */
+  bytes: number[];
+}
+
+/**
+ * Parsed CIDR range
+ */
+export interface ParsedCidr extends ParsedIp {
+  prefix: number;
+}
+
+/**
+ * Expand an IPv6 address into 8 hextets, or return null if invalid
+ */
+export function expandIpv6(ip: string): number[] | null {
+  const halves = ip.split("::");
+  if (halves.length > 2) return null;
+
+  const parse = (part: string) => (part ? part.split(":") : []);
+  const head = parse(halves[0]);
+  const tail = halves.length === 2 ? parse(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const hextets = [...head, ...Array(missing).fill("0"), ...tail].map((h) =>
+    /^[0-9a-f]{1,4}$/i.test(h) ? parseInt(h, 16) : NaN,
+  );
+  return hextets.some(Number.isNaN) ? null : hextets;
+}
+
+/**
+ * Parse an IPv4 or IPv6 address (IPv4-mapped IPv6 is parsed as IPv4)
+ */
+export function parseIp(ip: string): ParsedIp | null {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(ip.trim());
+  const candidate = mapped ? mapped[1] : ip.trim();
+
+  const octets = candidate.split(".");
+  if (octets.length === 4) {
+    if (!octets.every((o) => /^\d{1,3}$/.test(o) && Number(o) <= 255)) return null;
+    return { version: 4, bytes: octets.map(Number) };
+  }
+
+  const hextets = expandIpv6(candidate);
+  if (!hextets) return null;
+  return { version: 6, bytes: hextets.flatMap((h) => [h >> 8, h & 0xff]) };
+}
+
+/**
+ * Parse a CIDR range such as "66.249.64.0/19" (a bare address is a single host)
+ */
+export function parseCidr(cidr: string): ParsedCidr | null {
+  const [address, prefixPart] = cidr.trim().split("/");
+  const ip = parseIp(address);
+  if (!ip) return null;
+
+  const maxPrefix = ip.bytes.length * 8;
+  const prefix = prefixPart === undefined ? maxPrefix : Number(prefixPart);
+  if (!Number.isInteger(prefix) || prefix < 0 || prefix > maxPrefix) return null;
+
+  return { ...ip, prefix };
+}
+
+/**
+ * Check whether an address falls inside a CIDR range
+ */
+export function ipInCidr(ip: ParsedIp, cidr: ParsedCidr): boolean {
+  if (ip.version !== cidr.version) return false;
+
+  const fullBytes = Math.floor(cidr.prefix / 8);
+  for (let i = 0; i < fullBytes; i++) {
+    if (ip.bytes[i] !== cidr.bytes[i]) return false;
+  }
+
+  const remainingBits = cidr.prefix % 8;
+  if (remainingBits === 0) return true;
+  const mask = (0xff << (8 - remainingBits)) & 0xff;
+  return (ip.bytes[fullBytes] & mask) === (cidr.bytes[fullBytes] & mask);
+}
+
+/**
+ * Canonical string form of a parsed address, for comparing addresses
+ * written differently (e.g. "2001:db8::1" and "2001:0db8:0:0:0:0:0:1")
+ */
+export function formatIp(ip: ParsedIp): string {
+  if (ip.version === 4) return ip.bytes.join(".");
+
+  const hextets: string[] = [];
+  for (let i = 0; i < 16; i += 2) {
+    hextets.push(((ip.bytes[i] << 8) | ip.bytes[i + 1]).toString(16));
+  }
+  return hextets.join(":");
+}
+
+/**
+ * Reverse DNS (PTR) query name for an address
+ */
+export function reverseDnsName(ip: ParsedIp): string {
+  if (ip.version === 4) {
+    return `${[...ip.bytes].reverse().join(".")}.in-addr.arpa`;
+  }
+
+  const nibbles = ip.bytes.flatMap((b) => [(b >> 4).toString(16), (b & 0xf).toString(16)]);
+  return `${nibbles.reverse().join(".")}.ip6.arpa`;
+}
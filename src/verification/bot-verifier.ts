@@ -0,0 +1,308 @@
+/**
+ * Bot Verifier
+ *
+ * Checks that a request claiming to be a known crawler (by User-Agent)
+ * really comes from its operator. The client IP is matched against the
+ * operator's published ranges; optionally, forward-confirmed reverse DNS
+ * (PTR lookup, domain check, then forward lookup back to the same IP)
+ * is used when the IP isn't in a range.
+ *
+ * Bundled ranges are a partial snapshot, so an IP outside them only
+ * counts as spoofed once the operator's published lists have been loaded
+ * or when the ranges were supplied in `sources`. Otherwise the claim is
+ * "unknown". Lists are loaded in the background on first use (kept alive
+ * with `waitUntil`) and cached for `rangesTtl`, or on a schedule with
+ * `refresh()`, so verification never waits on a range fetch.
+ */
+
+import { parseCidr, parseIp, ipInCidr, formatIp, type ParsedCidr, type ParsedIp } from "../utils/ip";
+import { DEFAULT_VERIFICATION_SOURCES, parsePublishedRanges } from "./sources";
+import { DohResolver } from "./doh-resolver";
+import { UserAgentMatcher } from "../classification/ua-matcher";
+import type {
+  BotVerificationConfig,
+  BotVerificationResult,
+  BotVerificationSource,
+  DnsResolver,
+} from "../types/verification.types";
+
+/**
+ * Default reverse DNS cache TTL (1 hour)
+ */
+const DEFAULT_CACHE_TTL = 3600;
+
+/** Maximum cached reverse DNS results per isolate */
+const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Default published range list TTL (24 hours)
+ */
+const DEFAULT_RANGES_TTL = 86400;
+
+/** Wait before retrying a failed range list load */
+const REFRESH_RETRY_MS = 300_000;
+
+/** Range list fetch timeout */
+const FETCH_TIMEOUT_MS = 3000;
+
+interface CompiledSource {
+  operator: string;
+  userAgents: string[];
+  ranges: ParsedCidr[];
+  domains: string[];
+  rangesUrls: string[];
+  /** Ranges were supplied in config (not the bundled snapshot) */
+  configured: boolean;
+  /** When the published lists were last loaded (0 = never) */
+  refreshedAt: number;
+  /** No lazy load before this time (after a failure) */
+  retryAt: number;
+  /** Background load in progress */
+  loading: Promise<boolean> | null;
+}
+
+/**
+ * Operator UA token for the matcher
+ */
+interface SourcePattern {
+  pattern: string;
+  source: CompiledSource;
+}
+
+/**
+ * Result of a range refresh
+ */
+export interface RefreshResult {
+  /** Operators whose ranges were replaced */
+  updated: string[];
+  /** Operators whose lists couldn't be fetched or parsed (ranges kept) */
+  failed: string[];
+}
+
+const UNKNOWN: BotVerificationResult = { status: "unknown" };
+
+export class BotVerifier {
+  private sources: CompiledSource[];
+  private matcher: UserAgentMatcher<SourcePattern>;
+  private resolver: DnsResolver | null;
+  private cacheTtlMs: number;
+  private rangesTtlMs: number;
+  private cache = new Map<string, { result: BotVerificationResult; expiresAt: number }>();
+
+  constructor(private config: BotVerificationConfig = {}) {
+    const merged = { ...DEFAULT_VERIFICATION_SOURCES, ...config.sources };
+    this.sources = Object.entries(merged).map(([operator, source]) =>
+      compileSource(operator, source, config.sources?.[operator]?.ranges !== undefined),
+    );
+    this.matcher = new UserAgentMatcher(
+      this.sources.flatMap((source) => source.userAgents.map((pattern) => ({ pattern, source }))),
+    );
+    this.resolver = config.reverseDns
+      ? config.resolver ?? new DohResolver(config.dohEndpoint)
+      : null;
+    this.cacheTtlMs = (config.cacheTtl ?? DEFAULT_CACHE_TTL) * 1000;
+    this.rangesTtlMs = (config.rangesTtl ?? DEFAULT_RANGES_TTL) * 1000;
+  }
+
+  /**
+   * Verify a request's crawler claim
+   *
+   * @param request - Incoming request (User-Agent and CF-Connecting-IP are read)
+   * @param providerVerified - The edge provider already verified this bot
+   * @param waitUntil - Keeps a background range load alive (e.g. `ctx.waitUntil`)
+   */
+  async verify(
+    request: Request,
+    providerVerified = false,
+    waitUntil?: (promise: Promise<unknown>) => void,
+  ): Promise<BotVerificationResult> {
+    if (this.config.enabled === false) return UNKNOWN;
+
+    const source = this.findSource(request.headers.get("User-Agent") || "");
+    if (!source) return UNKNOWN;
+
+    const { operator } = source;
+    if (providerVerified) {
+      return { status: "verified", operator, method: "provider" };
+    }
+
+    const ip = parseIp(request.headers.get("CF-Connecting-IP") || "");
+    if (!ip) return { status: "unknown", operator };
+
+    const inRange = () => source.ranges.some((range) => ipInCidr(ip, range));
+    if (inRange()) {
+      return { status: "verified", operator, method: "ip-range" };
+    }
+
+    if (this.resolver && source.domains.length > 0) {
+      return this.verifyReverseDns(source, ip);
+    }
+
+    // The bundled snapshot may be missing ranges: load the current lists
+    // for later requests, without holding up this one
+    const loading = this.loadRanges(source);
+    if (loading) waitUntil?.(loading);
+
+    // Only a current list proves the IP isn't the operator's
+    return this.isAuthoritative(source)
+      ? { status: "spoofed", operator, method: "ip-range" }
+      : { status: "unknown", operator };
+  }
+
+  /**
+   * Reload ranges from each operator's published lists
+   *
+   * Operators are updated only when all of their lists load; otherwise
+   * the current ranges are kept.
+   */
+  async refresh(fetcher: typeof fetch = (input, init) => fetch(input, init)): Promise<RefreshResult> {
+    const result: RefreshResult = { updated: [], failed: [] };
+
+    await Promise.all(
+      this.sources
+        .filter((source) => source.rangesUrls.length > 0)
+        .map(async (source) => {
+          const updated = await this.refreshSource(source, fetcher);
+          (updated ? result.updated : result.failed).push(source.operator);
+        }),
+    );
+
+    return result;
+  }
+
+  /**
+   * Load an operator's published lists
+   *
+   * @returns Whether the ranges were replaced
+   */
+  private async refreshSource(source: CompiledSource, fetcher: typeof fetch): Promise<boolean> {
+    try {
+      const lists = await Promise.all(
+        source.rangesUrls.map(async (url) => {
+          const response = await fetcher(url, { signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return parsePublishedRanges(await response.json());
+        }),
+      );
+      const ranges = compileRanges(lists.flat());
+      if (ranges.length === 0) throw new Error("no ranges");
+
+      source.ranges = ranges;
+      source.refreshedAt = Date.now();
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Start loading an operator's published lists when they are missing or
+   * older than `rangesTtl` (one load at a time; failures are retried
+   * after a pause)
+   *
+   * @returns The load started by this call, if any
+   */
+  private loadRanges(source: CompiledSource): Promise<boolean> | null {
+    if (this.config.refreshRanges === false || source.rangesUrls.length === 0) return null;
+    if (source.loading) return null;
+
+    const now = Date.now();
+    if (this.isFresh(source, now) || now < source.retryAt) return null;
+
+    source.loading = this.refreshSource(source, (input, init) => fetch(input, init)).then((updated) => {
+      if (!updated) source.retryAt = Date.now() + REFRESH_RETRY_MS;
+      source.loading = null;
+      return updated;
+    });
+    return source.loading;
+  }
+
+  private isFresh(source: CompiledSource, now = Date.now()): boolean {
+    return source.refreshedAt > 0 && now - source.refreshedAt < this.rangesTtlMs;
+  }
+
+  /**
+   * Whether an IP outside the operator's ranges can be called spoofed
+   * (loaded lists stay in force while they are being reloaded)
+   */
+  private isAuthoritative(source: CompiledSource): boolean {
+    if (source.ranges.length === 0) return false;
+    return source.configured || this.isFresh(source) || (source.refreshedAt > 0 && source.loading !== null);
+  }
+
+  /**
+   * Find the operator whose User-Agent tokens appear in the UA
+   * (word-bounded, like the bot catalog)
+   */
+  private findSource(userAgent: string): CompiledSource | undefined {
+    return this.matcher.match(userAgent)?.entry.source;
+  }
+
+  /**
+   * Forward-confirmed reverse DNS, cached per operator and IP
+   */
+  private async verifyReverseDns(source: CompiledSource, ip: ParsedIp): Promise<BotVerificationResult> {
+    const address = formatIp(ip);
+    const key = `${source.operator}|${address}`;
+    const now = Date.now();
+
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > now) return cached.result;
+
+    let result: BotVerificationResult;
+    try {
+      const verified = await this.forwardConfirm(source, address);
+      result = { status: verified ? "verified" : "spoofed", operator: source.operator, method: "reverse-dns" };
+    } catch {
+      // Lookup failures are inconclusive and not cached
+      return { status: "unknown", operator: source.operator };
+    }
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    this.cache.set(key, { result, expiresAt: now + this.cacheTtlMs });
+    return result;
+  }
+
+  /**
+   * Check that a PTR hostname is under the operator's domains and
+   * resolves back to the same address
+   */
+  private async forwardConfirm(source: CompiledSource, address: string): Promise<boolean> {
+    const hostnames = await this.resolver!.resolvePtr(address);
+    const candidates = hostnames
+      .map((hostname) => hostname.toLowerCase())
+      .filter((hostname) => source.domains.some((domain) => hostname.endsWith(`.${domain}`)));
+
+    for (const hostname of candidates) {
+      const addresses = await this.resolver!.resolveAddresses(hostname);
+      const matches = addresses.some((candidate) => {
+        const parsed = parseIp(candidate);
+        return parsed !== null && formatIp(parsed) === address;
+      });
+      if (matches) return true;
+    }
+    return false;
+  }
+}
+
+function compileRanges(ranges: string[]): ParsedCidr[] {
+  return ranges
+    .map((range) => parseCidr(range))
+    .filter((range): range is ParsedCidr => range !== null);
+}
+
+function compileSource(operator: string, source: BotVerificationSource, configured: boolean): CompiledSource {
+  return {
+    operator,
+    userAgents: source.userAgents.map((token) => token.toLowerCase()),
+    ranges: compileRanges(source.ranges ?? []),
+    domains: (source.domains ?? []).map((domain) => domain.toLowerCase()),
+    rangesUrls: source.rangesUrls ?? [],
+    configured,
+    refreshedAt: 0,
+    retryAt: 0,
+    loading: null,
+  };
+}
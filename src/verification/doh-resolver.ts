@@ -0,0 +1,63 @@
+/**
+ * DNS-over-HTTPS Resolver
+ *
+ * Resolves PTR, A and AAAA records through a DoH JSON API (Workers have
+ * no native DNS lookups).
+ */
+
+import { parseIp, reverseDnsName } from "../utils/ip";
+import type { DnsResolver } from "../types/verification.types";
+
+/**
+ * Default DoH endpoint (Cloudflare JSON API)
+ */
+export const DEFAULT_DOH_ENDPOINT = "https://cloudflare-dns.com/dns-query";
+
+/** DNS record type codes used in DoH JSON answers */
+const RECORD_TYPES = { A: 1, PTR: 12, AAAA: 28 } as const;
+
+type RecordType = keyof typeof RECORD_TYPES;
+
+interface DohAnswer {
+  type: number;
+  data: string;
+}
+
+export class DohResolver implements DnsResolver {
+  constructor(
+    private endpoint: string = DEFAULT_DOH_ENDPOINT,
+    private fetcher: typeof fetch = (input, init) => fetch(input, init),
+  ) {}
+
+  async resolvePtr(ip: string): Promise<string[]> {
+    const parsed = parseIp(ip);
+    if (!parsed) return [];
+    return this.query(reverseDnsName(parsed), "PTR");
+  }
+
+  async resolveAddresses(hostname: string): Promise<string[]> {
+    const [v4, v6] = await Promise.all([
+      this.query(hostname, "A"),
+      this.query(hostname, "AAAA"),
+    ]);
+    return [...v4, ...v6];
+  }
+
+  /**
+   * Run a single DoH query and return the matching answers (trailing dots removed)
+   */
+  private async query(name: string, type: RecordType): Promise<string[]> {
+    const url = `${this.endpoint}?name=${encodeURIComponent(name)}&type=${type}`;
+    const response = await this.fetcher(url, {
+      headers: { Accept: "application/dns-json" },
+    });
+    if (!response.ok) {
+      throw new Error(`[BotMon] DoH query for ${name} (${type}) failed: HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as { Answer?: DohAnswer[] };
+    return (body.Answer ?? [])
+      .filter((answer) => answer.type === RECORD_TYPES[type])
+      .map((answer) => answer.data.replace(/\.$/, ""));
+  }
+}
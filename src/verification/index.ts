@@ -0,0 +1,17 @@
+/**
+ * Verification
+ *
+ * Authenticates requests that claim to be known crawlers, and agents
+ * that sign their requests (Web Bot Auth).
+ */
+
+export { BotVerifier, type RefreshResult } from "./bot-verifier";
+export { DohResolver, DEFAULT_DOH_ENDPOINT } from "./doh-resolver";
+export { DEFAULT_VERIFICATION_SOURCES, parsePublishedRanges } from "./sources";
+export { WebBotAuthVerifier, DEFAULT_TRUSTED_AGENTS, type WebBotAuthResult } from "./web-bot-auth";
+export {
+  HttpKeyDirectory,
+  StaticKeyDirectory,
+  jwkThumbprint,
+  KEY_DIRECTORY_PATH,
+} from "./key-directory";
@@ -0,0 +1,128 @@
+/**
+ * Web Bot Auth Key Directories
+ *
+ * Signing agents publish their Ed25519 public keys as a JWK set at
+ * `/.well-known/http-message-signatures-directory` on their origin.
+ * Keys are identified by their RFC 7638 JWK thumbprint.
+ */
+
+import { toBase64Url } from "../utils/crypto";
+import type { KeyDirectory } from "../types/verification.types";
+
+/**
+ * Well-known path of the key directory
+ */
+export const KEY_DIRECTORY_PATH = "/.well-known/http-message-signatures-directory";
+
+/**
+ * Default key directory cache TTL (1 hour)
+ */
+const DEFAULT_CACHE_TTL = 3600;
+
+/**
+ * Cache TTL for a directory that couldn't be loaded (1 minute)
+ */
+const FAILED_CACHE_TTL = 60;
+
+/** Directory fetch timeout */
+const FETCH_TIMEOUT_MS = 3000;
+
+/** Maximum accepted directory size (bytes) */
+const MAX_DIRECTORY_BYTES = 64 * 1024;
+
+/** Maximum cached directories per isolate */
+const MAX_CACHE_ENTRIES = 100;
+
+/**
+ * RFC 7638 JWK thumbprint (SHA-256, base64url) of an Ed25519 public key
+ */
+export async function jwkThumbprint(jwk: JsonWebKey): Promise<string> {
+  // Required members only, in lexicographic order
+  const canonical = JSON.stringify({ crv: jwk.crv, kty: jwk.kty, x: jwk.x });
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonical));
+  return toBase64Url(digest);
+}
+
+/**
+ * Keep Ed25519 public keys from a JWK set
+ */
+function ed25519Keys(directory: unknown): JsonWebKey[] {
+  const keys = (directory as { keys?: unknown })?.keys;
+  if (!Array.isArray(keys)) return [];
+
+  return keys.filter(
+    (key): key is JsonWebKey =>
+      key?.kty === "OKP" && key?.crv === "Ed25519" && typeof key?.x === "string",
+  );
+}
+
+/**
+ * Fetches key directories from agent origins, cached per isolate
+ *
+ * Failed lookups are cached too, so a bad Signature-Agent header can't
+ * make every request trigger an outbound fetch, but only for a minute
+ * (or `cacheTtl` if shorter), so an agent's outage doesn't outlast it.
+ */
+export class HttpKeyDirectory implements KeyDirectory {
+  private cache = new Map<string, { keys: Promise<JsonWebKey[]>; expiresAt: number }>();
+  private cacheTtlMs: number;
+  private failedCacheTtlMs: number;
+
+  constructor(
+    cacheTtl: number = DEFAULT_CACHE_TTL,
+    private fetcher: typeof fetch = (input, init) => fetch(input, init),
+  ) {
+    this.cacheTtlMs = cacheTtl * 1000;
+    this.failedCacheTtlMs = Math.min(cacheTtl, FAILED_CACHE_TTL) * 1000;
+  }
+
+  getKeys(agent: string): Promise<JsonWebKey[]> {
+    const now = Date.now();
+    const cached = this.cache.get(agent);
+    if (cached && cached.expiresAt > now) return cached.keys;
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    const entry = { keys: Promise.resolve<JsonWebKey[]>([]), expiresAt: now + this.cacheTtlMs };
+    entry.keys = this.fetchKeys(agent).then((keys) => {
+      if (keys === null) entry.expiresAt = Date.now() + this.failedCacheTtlMs;
+      return keys ?? [];
+    });
+    this.cache.set(agent, entry);
+    return entry.keys;
+  }
+
+  /**
+   * @returns The directory's Ed25519 keys, or null if it couldn't be loaded
+   */
+  private async fetchKeys(agent: string): Promise<JsonWebKey[] | null> {
+    try {
+      const response = await this.fetcher(`${agent}${KEY_DIRECTORY_PATH}`, {
+        headers: { Accept: "application/http-message-signatures-directory+json" },
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+      if (!response.ok) return null;
+
+      const body = await response.text();
+      if (body.length > MAX_DIRECTORY_BYTES) return null;
+      return ed25519Keys(JSON.parse(body));
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Fixed key directories keyed by agent origin
+ *
+ * Use it to pin keys for known agents without outbound fetches, or as a
+ * local stub in tests.
+ */
+export class StaticKeyDirectory implements KeyDirectory {
+  constructor(private directories: Record<string, { keys: JsonWebKey[] }>) {}
+
+  async getKeys(agent: string): Promise<JsonWebKey[]> {
+    return ed25519Keys(this.directories[agent]);
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Bundled Verification Sources
+ *
+ * Crawler operators with their published IP ranges and reverse DNS
+ * domains. The ranges are a partial snapshot taken with each SDK release:
+ * they can verify a crawler but not prove a claim false. BotVerifier loads
+ * the published lists (`rangesUrls`) for that; pass `verification.sources`
+ * to supply ranges of your own.
+ *
+ * Operators without ranges or lists return "unknown" unless reverse DNS
+ * is enabled.
+ */
+
+import type { BotVerificationSource } from "../types/verification.types";
+
+export const DEFAULT_VERIFICATION_SOURCES: Record<string, BotVerificationSource> = {
+  google: {
+    userAgents: [
+      "Googlebot",
+      "Google-InspectionTool",
+      "GoogleOther",
+      "Google-CloudVertexBot",
+      "Storebot-Google",
+      "AdsBot-Google",
+      "Mediapartners-Google",
+    ],
+    ranges: ["66.249.64.0/19", "2001:4860:4801::/48"],
+    // Not all of googleusercontent.com: *.bc.googleusercontent.com is any Cloud VM
+    domains: ["googlebot.com", "google.com", "gae.googleusercontent.com"],
+    rangesUrls: [
+      "https://developers.google.com/static/search/apis/ipranges/googlebot.json",
+      "https://developers.google.com/static/search/apis/ipranges/special-crawlers.json",
+    ],
+  },
+  bing: {
+    userAgents: ["bingbot", "BingPreview", "AdIdxBot"],
+    ranges: [
+      "13.66.139.0/24",
+      "13.66.144.0/24",
+      "40.77.167.0/24",
+      "52.167.144.0/24",
+      "157.55.39.0/24",
+      "199.30.24.0/23",
+      "207.46.13.0/24",
+    ],
+    domains: ["search.msn.com"],
+    rangesUrls: ["https://www.bing.com/toolbox/bingbot.json"],
+  },
+  openai: {
+    userAgents: ["GPTBot", "ChatGPT-User", "OAI-SearchBot"],
+    ranges: [
+      "4.227.36.0/25",
+      "20.42.10.176/28",
+      "20.171.206.0/24",
+      "20.171.207.0/24",
+      "51.8.102.0/24",
+      "52.230.152.0/24",
+      "52.233.106.0/24",
+      "172.203.190.128/28",
+    ],
+    rangesUrls: [
+      "https://openai.com/gptbot.json",
+      "https://openai.com/searchbot.json",
+      "https://openai.com/chatgpt-user.json",
+    ],
+  },
+  anthropic: {
+    userAgents: ["ClaudeBot", "Claude-User", "Claude-SearchBot", "Anthropic-AI"],
+  },
+  perplexity: {
+    userAgents: ["PerplexityBot", "Perplexity-User"],
+    rangesUrls: [
+      "https://www.perplexity.com/perplexitybot.json",
+      "https://www.perplexity.com/perplexity-user.json",
+    ],
+  },
+  apple: {
+    userAgents: ["Applebot"],
+    ranges: ["17.0.0.0/8"],
+    domains: ["applebot.apple.com"],
+    rangesUrls: ["https://search.developer.apple.com/applebot.json"],
+  },
+  amazon: {
+    userAgents: ["Amazonbot"],
+    domains: ["crawl.amazonbot.amazon"],
+  },
+  commoncrawl: {
+    userAgents: ["CCBot"],
+    domains: ["crawl.commoncrawl.org"],
+  },
+};
+
+/**
+ * Parse a published range list in the googlebot.json format
+ * (`{ "prefixes": [{ "ipv4Prefix": "..." }, { "ipv6Prefix": "..." }] }`)
+ */
+export function parsePublishedRanges(json: unknown): string[] {
+  const prefixes = (json as { prefixes?: unknown })?.prefixes;
+  if (!Array.isArray(prefixes)) return [];
+
+  return prefixes
+    .map((prefix) => prefix?.ipv4Prefix ?? prefix?.ipv6Prefix)
+    .filter((range): range is string => typeof range === "string");
+}
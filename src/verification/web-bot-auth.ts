@@ -0,0 +1,363 @@
+/**
+ * Web Bot Auth
+ *
+ * Verifies RFC 9421 HTTP Message Signatures sent by signing agents
+ * (Signature, Signature-Input and Signature-Agent headers). The agent's
+ * Ed25519 key is looked up by thumbprint (`keyid`) in the key directory
+ * published at the Signature-Agent origin.
+ *
+ * Only signatures tagged "web-bot-auth" that cover `@authority` (and
+ * `signature-agent` when that header is sent) are accepted, and only from
+ * trusted agents: anyone can publish a key directory, so an unknown
+ * agent's signature proves nothing and its directory is never fetched.
+ */
+
+import { fromBase64Url } from "../utils/crypto";
+import { HttpKeyDirectory, jwkThumbprint } from "./key-directory";
+import type { KeyDirectory, SignedAgent, WebBotAuthConfig } from "../types/verification.types";
+
+/**
+ * Signature tag required by Web Bot Auth
+ */
+const WEB_BOT_AUTH_TAG = "web-bot-auth";
+
+/**
+ * Default tolerated clock skew (60 seconds)
+ */
+const DEFAULT_CLOCK_SKEW = 60;
+
+/**
+ * Known signing agents by origin, with the operator they sign for
+ * (matches the bot catalog's `operator`)
+ */
+export const DEFAULT_TRUSTED_AGENTS: Record<string, string> = {
+  "https://chatgpt.com": "OpenAI",
+};
+
+type ParamValue = string | number | boolean;
+
+/**
+ * Structured field item: raw text plus its parsed value and parameters
+ */
+interface ParsedItem {
+  raw: string;
+  value: string;
+  params: Map<string, ParamValue>;
+}
+
+/**
+ * Result of verifying a request's signature
+ */
+export interface WebBotAuthResult {
+  status: "verified" | "invalid" | "unsigned";
+  signedAgent?: SignedAgent;
+  /** Why an invalid signature was rejected */
+  reason?: string;
+}
+
+/**
+ * Split a structured field at a delimiter, ignoring delimiters inside
+ * quoted strings and inner lists
+ */
+function splitTopLevel(value: string, delimiter: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let start = 0;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (quoted) {
+      if (char === "\\") i++;
+      else if (char === "\"") quoted = false;
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === "(") {
+      depth++;
+    } else if (char === ")") {
+      depth--;
+    } else if (char === delimiter && depth === 0) {
+      parts.push(value.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(value.slice(start));
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+/**
+ * Parse a bare item (quoted string, integer, byte sequence or token)
+ */
+function parseBareItem(raw: string): ParamValue {
+  if (raw.startsWith("\"") && raw.endsWith("\"")) {
+    return raw.slice(1, -1).replace(/\\(["\\])/g, "$1");
+  }
+  if (/^-?\d+$/.test(raw)) return Number(raw);
+  return raw;
+}
+
+/**
+ * Parse `;key=value` parameters
+ */
+function parseParams(parts: string[]): Map<string, ParamValue> {
+  const params = new Map<string, ParamValue>();
+  for (const part of parts) {
+    const index = part.indexOf("=");
+    if (index === -1) params.set(part, true);
+    else params.set(part.slice(0, index), parseBareItem(part.slice(index + 1)));
+  }
+  return params;
+}
+
+/**
+ * Parse an item with parameters, e.g. `"signature-agent";key="sig1"`
+ */
+function parseItem(raw: string): ParsedItem {
+  const [value, ...params] = splitTopLevel(raw, ";");
+  return { raw, value: String(parseBareItem(value ?? "")), params: parseParams(params) };
+}
+
+/**
+ * Parse a structured field dictionary into raw member values
+ */
+function parseDictionary(value: string | null): Map<string, string> {
+  const members = new Map<string, string>();
+  for (const member of splitTopLevel(value ?? "", ",")) {
+    const index = member.indexOf("=");
+    if (index > 0) members.set(member.slice(0, index).trim(), member.slice(index + 1).trim());
+  }
+  return members;
+}
+
+/**
+ * Parse a Signature-Input member: `("@authority" ...);created=...;keyid="..."`
+ */
+function parseSignatureInput(raw: string): { components: ParsedItem[]; params: Map<string, ParamValue> } | null {
+  const match = /^\((.*)\)(.*)$/.exec(raw);
+  if (!match) return null;
+
+  const components = match[1].trim()
+    ? match[1].trim().split(/\s+(?=")/).map(parseItem)
+    : [];
+  return { components, params: parseParams(splitTopLevel(match[2], ";")) };
+}
+
+/**
+ * Value of a covered component, or null if it can't be resolved
+ */
+function componentValue(request: Request, url: URL, component: ParsedItem): string | null {
+  const name = component.value.toLowerCase();
+
+  switch (name) {
+    case "@method":
+      return request.method;
+    case "@authority":
+      return url.host.toLowerCase();
+    case "@scheme":
+      return url.protocol.slice(0, -1);
+    case "@target-uri":
+      return url.href;
+    case "@path":
+      return url.pathname;
+    case "@query":
+      return url.search || "?";
+    case "@request-target":
+      return `${url.pathname}${url.search}`;
+  }
+  if (name.startsWith("@")) return null;
+
+  const header = request.headers.get(name);
+  if (header === null) return null;
+
+  // Dictionary member selection (`;key="..."`)
+  const key = component.params.get("key");
+  if (typeof key === "string") {
+    return parseDictionary(header).get(key) ?? null;
+  }
+  return header.trim();
+}
+
+export class WebBotAuthVerifier {
+  private keyDirectory: KeyDirectory;
+  private clockSkew: number;
+  /** Trusted agent origins and their operators */
+  private trustedAgents: Map<string, string | undefined>;
+  private importedKeys = new Map<string, Promise<{ keyId: string; key: CryptoKey }>>();
+
+  constructor(private config: WebBotAuthConfig = {}) {
+    this.keyDirectory = config.keyDirectory ?? new HttpKeyDirectory(config.cacheTtl);
+    this.clockSkew = config.clockSkew ?? DEFAULT_CLOCK_SKEW;
+
+    const configured: Record<string, string | undefined> = Array.isArray(config.trustedAgents)
+      ? Object.fromEntries(config.trustedAgents.map((agent) => [agent, undefined]))
+      : config.trustedAgents ?? {};
+    this.trustedAgents = new Map(Object.entries({ ...DEFAULT_TRUSTED_AGENTS, ...configured }));
+  }
+
+  /**
+   * Verify the request's Web Bot Auth signature
+   *
+   * @param now - Current time in ms (for tests)
+   */
+  async verify(request: Request, now: number = Date.now()): Promise<WebBotAuthResult> {
+    const signatureInput = request.headers.get("Signature-Input");
+    const signatureHeader = request.headers.get("Signature");
+    if (this.config.enabled === false || (!signatureInput && !signatureHeader)) {
+      return { status: "unsigned" };
+    }
+
+    try {
+      return await this.verifySignature(request, signatureInput, signatureHeader, now / 1000);
+    } catch (error) {
+      return { status: "invalid", reason: (error as Error).message };
+    }
+  }
+
+  private async verifySignature(
+    request: Request,
+    signatureInput: string | null,
+    signatureHeader: string | null,
+    nowSeconds: number,
+  ): Promise<WebBotAuthResult> {
+    const invalid = (reason: string): WebBotAuthResult => ({ status: "invalid", reason });
+
+    // Find the Web Bot Auth signature among the request's signatures
+    const inputs = parseDictionary(signatureInput);
+    let label: string | undefined;
+    let input: ReturnType<typeof parseSignatureInput> = null;
+    for (const [candidate, raw] of inputs) {
+      const parsed = parseSignatureInput(raw);
+      if (parsed?.params.get("tag") === WEB_BOT_AUTH_TAG) {
+        label = candidate;
+        input = parsed;
+        break;
+      }
+    }
+    if (!label || !input) return invalid("no web-bot-auth signature");
+
+    const { components, params } = input;
+    const keyId = params.get("keyid");
+    const created = params.get("created");
+    const expires = params.get("expires");
+    const alg = params.get("alg");
+    if (typeof keyId !== "string") return invalid("missing keyid");
+    if (alg !== undefined && alg !== "ed25519") return invalid(`unsupported alg ${alg}`);
+    if (typeof created !== "number" || typeof expires !== "number") {
+      return invalid("missing created/expires");
+    }
+    if (created > nowSeconds + this.clockSkew || expires < nowSeconds - this.clockSkew) {
+      return invalid("signature expired or not yet valid");
+    }
+
+    // Required coverage
+    const covered = components.map((component) => component.value.toLowerCase());
+    const agentHeader = request.headers.get("Signature-Agent");
+    if (!covered.includes("@authority")) return invalid("@authority not covered");
+    if (!agentHeader) return invalid("missing Signature-Agent");
+    if (!covered.includes("signature-agent")) return invalid("signature-agent not covered");
+
+    const agent = this.resolveAgent(agentHeader, label, components);
+    if (!agent) return invalid("invalid Signature-Agent");
+    // Checked before the directory lookup, so unknown agents cost no fetch
+    if (!this.trustedAgents.has(agent)) return invalid(`untrusted agent ${agent}`);
+
+    // Signature bytes (sf-binary, standard base64)
+    const signatureValue = parseDictionary(signatureHeader).get(label);
+    const signature = signatureValue && /^:.*:$/.test(signatureValue)
+      ? fromBase64Url(signatureValue.slice(1, -1).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, ""))
+      : null;
+    if (!signature) return invalid("missing signature");
+
+    const base = this.signatureBase(request, components, inputs.get(label)!);
+    if (base === null) return invalid("covered component missing");
+
+    const key = await this.findKey(agent, keyId);
+    if (!key) return invalid(`unknown key ${keyId}`);
+
+    const valid = await crypto.subtle.verify(
+      { name: "Ed25519" },
+      key,
+      signature,
+      new TextEncoder().encode(base),
+    );
+    if (!valid) return invalid("signature mismatch");
+
+    const operator = this.trustedAgents.get(agent);
+    return { status: "verified", signedAgent: operator ? { agent, keyId, operator } : { agent, keyId } };
+  }
+
+  /**
+   * Agent origin from Signature-Agent (an sf-string, or a dictionary
+   * member selected by `key` or the signature label)
+   */
+  private resolveAgent(header: string, label: string, components: ParsedItem[]): string | null {
+    let value: string | undefined = header.trim();
+    if (!value.startsWith("\"")) {
+      const members = parseDictionary(header);
+      const component = components.find((c) => c.value.toLowerCase() === "signature-agent");
+      const key = component?.params.get("key");
+      value = members.get(typeof key === "string" ? key : label);
+    }
+    if (!value?.startsWith("\"")) return null;
+
+    try {
+      const url = new URL(String(parseBareItem(value)));
+      return url.protocol === "https:" ? url.origin : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * RFC 9421 signature base: one line per covered component, then
+   * `@signature-params` with the Signature-Input member as sent
+   */
+  private signatureBase(request: Request, components: ParsedItem[], signatureParams: string): string | null {
+    const url = new URL(request.url);
+    const lines: string[] = [];
+    for (const component of components) {
+      const value = componentValue(request, url, component);
+      if (value === null) return null;
+      lines.push(`${component.raw}: ${value}`);
+    }
+    lines.push(`"@signature-params": ${signatureParams}`);
+    return lines.join("\n");
+  }
+
+  /**
+   * Find the agent's key with the given thumbprint
+   */
+  private async findKey(agent: string, keyId: string): Promise<CryptoKey | null> {
+    const jwks = await this.keyDirectory.getKeys(agent);
+    for (const jwk of jwks) {
+      // Keys without a public value are skipped, as are keys that fail to import
+      if (typeof jwk.x !== "string") continue;
+      const imported = await this.importKey(jwk, jwk.x).catch(() => null);
+      if (imported?.keyId === keyId) return imported.key;
+    }
+    return null;
+  }
+
+  /**
+   * Import a JWK and compute its thumbprint (cached by public key;
+   * failed imports are evicted)
+   */
+  private importKey(jwk: JsonWebKey, x: string): Promise<{ keyId: string; key: CryptoKey }> {
+    let imported = this.importedKeys.get(x);
+    if (!imported) {
+      imported = (async () => ({
+        keyId: await jwkThumbprint(jwk),
+        key: await crypto.subtle.importKey(
+          "jwk",
+          { kty: "OKP", crv: "Ed25519", x },
+          { name: "Ed25519" },
+          false,
+          ["verify"],
+        ),
+      }))();
+      this.importedKeys.set(x, imported);
+      imported.catch(() => this.importedKeys.delete(x));
+    }
+    return imported;
+  }
+}
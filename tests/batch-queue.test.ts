@@ -0,0 +1,178 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { BatchQueue } from "../src/core/batch-queue";
+import type { BatchQueueConfig, RawRequestEvent } from "../src/types";
+
+function makeEvent(path: string): RawRequestEvent {
+  return {
+    type: "raw",
+    url: `https://example.com${path}`,
+    hostname: "example.com",
+    method: "GET",
+    path,
+  };
+}
+
+function makeConfig(overrides: Partial<BatchQueueConfig> = {}): BatchQueueConfig {
+  return {
+    batchSize: 3,
+    flushIntervalMs: 1000,
+    maxQueueSize: 10,
+    ...overrides,
+  };
+}
+
+const succeedAll = (events: RawRequestEvent[]) =>
+  Promise.resolve(events.map(() => ({ success: true })));
+
+describe("BatchQueue", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it("should flush when batch size is reached", async () => {
+    const sender = vi.fn().mockImplementation(succeedAll);
+    const queue = new BatchQueue(makeConfig(), sender);
+
+    queue.add(makeEvent("/a"));
+    queue.add(makeEvent("/b"));
+    expect(sender).not.toHaveBeenCalled();
+
+    await queue.add(makeEvent("/c"));
+
+    expect(sender).toHaveBeenCalledTimes(1);
+    expect(sender.mock.calls[0][0].map((e: RawRequestEvent) => e.path)).toEqual(["/a", "/b", "/c"]);
+    expect(queue.getStats().size).toBe(0);
+  });
+
+  it("should flush a partial batch after the flush interval", async () => {
+    const sender = vi.fn().mockImplementation(succeedAll);
+    const queue = new BatchQueue(makeConfig(), sender);
+
+    const first = queue.add(makeEvent("/a"));
+    const second = queue.add(makeEvent("/b"));
+
+    // Both callers wait on the same pending flush
+    expect(first).toBe(second);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(sender).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    await first;
+
+    expect(sender).toHaveBeenCalledTimes(1);
+    expect(sender.mock.calls[0][0]).toHaveLength(2);
+  });
+
+  it("should drop the oldest event when the queue is full", async () => {
+    const onError = vi.fn();
+    const sender = vi.fn().mockImplementation(succeedAll);
+    const queue = new BatchQueue(
+      makeConfig({ batchSize: 100, maxQueueSize: 2, onError }),
+      sender,
+    );
+
+    queue.add(makeEvent("/a"));
+    queue.add(makeEvent("/b"));
+    queue.add(makeEvent("/c"));
+
+    expect(queue.getStats()).toMatchObject({ size: 2, totalAdded: 3, totalDropped: 1 });
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ path: "/a" }));
+
+    await queue.flush();
+    expect(sender.mock.calls[0][0].map((e: RawRequestEvent) => e.path)).toEqual(["/b", "/c"]);
+  });
+
+  it("should send large queues in multiple batches", async () => {
+    // Hold the first batch so events queue up behind it
+    let releaseFirst!: () => void;
+    const sender = vi.fn()
+      .mockImplementationOnce((events: RawRequestEvent[]) =>
+        new Promise((resolve) => { releaseFirst = () => resolve(events.map(() => ({ success: true }))); }))
+      .mockImplementation(succeedAll);
+    const queue = new BatchQueue(makeConfig({ batchSize: 2, maxQueueSize: 10 }), sender);
+
+    queue.add(makeEvent("/a"));
+    const first = queue.add(makeEvent("/b"));
+    queue.add(makeEvent("/c"));
+    queue.add(makeEvent("/d"));
+    queue.add(makeEvent("/e"));
+    expect(queue.getStats().size).toBe(3);
+
+    releaseFirst();
+    await first;
+    await queue.flush();
+
+    expect(sender.mock.calls.map(([events]) => events.map((e: RawRequestEvent) => e.path))).toEqual([
+      ["/a", "/b"],
+      ["/c", "/d"],
+      ["/e"],
+    ]);
+  });
+
+  it("should report failed events via onError and count them", async () => {
+    const onError = vi.fn();
+    const sender = vi.fn().mockResolvedValue([
+      { success: true, eventId: "evt_1" },
+      { success: false, error: "HTTP 500" },
+    ]);
+    const queue = new BatchQueue(makeConfig({ batchSize: 2, onError }), sender);
+
+    queue.add(makeEvent("/ok"));
+    await queue.add(makeEvent("/fail"));
+
+    expect(queue.getStats()).toMatchObject({ totalFlushed: 1, totalFailed: 1 });
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError.mock.calls[0][0].message).toContain("HTTP 500");
+    expect(onError.mock.calls[0][1]).toMatchObject({ path: "/fail" });
+  });
+
+  it("should treat a throwing sender as a failed batch without rejecting", async () => {
+    const onError = vi.fn();
+    const sender = vi.fn().mockRejectedValue(new Error("network down"));
+    const queue = new BatchQueue(makeConfig({ batchSize: 1, onError }), sender);
+
+    await expect(queue.add(makeEvent("/a"))).resolves.toBeUndefined();
+
+    expect(queue.getStats().totalFailed).toBe(1);
+    expect(onError.mock.calls[0][0].message).toContain("network down");
+  });
+
+  it("should call onFlush with events and results", async () => {
+    const onFlush = vi.fn();
+    const queue = new BatchQueue(makeConfig({ batchSize: 1, onFlush }), succeedAll);
+
+    await queue.add(makeEvent("/a"));
+
+    expect(onFlush).toHaveBeenCalledWith(
+      [expect.objectContaining({ path: "/a" })],
+      [{ success: true }],
+    );
+  });
+
+  it("should not overlap concurrent flushes", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const sender = vi.fn().mockImplementation(async (events: RawRequestEvent[]) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      inFlight--;
+      return events.map(() => ({ success: true }));
+    });
+    const queue = new BatchQueue(makeConfig({ batchSize: 1 }), sender);
+
+    const first = queue.add(makeEvent("/a"));
+    const second = queue.add(makeEvent("/b"));
+    await vi.runAllTimersAsync();
+    await Promise.all([first, second]);
+
+    expect(maxInFlight).toBe(1);
+    expect(queue.getStats()).toMatchObject({ size: 0, totalFlushed: 2, flushing: false });
+  });
+});
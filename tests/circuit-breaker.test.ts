@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { CircuitBreaker } from "../src/core/circuit-breaker";
+import { CircuitOpenError, IngestError } from "../src/core/errors";
+
+const unavailable = () => new IngestError("Service Unavailable", { status: 503, retryable: true });
+
+async function failTimes(breaker: CircuitBreaker, times: number): Promise<void> {
+  for (let i = 0; i < times; i++) {
+    await breaker.execute(() => Promise.reject(unavailable())).catch(() => undefined);
+  }
+}
+
+describe("CircuitBreaker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("should stay closed below the failure threshold", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+    await failTimes(breaker, 2);
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should open after consecutive failures and fail fast", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+    await failTimes(breaker, 3);
+
+    const fn = vi.fn().mockResolvedValue("ok");
+    const error = await breaker.execute(fn).catch((e) => e);
+
+    expect(breaker.getState()).toBe("open");
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it("should reset the failure count on success", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, resetTimeoutMs: 1000 });
+
+    await failTimes(breaker, 2);
+    await breaker.execute(() => Promise.resolve("ok"));
+    await failTimes(breaker, 2);
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should not count non-retryable errors as endpoint failures", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    const badRequest = new IngestError("Bad Request", { status: 400, retryable: false });
+
+    for (let i = 0; i < 3; i++) {
+      await breaker.execute(() => Promise.reject(badRequest)).catch(() => undefined);
+    }
+
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should let a single probe through after the reset timeout", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000 });
+    await failTimes(breaker, 1);
+
+    vi.advanceTimersByTime(1000);
+
+    let resolveProbe!: (value: string) => void;
+    const probe = breaker.execute(() => new Promise<string>((resolve) => { resolveProbe = resolve; }));
+    expect(breaker.getState()).toBe("half-open");
+
+    // Concurrent calls fail fast while the probe is in flight
+    const concurrent = await breaker.execute(() => Promise.resolve("ok")).catch((e) => e);
+    expect(concurrent).toBeInstanceOf(CircuitOpenError);
+
+    resolveProbe("ok");
+    expect(await probe).toBe("ok");
+    expect(breaker.getState()).toBe("closed");
+  });
+
+  it("should re-open when the probe fails", async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetTimeoutMs: 1000 });
+    await failTimes(breaker, 2);
+
+    vi.advanceTimersByTime(1000);
+    await failTimes(breaker, 1);
+
+    expect(breaker.getState()).toBe("open");
+    const error = await breaker.execute(() => Promise.resolve("ok")).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAfterMs).toBe(1000);
+  });
+
+  it("should report state changes", async () => {
+    const onStateChange = vi.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onStateChange });
+
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1000);
+    await breaker.execute(() => Promise.resolve("ok"));
+
+    expect(onStateChange.mock.calls).toEqual([
+      ["open", "closed"],
+      ["half-open", "open"],
+      ["closed", "half-open"],
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { BOT_CATALOG, applyBotDefinitions, detectBot } from "../../src/classification/bot-catalog";
+import type { BotCatalogEntry } from "../../src/types/bot-catalog.types";
+
+describe("detectBot", () => {
+  it.each([
+    ["Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)", "Googlebot", "search-engine", "Google"],
+    ["Googlebot-Image/1.0", "Googlebot-Image", "search-engine", "Google"],
+    ["Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)", "Bingbot", "search-engine", "Microsoft"],
+    ["Mozilla/5.0 (compatible; YandexBot/3.0; +http://yandex.com/bots)", "YandexBot", "search-engine", "Yandex"],
+    ["Mozilla/5.0 (compatible; Baiduspider/2.0; +http://www.baidu.com/search/spider.html)", "Baiduspider", "search-engine", "Baidu"],
+    ["Mozilla/5.0 (compatible; AhrefsBot/7.0; +http://ahrefs.com/robot/)", "AhrefsBot", "seo-tool", "Ahrefs"],
+    ["Mozilla/5.0 (compatible; SemrushBot/7~bl; +http://www.semrush.com/bot.html)", "SemrushBot", "seo-tool", "Semrush"],
+    ["Mozilla/5.0 (compatible; DotBot/1.2; +https://opensiteexplorer.org/dotbot)", "DotBot", "seo-tool", "Moz"],
+    ["Slackbot-LinkExpanding 1.0 (+https://api.slack.com/robots)", "Slackbot-LinkExpanding", "social-preview", "Slack"],
+    ["Mozilla/5.0 (compatible; Discordbot/2.0; +https://discordapp.com)", "Discordbot", "social-preview", "Discord"],
+    ["Twitterbot/1.0", "Twitterbot", "social-preview", "X"],
+    ["TelegramBot (like TwitterBot)", "TelegramBot", "social-preview", "Telegram"],
+    ["Mozilla/5.0 (compatible; UptimeRobot/2.0; http://www.uptimerobot.com/)", "UptimeRobot", "monitor", "UptimeRobot"],
+    ["curl/8.4.0", "curl", "http-library", "Unknown"],
+    ["python-requests/2.31.0", "python-requests", "http-library", "Unknown"],
+    ["Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 HeadlessChrome/120.0.0.0 Safari/537.36", "HeadlessChrome", "headless-browser", "Unknown"],
+    ["Mozilla/5.0 AppleWebKit/537.36 (compatible; GPTBot/1.2; +https://openai.com/gptbot)", "GPTBot", "ai-crawler", "OpenAI"],
+  ])("should identify %s", (userAgent, name, category, operator) => {
+    expect(detectBot(userAgent)).toMatchObject({ name, category, operator });
+  });
+
+  it("should return null for browsers and empty user agents", () => {
+    expect(detectBot("Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 Chrome/120.0.0.0 Safari/537.36")).toBeNull();
+    expect(detectBot("")).toBeNull();
+  });
+
+  it("should record purpose and robots.txt compliance", () => {
+    expect(detectBot("GPTBot/1.2")).toMatchObject({ purpose: "training", respectsRobots: true });
+    expect(detectBot("ChatGPT-User/1.0")).toMatchObject({ purpose: "user-triggered", respectsRobots: false });
+    expect(detectBot("Googlebot/2.1")).toMatchObject({ purpose: "search", respectsRobots: true });
+  });
+});
+
+describe("BOT_CATALOG", () => {
+  it("should list specific patterns before the patterns they contain", () => {
+    BOT_CATALOG.forEach((entry, index) => {
+      const shadowedBy = BOT_CATALOG.slice(0, index).find((earlier) =>
+        entry.pattern.toLowerCase().includes(earlier.pattern.toLowerCase()),
+      );
+      expect(shadowedBy, `${entry.name} is shadowed`).toBeUndefined();
+    });
+  });
+
+  it("should use https documentation links", () => {
+    for (const entry of BOT_CATALOG) {
+      if (entry.docsUrl) expect(entry.docsUrl).toMatch(/^https:\/\//);
+    }
+  });
+});
+
+describe("applyBotDefinitions", () => {
+  const entry: BotCatalogEntry = {
+    pattern: "ExampleBot",
+    name: "ExampleBot",
+    category: "ai-crawler",
+    operator: "Example",
+    purpose: "training",
+    respectsRobots: true,
+    tags: [],
+  };
+
+  it("should put additions first and let them replace built-ins by name", () => {
+    const replacement = { ...entry, pattern: "GPTBot-Next", name: "GPTBot" };
+    const entries = applyBotDefinitions(BOT_CATALOG, { additions: [entry, replacement] });
+
+    expect(entries.slice(0, 2)).toEqual([entry, replacement]);
+    expect(entries.filter((e) => e.name === "GPTBot")).toHaveLength(1);
+    expect(entries).toHaveLength(BOT_CATALOG.length + 1);
+  });
+
+  it("should apply overrides and disables by name", () => {
+    const entries = applyBotDefinitions(BOT_CATALOG, {
+      overrides: { Googlebot: { respectsRobots: false, name: "Renamed" } as Partial<BotCatalogEntry> },
+      disabled: ["Bytespider"],
+    });
+
+    expect(entries.find((e) => e.name === "Googlebot")?.respectsRobots).toBe(false);
+    expect(entries.find((e) => e.name === "Bytespider")).toBeUndefined();
+  });
+
+  it("should skip malformed additions", () => {
+    const malformed = [
+      { ...entry, pattern: "" },
+      { ...entry, category: "unknown" },
+      { name: "NoPattern" },
+    ] as unknown as BotCatalogEntry[];
+
+    expect(applyBotDefinitions([], { additions: malformed })).toEqual([]);
+    expect(applyBotDefinitions([], { additions: [{ ...entry, tags: undefined as unknown as string[] }] }))
+      .toEqual([entry]);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { classifyRequest, detectHeaderAnomalies } from "../../src/classification/traffic-classifier";
+import { BotMon } from "../../src/client/botmon";
+import { MemoryTransport } from "../../src/transports";
+
+const CHROME_UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0.0.0 Safari/537.36";
+
+const BROWSER_HEADERS = {
+  "User-Agent": CHROME_UA,
+  Accept: "text/html,application/xhtml+xml",
+  "Accept-Language": "en-US,en;q=0.9",
+  "Sec-CH-UA": "\"Chromium\";v=\"124\"",
+};
+
+function makeRequest(headers: Record<string, string>): Request {
+  return new Request("https://example.com/", { headers });
+}
+
+describe("classifyRequest", () => {
+  it("should classify real browsers as human", () => {
+    expect(classifyRequest(makeRequest(BROWSER_HEADERS))).toMatchObject({
+      type: "human",
+      score: 90,
+      confidence: "medium",
+    });
+    expect(classifyRequest(makeRequest(BROWSER_HEADERS), {
+      providerBotData: { provider: "cloudflare", score: 95 },
+    })).toMatchObject({ type: "human", score: 95, confidence: "high" });
+  });
+
+  it("should classify verified and signed agents as good bots", () => {
+    const gptbot = makeRequest({ "User-Agent": "GPTBot/1.2" });
+
+    expect(classifyRequest(gptbot, { botVerification: "verified" })).toMatchObject({
+      type: "good_bot",
+      botName: "GPTBot",
+      confidence: "high",
+    });
+    expect(classifyRequest(makeRequest(BROWSER_HEADERS), {
+      signedAgent: { agent: "https://agent.example", keyId: "abc" },
+    })).toMatchObject({ type: "good_bot", botName: "agent.example", reasons: ["signed-agent"] });
+  });
+
+  it("should only take a signed agent's bot name from the UA when the signer operates that bot", () => {
+    const googlebot = makeRequest({ "User-Agent": "Mozilla/5.0 (compatible; Googlebot/2.1)" });
+    const chatgpt = makeRequest({ "User-Agent": "ChatGPT-User/1.0" });
+
+    expect(classifyRequest(googlebot, {
+      signedAgent: { agent: "https://attacker.example", keyId: "abc" },
+    }).botName).toBe("attacker.example");
+    expect(classifyRequest(googlebot, {
+      signedAgent: { agent: "https://chatgpt.com", keyId: "abc", operator: "OpenAI" },
+    }).botName).toBe("chatgpt.com");
+    expect(classifyRequest(chatgpt, {
+      signedAgent: { agent: "https://chatgpt.com", keyId: "abc", operator: "OpenAI" },
+    }).botName).toBe("ChatGPT-User");
+  });
+
+  it("should give unverified catalog bots medium confidence", () => {
+    expect(classifyRequest(makeRequest({ "User-Agent": "ClaudeBot/1.0" }), { botVerification: "unknown" }))
+      .toMatchObject({ type: "good_bot", botName: "ClaudeBot", confidence: "medium" });
+  });
+
+  it("should classify spoofed crawlers and headless browsers as bad bots", () => {
+    expect(classifyRequest(makeRequest({ "User-Agent": "GPTBot/1.2" }), { botVerification: "spoofed" }))
+      .toMatchObject({ type: "bad_bot", confidence: "high", reasons: ["spoofed"] });
+    expect(classifyRequest(makeRequest({ ...BROWSER_HEADERS, "User-Agent": CHROME_UA.replace("Chrome", "HeadlessChrome") })))
+      .toMatchObject({ type: "bad_bot", botName: "HeadlessChrome" });
+  });
+
+  it("should classify catalog bots by category", () => {
+    expect(classifyRequest(makeRequest({ "User-Agent": "Mozilla/5.0 (compatible; bingbot/2.0)" })))
+      .toMatchObject({ type: "good_bot", botName: "Bingbot", reasons: ["catalog"] });
+    expect(classifyRequest(makeRequest({ "User-Agent": "Slackbot-LinkExpanding 1.0" })).type).toBe("good_bot");
+    expect(classifyRequest(makeRequest({ "User-Agent": "Mozilla/5.0 (compatible; AhrefsBot/7.0)" })))
+      .toMatchObject({ type: "neutral_bot", botName: "AhrefsBot" });
+    expect(classifyRequest(makeRequest({ "User-Agent": "UptimeRobot/2.0" })).type).toBe("neutral_bot");
+  });
+
+  it("should classify HTTP libraries and generic bots as neutral bots", () => {
+    for (const userAgent of ["curl/8.4.0", "python-requests/2.31.0", "Go-http-client/2.0", "axios/1.6.0"]) {
+      expect(classifyRequest(makeRequest({ "User-Agent": userAgent })).type).toBe("neutral_bot");
+    }
+    expect(classifyRequest(makeRequest({ "User-Agent": "AcmeCrawler/1.0" })).type).toBe("neutral_bot");
+  });
+
+  it("should trust low provider scores", () => {
+    const provider = (score: number) => ({ providerBotData: { provider: "cloudflare", score } });
+
+    expect(classifyRequest(makeRequest(BROWSER_HEADERS), provider(2)))
+      .toMatchObject({ type: "bad_bot", score: 2, confidence: "high" });
+    expect(classifyRequest(makeRequest(BROWSER_HEADERS), provider(25)))
+      .toMatchObject({ type: "bad_bot", confidence: "medium" });
+  });
+
+  it("should flag browser UAs with inconsistent headers", () => {
+    expect(classifyRequest(makeRequest({ "User-Agent": CHROME_UA }))).toMatchObject({
+      type: "bad_bot",
+      confidence: "low",
+      reasons: ["missing-accept", "missing-accept-language", "missing-client-hints"],
+    });
+    expect(classifyRequest(makeRequest({})).type).toBe("bad_bot");
+  });
+});
+
+describe("detectHeaderAnomalies", () => {
+  it("should only check client hints for Chromium over HTTPS", () => {
+    const firefox = "Mozilla/5.0 (X11; Linux x86_64; rv:125.0) Gecko/20100101 Firefox/125.0";
+    const headers = { Accept: "*/*", "Accept-Language": "en" };
+
+    expect(detectHeaderAnomalies(makeRequest({ ...headers, "User-Agent": firefox }))).toEqual([]);
+    expect(detectHeaderAnomalies(makeRequest({ ...headers, "User-Agent": CHROME_UA }))).toEqual(["missing-client-hints"]);
+    expect(detectHeaderAnomalies(
+      new Request("http://example.com/", { headers: { ...headers, "User-Agent": CHROME_UA } }),
+    )).toEqual([]);
+  });
+});
+
+describe("BotMon classified events", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  it("should send ClassifiedEvents when eventType is classified", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({ transports: [memory], batchSize: 1, eventType: "classified" });
+    const pending: Promise<unknown>[] = [];
+
+    sdk.track({ waitUntil: (p: Promise<unknown>) => pending.push(p) }, {
+      request: makeRequest({ "User-Agent": "curl/8.4.0" }),
+    });
+    await Promise.all(pending);
+
+    expect(memory.events[0]).toMatchObject({
+      type: "classified",
+      trafficType: "neutral_bot",
+      botScore: 5,
+      botName: "curl",
+    });
+  });
+});
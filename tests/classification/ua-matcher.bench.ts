@@ -0,0 +1,33 @@
+import { bench, describe } from "vitest";
+import { BOT_CATALOG, detectBot } from "../../src/classification/bot-catalog";
+import corpus from "../fixtures/user-agents.json";
+
+/**
+ * Previous implementation: lowercase the UA and scan every pattern with includes()
+ */
+const LOWERCASE_PATTERNS = BOT_CATALOG.map((entry) => entry.pattern.toLowerCase());
+function substringScan(userAgent: string) {
+  if (!userAgent) return null;
+  const uaLower = userAgent.toLowerCase();
+  for (let i = 0; i < BOT_CATALOG.length; i++) {
+    if (uaLower.includes(LOWERCASE_PATTERNS[i])) return BOT_CATALOG[i];
+  }
+  return null;
+}
+
+// 50k UAs built from the fixtures, with varied numbers so no two strings repeat
+const fixtures = corpus as { userAgent: string }[];
+const userAgents: string[] = [];
+for (let i = 0; i < 50_000; i++) {
+  userAgents.push(fixtures[i % fixtures.length].userAgent.replace(/\d+/, String(i)));
+}
+
+describe("detectBot on a large UA corpus", () => {
+  bench("substring scan", () => {
+    for (const userAgent of userAgents) substringScan(userAgent);
+  });
+
+  bench("compiled matcher", () => {
+    for (const userAgent of userAgents) detectBot(userAgent);
+  });
+});
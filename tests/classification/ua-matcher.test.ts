@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+import { UserAgentMatcher } from "../../src/classification/ua-matcher";
+import { BOT_CATALOG, detectBot } from "../../src/classification/bot-catalog";
+import corpus from "../fixtures/user-agents.json";
+
+interface CorpusEntry {
+  userAgent: string;
+  bot: string | null;
+  version?: string;
+  /** Token the previous substring scan matched by mistake */
+  substringMatch?: string;
+}
+
+const fixtures = corpus as CorpusEntry[];
+
+/**
+ * Previous implementation: lowercase the UA and scan every pattern with includes()
+ */
+const LOWERCASE_PATTERNS = BOT_CATALOG.map((entry) => entry.pattern.toLowerCase());
+function substringScan(userAgent: string) {
+  if (!userAgent) return null;
+  const uaLower = userAgent.toLowerCase();
+  for (let i = 0; i < BOT_CATALOG.length; i++) {
+    if (uaLower.includes(LOWERCASE_PATTERNS[i])) return BOT_CATALOG[i];
+  }
+  return null;
+}
+
+describe("UserAgentMatcher", () => {
+  const matcher = new UserAgentMatcher([
+    { pattern: "Googlebot-Image", name: "image" },
+    { pattern: "Googlebot", name: "web" },
+    { pattern: "Data/Bot", name: "slash" },
+  ]);
+
+  it("should match tokens case-insensitively and capture versions", () => {
+    expect(matcher.match("Mozilla/5.0 (compatible; googlebot/2.1)")).toEqual({
+      entry: { pattern: "Googlebot", name: "web" },
+      version: "2.1",
+    });
+    expect(matcher.match("Googlebot-Image/1.0")?.entry.name).toBe("image");
+    expect(matcher.match("Googlebot")?.version).toBeUndefined();
+  });
+
+  it("should only match whole tokens", () => {
+    expect(matcher.match("SuperGooglebot/1.0")).toBeNull();
+    expect(matcher.match("Googlebots/1.0")).toBeNull();
+    expect(matcher.match("Googlebot-Mobile/1.0")?.entry.name).toBe("web");
+  });
+
+  it("should escape regex characters in tokens", () => {
+    expect(matcher.match("Data/Bot 3")?.entry.name).toBe("slash");
+    expect(matcher.match("DataXBot")).toBeNull();
+  });
+
+  it("should prefer the entry listed first", () => {
+    const ordered = new UserAgentMatcher([{ pattern: "Second" }, { pattern: "First" }]);
+    expect(ordered.match("First/1.0 Second/2.0")).toEqual({ entry: { pattern: "Second" }, version: "2.0" });
+  });
+
+  it("should handle empty input and empty lists", () => {
+    expect(matcher.match("")).toBeNull();
+    expect(new UserAgentMatcher([]).match("Googlebot")).toBeNull();
+  });
+});
+
+describe("detectBot UA corpus", () => {
+  it.each(fixtures.map((fixture) => [fixture.userAgent, fixture] as const))(
+    "should detect %s",
+    (userAgent, fixture) => {
+      const bot = detectBot(userAgent);
+      expect(bot?.name ?? null).toBe(fixture.bot);
+      expect(bot?.version).toBe(fixture.version);
+    },
+  );
+
+  it("should agree with the substring scan except for partial-token false positives", () => {
+    for (const fixture of fixtures) {
+      const previous = substringScan(fixture.userAgent);
+      if (fixture.substringMatch) {
+        expect(previous?.pattern).toBe(fixture.substringMatch);
+      } else {
+        expect(previous?.name ?? null).toBe(fixture.bot);
+      }
+    }
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { EventFilter, isLikelyBot } from "../src/core/event-filter";
+import { BotMon } from "../src/client/botmon";
+import { MemoryTransport } from "../src/transports";
+import type { BotMonConfig, RawRequestEvent } from "../src/types";
+
+const BROWSER_UA = "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 Chrome/120.0 Safari/537.36";
+
+function makeEvent(path: string, extra: Partial<RawRequestEvent> = {}): RawRequestEvent {
+  return {
+    type: "raw",
+    url: `https://example.com${path}`,
+    hostname: "example.com",
+    method: "GET",
+    path,
+    userAgent: BROWSER_UA,
+    statusCode: 200,
+    ...extra,
+  };
+}
+
+describe("EventFilter", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should keep every event by default", () => {
+    const filter = new EventFilter();
+    const event = makeEvent("/");
+
+    expect(filter.apply(event)).toBe(event);
+  });
+
+  it("should apply path include and exclude globs", () => {
+    const filter = new EventFilter({
+      includePaths: ["/blog/**", "/"],
+      excludePaths: ["/blog/drafts/**"],
+    });
+
+    expect(filter.apply(makeEvent("/"))).not.toBeNull();
+    expect(filter.apply(makeEvent("/blog/2024/post"))).not.toBeNull();
+    expect(filter.apply(makeEvent("/blog/drafts/wip"))).toBeNull();
+    expect(filter.apply(makeEvent("/pricing"))).toBeNull();
+  });
+
+  it("should exclude static assets by extension", () => {
+    const filter = new EventFilter({ excludePaths: ["**/*.css", "**/*.js", "/favicon.ico"] });
+
+    expect(filter.apply(makeEvent("/assets/app.css"))).toBeNull();
+    expect(filter.apply(makeEvent("/app.js"))).toBeNull();
+    expect(filter.apply(makeEvent("/favicon.ico"))).toBeNull();
+    expect(filter.apply(makeEvent("/docs"))).not.toBeNull();
+  });
+
+  it("should filter by exact status codes and status classes", () => {
+    const filter = new EventFilter({
+      includeStatusCodes: ["2xx", "4xx"],
+      excludeStatusCodes: [404],
+    });
+
+    expect(filter.apply(makeEvent("/", { statusCode: 204 }))).not.toBeNull();
+    expect(filter.apply(makeEvent("/", { statusCode: 403 }))).not.toBeNull();
+    expect(filter.apply(makeEvent("/", { statusCode: 404 }))).toBeNull();
+    expect(filter.apply(makeEvent("/", { statusCode: 301 }))).toBeNull();
+    expect(filter.apply(makeEvent("/", { statusCode: undefined }))).not.toBeNull();
+  });
+
+  it("should sample humans and bots at separate rates", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.5);
+    const filter = new EventFilter({}, { human: 0.1, bot: 1 });
+
+    expect(filter.apply(makeEvent("/"))).toBeNull();
+    expect(filter.apply(makeEvent("/", { userAgent: "GPTBot/1.0" }))).not.toBeNull();
+  });
+
+  it("should record the sample rate on kept events", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.05);
+    const filter = new EventFilter({}, { human: 0.1 });
+
+    expect(filter.apply(makeEvent("/"))?.sampleRate).toBe(0.1);
+  });
+
+  it("should reject invalid sampling rates", () => {
+    expect(() => new EventFilter({}, { bot: 1.5 })).toThrow("sampling.bot must be a number between 0 and 1");
+  });
+});
+
+describe("isLikelyBot", () => {
+  it("should detect automated clients from the user agent and provider data", () => {
+    expect(isLikelyBot(makeEvent("/"))).toBe(false);
+    expect(isLikelyBot(makeEvent("/", { userAgent: "curl/8.4.0" }))).toBe(true);
+    expect(isLikelyBot(makeEvent("/", { userAgent: undefined }))).toBe(true);
+    expect(isLikelyBot(makeEvent("/", {
+      providerBotData: { provider: "cloudflare", score: 2 },
+    }))).toBe(true);
+  });
+});
+
+describe("BotMon beforeSend", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  async function track(config: Partial<BotMonConfig>, path = "/page"): Promise<MemoryTransport> {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({ transports: [memory], batchSize: 1, ...config });
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (promise: Promise<unknown>) => pending.push(promise) };
+
+    sdk.track(ctx, {
+      request: new Request(`https://example.com${path}`, { headers: { "User-Agent": BROWSER_UA } }),
+      response: new Response("ok"),
+    });
+    await Promise.all(pending);
+    return memory;
+  }
+
+  it("should let the hook mutate events", async () => {
+    const memory = await track({
+      beforeSend: (event) => {
+        event.metadata = { tenant: "acme" };
+      },
+    });
+
+    expect(memory.events[0].metadata).toEqual({ tenant: "acme" });
+  });
+
+  it("should drop events when the hook returns null", async () => {
+    const beforeSend = vi.fn().mockReturnValue(null);
+    const memory = await track({ beforeSend });
+
+    expect(beforeSend).toHaveBeenCalledWith(
+      expect.objectContaining({ path: "/page" }),
+      expect.any(Request),
+      expect.any(Response),
+    );
+    expect(memory.events).toHaveLength(0);
+  });
+
+  it("should not call the hook for filtered events", async () => {
+    const beforeSend = vi.fn();
+    const memory = await track({ beforeSend, filters: { excludePaths: ["/assets/**"] } }, "/assets/logo.png");
+
+    expect(beforeSend).not.toHaveBeenCalled();
+    expect(memory.events).toHaveLength(0);
+  });
+
+  it("should send the original event if the hook throws", async () => {
+    const onError = vi.fn();
+    const memory = await track({
+      onError,
+      beforeSend: () => {
+        throw new Error("boom");
+      },
+    });
+
+    expect(memory.events).toHaveLength(1);
+    expect(onError.mock.calls[0][0].message).toBe("BotMon beforeSend hook failed: boom");
+  });
+});
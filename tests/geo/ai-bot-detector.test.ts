@@ -17,6 +17,11 @@ describe("detectAiBot", () => {
     expect(result.botTags).toContain("anthropic");
   });
 
+  it("should capture the bot version", () => {
+    expect(detectAiBot("Mozilla/5.0 GPTBot/1.0").botVersion).toBe("1.0");
+    expect(detectAiBot("Mozilla/5.0 GPTBot/1.2").botVersion).toBe("1.2");
+  });
+
   it("should detect ChatGPT-User", () => {
     const result = detectAiBot("Mozilla/5.0 ChatGPT-User/1.0");
     expect(result.isAiBot).toBe(true);
@@ -62,6 +67,11 @@ describe("detectAiBot", () => {
     expect(result.isAiBot).toBe(false);
   });
 
+  it("should not flag Bingbot (search engine, not AI bot)", () => {
+    const result = detectAiBot("Mozilla/5.0 (compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm)");
+    expect(result.isAiBot).toBe(false);
+  });
+
   it("should not flag empty user agent", () => {
     const result = detectAiBot("");
     expect(result.isAiBot).toBe(false);
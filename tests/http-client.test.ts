@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { HttpClient } from "../src/utils/http-client";
+import { IngestError, parseRetryAfter } from "../src/core/errors";
+import type { RawRequestEvent } from "../src/types";
+
+function makeEvent(path: string, extra: Partial<RawRequestEvent> = {}): RawRequestEvent {
+  return {
+    type: "raw",
+    url: `https://example.com${path}`,
+    hostname: "example.com",
+    method: "GET",
+    path,
+    ...extra,
+  };
+}
+
+async function readBody(init: RequestInit): Promise<string> {
+  const headers = init.headers as Record<string, string>;
+  const body = new Response(init.body as BodyInit).body!;
+  const stream = headers["Content-Encoding"] === "gzip"
+    ? body.pipeThrough(new DecompressionStream("gzip"))
+    : body;
+  return new Response(stream).text();
+}
+
+const mockFetch = vi.fn();
+
+describe("HttpClient", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe("sendEvent", () => {
+    it("should POST a single JSON event with the API key", async () => {
+      mockFetch.mockResolvedValue(Response.json({ success: true, eventId: "evt_1" }));
+      const client = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest" });
+
+      const result = await client.sendEvent(makeEvent("/a"));
+
+      expect(result.eventId).toBe("evt_1");
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://ingest.test/ingest");
+      expect(init.headers["X-API-Key"]).toBe("key");
+      expect(JSON.parse(init.body).path).toBe("/a");
+    });
+  });
+
+  describe("sendBatch", () => {
+    it("should POST gzip-compressed NDJSON to the batch endpoint by default", async () => {
+      mockFetch.mockResolvedValue(Response.json({ success: true }));
+      const client = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest" });
+
+      const results = await client.sendBatch([makeEvent("/a"), makeEvent("/b")]);
+
+      expect(results).toEqual([{ success: true }, { success: true }]);
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://ingest.test/ingest/batch");
+      expect(init.headers["Content-Type"]).toBe("application/x-ndjson");
+      expect(init.headers["Content-Encoding"]).toBe("gzip");
+
+      const lines = (await readBody(init)).trim().split("\n");
+      expect(lines.map((line) => JSON.parse(line).path)).toEqual(["/a", "/b"]);
+    });
+
+    it("should send an uncompressed JSON array when configured", async () => {
+      mockFetch.mockResolvedValue(Response.json({ success: true }));
+      const client = new HttpClient({
+        apiKey: "key",
+        ingestUrl: "https://ingest.test/ingest",
+        batchIngestUrl: "https://ingest.test/v2/events",
+        batchFormat: "json",
+        compression: "none",
+      });
+
+      await client.sendBatch([makeEvent("/a")]);
+
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe("https://ingest.test/v2/events");
+      expect(init.headers["Content-Type"]).toBe("application/json");
+      expect(init.headers["Content-Encoding"]).toBeUndefined();
+      expect(JSON.parse(init.body)).toHaveLength(1);
+    });
+
+    it("should log the request body size in bytes", async () => {
+      const log = vi.spyOn(console, "log").mockImplementation(() => { /* noop */ });
+      mockFetch.mockImplementation(async () => Response.json({ success: true }));
+      const events = [makeEvent("/café")];
+
+      const plain = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest", compression: "none", debug: true });
+      await plain.sendBatch(events);
+      const plainBody = mockFetch.mock.calls[0][1].body as string;
+      expect(log.mock.calls[0][1].bytes).toBe(new TextEncoder().encode(plainBody).byteLength);
+      expect(log.mock.calls[0][1].bytes).toBeGreaterThan(plainBody.length);
+
+      const gzipped = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest", debug: true });
+      await gzipped.sendBatch(events);
+      expect(log.mock.calls[1][1].bytes).toBe((mockFetch.mock.calls[1][1].body as ArrayBuffer).byteLength);
+      log.mockRestore();
+    });
+
+    it("should map per-event results from the API", async () => {
+      mockFetch.mockResolvedValue(Response.json({
+        success: false,
+        results: [
+          { success: true, eventId: "evt_1" },
+          { success: false, error: "invalid path" },
+        ],
+      }));
+      const client = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest" });
+
+      const results = await client.sendBatch([makeEvent("/a"), makeEvent("/b")]);
+
+      expect(results).toEqual([
+        { success: true, eventId: "evt_1", error: undefined },
+        { success: false, eventId: undefined, error: "invalid path" },
+      ]);
+    });
+
+    it("should split payloads that exceed maxBatchBytes", async () => {
+      mockFetch.mockImplementation(() => Promise.resolve(Response.json({ success: true })));
+      const client = new HttpClient({
+        apiKey: "key",
+        ingestUrl: "https://ingest.test/ingest",
+        compression: "none",
+        maxBatchBytes: 300,
+      });
+      const events = Array.from({ length: 5 }, (_, i) =>
+        makeEvent(`/page-${i}`, { userAgent: "x".repeat(80) }),
+      );
+
+      const results = await client.sendBatch(events);
+
+      expect(results).toHaveLength(5);
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(1);
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(new TextEncoder().encode(init.body).length).toBeLessThanOrEqual(300);
+      }
+    });
+
+    it("should keep an oversized event in its own chunk", () => {
+      const client = new HttpClient({
+        apiKey: "key",
+        ingestUrl: "https://ingest.test/ingest",
+        maxBatchBytes: 100,
+      });
+
+      const chunks = client.splitBatch([
+        makeEvent("/a"),
+        makeEvent("/huge", { userAgent: "x".repeat(500) }),
+        makeEvent("/b"),
+      ]);
+
+      expect(chunks.map((chunk) => chunk.map((e) => e.path))).toEqual([["/a"], ["/huge"], ["/b"]]);
+    });
+
+    it("should throw on non-2xx responses", async () => {
+      mockFetch.mockResolvedValue(new Response("Bad Gateway", { status: 502, statusText: "Bad Gateway" }));
+      const client = new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest" });
+
+      await expect(client.sendBatch([makeEvent("/a")])).rejects.toThrow("HTTP 502");
+    });
+  });
+
+  describe("typed errors", () => {
+    const client = () => new HttpClient({ apiKey: "key", ingestUrl: "https://ingest.test/ingest" });
+
+    it("should mark 4xx responses as non-retryable", async () => {
+      mockFetch.mockResolvedValue(Response.json({ success: false, error: "Invalid API key" }, { status: 401 }));
+
+      const error = await client().sendEvent(makeEvent("/a")).catch((e) => e);
+
+      expect(error).toBeInstanceOf(IngestError);
+      expect(error.status).toBe(401);
+      expect(error.retryable).toBe(false);
+      expect(error.message).toBe("Invalid API key");
+    });
+
+    it("should mark 429 and 5xx responses as retryable", async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response("", { status: 429, headers: { "Retry-After": "7" } }))
+        .mockResolvedValueOnce(new Response("", { status: 503 }));
+
+      const rateLimited = await client().sendBatch([makeEvent("/a")]).catch((e) => e);
+      const unavailable = await client().sendBatch([makeEvent("/a")]).catch((e) => e);
+
+      expect(rateLimited.retryable).toBe(true);
+      expect(rateLimited.retryAfterMs).toBe(7000);
+      expect(unavailable.retryable).toBe(true);
+      expect(unavailable.retryAfterMs).toBeUndefined();
+    });
+
+    it("should wrap network failures as retryable", async () => {
+      mockFetch.mockRejectedValue(new TypeError("fetch failed"));
+
+      const error = await client().sendEvent(makeEvent("/a")).catch((e) => e);
+
+      expect(error).toBeInstanceOf(IngestError);
+      expect(error.retryable).toBe(true);
+      expect(error.status).toBeUndefined();
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should parse delay-seconds", () => {
+      expect(parseRetryAfter("120")).toBe(120000);
+    });
+
+    it("should parse HTTP dates relative to now", () => {
+      const now = Date.parse("Wed, 21 Oct 2026 07:28:00 GMT");
+      expect(parseRetryAfter("Wed, 21 Oct 2026 07:28:30 GMT", now)).toBe(30000);
+    });
+
+    it("should return undefined for missing or malformed values", () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter("soon")).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import { findMatchingPolicy, buildPolicyResponse } from "../../src/managed-rules/access-policy";
+import type { ResponseContext } from "../../src/types/middleware.types";
+import type { AccessPolicyRule } from "../../src/types/managed-rules.types";
+
+const mockCtx = {
+  waitUntil: () => { /* noop */ },
+  passThroughOnException: () => { /* noop */ },
+} as unknown as ExecutionContext;
+
+function makeContext(path: string, overrides: Partial<ResponseContext> = {}): ResponseContext {
+  const url = new URL(`https://example.com${path}`);
+  return {
+    request: new Request(url.href),
+    response: new Response("origin body"),
+    trafficType: "good_bot",
+    url,
+    isAiBot: true,
+    botName: "GPTBot",
+    botCategory: "ai-crawler",
+    botTags: ["openai", "llm-training"],
+    botVerification: "verified",
+    country: "US",
+    env: {},
+    ctx: mockCtx,
+    ...overrides,
+  } as ResponseContext;
+}
+
+describe("findMatchingPolicy", () => {
+  it("should return the first rule whose conditions all match", () => {
+    const rules: AccessPolicyRule[] = [
+      { name: "other-path", match: { bots: ["gptbot"], paths: ["/blog/*"] }, action: "block" },
+      { name: "premium", match: { bots: ["gptbot"], paths: ["/premium/**"] }, action: "block" },
+      { name: "catch-all", match: {}, action: "allow" },
+    ];
+
+    expect(findMatchingPolicy(makeContext("/premium/a/b"), rules)?.name).toBe("premium");
+    expect(findMatchingPolicy(makeContext("/about"), rules)?.name).toBe("catch-all");
+  });
+
+  it("should match categories, tags, traffic types, verification and countries", () => {
+    const context = makeContext("/");
+    const matches = (match: AccessPolicyRule["match"]) =>
+      findMatchingPolicy(context, [{ match, action: "block" }]) !== null;
+
+    expect(matches({ categories: ["ai-crawler", "ai-search"] })).toBe(true);
+    expect(matches({ categories: ["search-engine"] })).toBe(false);
+    expect(matches({ tags: ["llm-training"] })).toBe(true);
+    expect(matches({ tags: ["search"] })).toBe(false);
+    expect(matches({ trafficTypes: ["bad_bot"] })).toBe(false);
+    expect(matches({ verification: ["verified"] })).toBe(true);
+    expect(matches({ verification: ["spoofed"] })).toBe(false);
+    expect(matches({ countries: ["US"], categories: ["ai-crawler"] })).toBe(true);
+    expect(matches({ countries: ["DE"], categories: ["ai-crawler"] })).toBe(false);
+  });
+
+  it("should not match bot conditions for human traffic", () => {
+    const human = makeContext("/", {
+      trafficType: "human",
+      isAiBot: false,
+      botName: undefined,
+      botCategory: undefined,
+      botTags: undefined,
+    });
+    expect(findMatchingPolicy(human, [{ match: { categories: ["ai-crawler"] }, action: "block" }])).toBeNull();
+    expect(findMatchingPolicy(human, [{ match: { bots: ["GPTBot"] }, action: "block" }])).toBeNull();
+  });
+});
+
+describe("buildPolicyResponse", () => {
+  const context = makeContext("/premium/report");
+
+  it("should build a 403 for block", async () => {
+    const response = buildPolicyResponse({ name: "no-training", match: {}, action: "block" }, context)!;
+    expect(response.status).toBe(403);
+    expect(response.headers.get("X-BotMon-Policy")).toBe("no-training");
+    expect(await response.text()).toBe("Forbidden");
+  });
+
+  it("should build a custom response", async () => {
+    const response = buildPolicyResponse({
+      match: {},
+      action: "respond",
+      status: 402,
+      body: "{\"error\":\"license required\"}",
+      headers: { "Content-Type": "application/json" },
+    }, context)!;
+    expect(response.status).toBe(402);
+    expect(response.headers.get("Content-Type")).toBe("application/json");
+    expect(response.headers.get("X-BotMon-Policy")).toBe("respond");
+    expect(await response.text()).toContain("license required");
+  });
+
+  it("should resolve redirects against the request URL", () => {
+    const response = buildPolicyResponse({ match: {}, action: "redirect", location: "/ai-license" }, context)!;
+    expect(response.status).toBe(302);
+    expect(response.headers.get("Location")).toBe("https://example.com/ai-license");
+
+    const permanent = buildPolicyResponse({ match: {}, action: "redirect", location: "https://x.test/", status: 308 }, context)!;
+    expect(permanent.status).toBe(308);
+    expect(buildPolicyResponse({ match: {}, action: "redirect", location: "/", status: 200 }, context)!.status).toBe(302);
+  });
+
+  it("should return null for allow and redirects without a location", () => {
+    expect(buildPolicyResponse({ match: {}, action: "allow" }, context)).toBeNull();
+    expect(buildPolicyResponse({ match: {}, action: "redirect" }, context)).toBeNull();
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { mergeConfig } from "../../src/managed-rules/config-merger";
 import type { ManagedRulesConfig, RemoteConfigBundle } from "../../src/types/managed-rules.types";
+import { DEFAULT_BOT_CATALOG } from "../../src/classification/bot-catalog";
 
 describe("mergeConfig", () => {
   it("should use SDK defaults when remote is null", () => {
@@ -123,4 +124,134 @@ describe("mergeConfig", () => {
     expect(result.geo.injectSummary).toBe(true); // Not overridden
     expect(result.geo.enrichHeadings).toBe(false);
   });
+
+  it("should use the built-in bot catalog when no bot definitions are configured", () => {
+    expect(mergeConfig({}, null).bots).toBe(DEFAULT_BOT_CATALOG);
+  });
+
+  it("should apply SDK then dashboard bot definitions", () => {
+    const sdk: ManagedRulesConfig = {
+      bots: { overrides: { Bytespider: { respectsRobots: true } }, disabled: ["curl"] },
+    };
+    const remote: RemoteConfigBundle = {
+      bots: {
+        additions: [{
+          pattern: "NewAIBot",
+          name: "NewAIBot",
+          category: "ai-crawler",
+          operator: "New AI",
+          purpose: "training",
+          respectsRobots: true,
+          tags: ["llm-training"],
+        }],
+        overrides: { Bytespider: { operator: "ByteDance Ltd" } },
+      },
+    };
+
+    const { bots } = mergeConfig(sdk, remote);
+    expect(bots.detect("NewAIBot/0.1")).toMatchObject({ name: "NewAIBot", version: "0.1" });
+    expect(bots.detectAi("NewAIBot/0.1")?.name).toBe("NewAIBot");
+    expect(bots.detect("Bytespider")).toMatchObject({ operator: "ByteDance Ltd", respectsRobots: true });
+    expect(bots.detect("curl/8.4.0")).toBeNull();
+  });
+
+  it("should put dashboard access policies ahead of SDK policies", () => {
+    const sdk: ManagedRulesConfig = {
+      accessPolicies: {
+        enabled: true,
+        rules: [
+          { name: "premium", match: { paths: ["/premium/**"] }, action: "block" },
+          { name: "bad-bots", match: { trafficTypes: ["bad_bot"] }, action: "block" },
+        ],
+      },
+    };
+    const remote: RemoteConfigBundle = {
+      accessPolicies: {
+        enabled: true,
+        rules: [
+          { name: "allow-search", match: { categories: ["ai-search"] }, action: "allow" },
+          { name: "premium", match: { paths: ["/premium/**"] }, action: "redirect", location: "/license" },
+        ],
+      },
+    };
+
+    const result = mergeConfig(sdk, remote);
+    expect(result.accessPolicies.enabled).toBe(true);
+    expect(result.accessPolicies.rules.map((rule) => `${rule.name}:${rule.action}`)).toEqual([
+      "allow-search:allow",
+      "premium:redirect",
+      "bad-bots:block",
+    ]);
+    expect(mergeConfig({}, null).accessPolicies).toEqual({ enabled: false, rules: [] });
+  });
+
+  it("should merge crawler pricing and keep the SDK token secret", () => {
+    const sdk: ManagedRulesConfig = {
+      crawlerPricing: { enabled: true, price: 0.01, secret: "sdk-secret" },
+    };
+    const remote: RemoteConfigBundle = {
+      crawlerPricing: { enabled: true, price: 0.05, paymentUrl: "https://pay.example.com" },
+    };
+
+    expect(mergeConfig(sdk, remote).crawlerPricing).toEqual({
+      enabled: true,
+      price: 0.05,
+      currency: "USD",
+      match: { categories: ["ai-crawler"] },
+      paymentUrl: "https://pay.example.com",
+      secret: "sdk-secret",
+    });
+    expect(mergeConfig({}, null).crawlerPricing.enabled).toBe(false);
+  });
+
+  it("should disable crawler pricing without a positive price", () => {
+    expect(mergeConfig({ crawlerPricing: { enabled: true } }, null).crawlerPricing.enabled).toBe(false);
+    expect(mergeConfig(
+      { crawlerPricing: { enabled: true, price: 0.01 } },
+      { crawlerPricing: { price: -1 } },
+    ).crawlerPricing.enabled).toBe(false);
+  });
+
+  it("should put dashboard rate limits ahead of SDK rate limits", () => {
+    const sdk: ManagedRulesConfig = {
+      rateLimits: {
+        enabled: true,
+        rules: [
+          { name: "ai-crawlers", match: { categories: ["ai-crawler"] }, limit: 60, period: 60 },
+          { name: "per-ip", match: {}, limit: 600, period: 60, key: "ip" },
+        ],
+      },
+    };
+    const remote: RemoteConfigBundle = {
+      rateLimits: {
+        enabled: true,
+        rules: [{ name: "ai-crawlers", match: { categories: ["ai-crawler"] }, limit: 10, period: 60 }],
+      },
+    };
+
+    const { rateLimits } = mergeConfig(sdk, remote);
+    expect(rateLimits.rules.map((rule) => `${rule.name}:${rule.limit}`)).toEqual([
+      "ai-crawlers:10",
+      "per-ip:600",
+    ]);
+    expect(mergeConfig({}, null).rateLimits).toEqual({ enabled: false, rules: [] });
+  });
+
+  it("should merge robots.txt enforcement with dashboard values winning", () => {
+    const sdk: ManagedRulesConfig = { robotsEnforcement: { enabled: true, mode: "log" } };
+    const remote: RemoteConfigBundle = { robotsEnforcement: { enabled: true, mode: "block" } };
+
+    expect(mergeConfig(sdk, remote).robotsEnforcement).toEqual({
+      enabled: true,
+      mode: "block",
+      match: { categories: ["ai-crawler", "ai-search", "search-engine", "seo-tool"] },
+    });
+    expect(mergeConfig(sdk, null).robotsEnforcement.mode).toBe("log");
+    expect(mergeConfig({}, null).robotsEnforcement.enabled).toBe(false);
+  });
+
+  it("should reuse the compiled catalog for identical bot definitions", () => {
+    const remote = (): RemoteConfigBundle => ({ bots: { disabled: ["GPTBot"] } });
+    expect(mergeConfig({}, remote()).bots).toBe(mergeConfig({}, remote()).bots);
+  });
 });
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  handleCrawlerPricing,
+  verifyCrawlerToken,
+  applyCrawlerCharge,
+  stripPaymentToken,
+} from "../../src/managed-rules/crawler-pricing";
+import { importHmacKey, hmacSign, toBase64Url } from "../../src/utils/crypto";
+import type { ResponseContext } from "../../src/types/middleware.types";
+import type { ResolvedConfig } from "../../src/types/managed-rules.types";
+
+const SECRET = "test-crawler-secret";
+const NOW = Date.UTC(2026, 0, 1);
+
+const mockCtx = {
+  waitUntil: () => { /* noop */ },
+  passThroughOnException: () => { /* noop */ },
+} as unknown as ExecutionContext;
+
+const pricing: ResolvedConfig["crawlerPricing"] = {
+  enabled: true,
+  price: 0.01,
+  currency: "USD",
+  match: { categories: ["ai-crawler"] },
+  paymentUrl: "/crawler-access",
+  secret: SECRET,
+};
+
+/** Sign an HS256 JWT */
+async function signToken(
+  claims: Record<string, unknown>,
+  secret = SECRET,
+  header: Record<string, unknown> = { alg: "HS256", typ: "JWT" },
+): Promise<string> {
+  const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+  const input = `${encode(header)}.${encode(claims)}`;
+  return `${input}.${await hmacSign(await importHmacKey(secret), input)}`;
+}
+
+function makeContext(token?: string, overrides: Partial<ResponseContext> = {}): ResponseContext {
+  const url = new URL("https://example.com/article");
+  return {
+    request: new Request(url.href, {
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    }),
+    trafficType: "good_bot",
+    url,
+    isAiBot: true,
+    botName: "GPTBot",
+    botCategory: "ai-crawler",
+    botTags: ["openai", "llm-training"],
+    env: {},
+    ctx: mockCtx,
+    ...overrides,
+  } as ResponseContext;
+}
+
+const exp = NOW / 1000 + 3600;
+
+describe("verifyCrawlerToken", () => {
+  it("should accept a valid token for this host, bot and price", async () => {
+    const token = await signToken({ exp, aud: "example.com", sub: "gptbot", max_price: 0.05 });
+    expect(await verifyCrawlerToken(token, SECRET, makeContext(), 0.01, NOW)).toEqual({ valid: true });
+  });
+
+  it("should reject forged, malformed and non-HS256 tokens", async () => {
+    const context = makeContext();
+    const forged = await signToken({ exp }, "other-secret");
+    const none = await signToken({ exp }, SECRET, { alg: "none" });
+    const noExp = await signToken({ sub: "GPTBot" });
+
+    for (const token of [forged, none, noExp, "not-a-token", "a.b.c"]) {
+      expect(await verifyCrawlerToken(token, SECRET, context, 0.01, NOW)).toEqual({
+        valid: false,
+        reason: "invalid",
+      });
+    }
+  });
+
+  it("should reject expired and not-yet-valid tokens", async () => {
+    const context = makeContext();
+    const expired = await signToken({ exp: NOW / 1000 - 120 });
+    const early = await signToken({ exp, nbf: NOW / 1000 + 120 });
+    const skewed = await signToken({ exp: NOW / 1000 - 30 });
+
+    expect(await verifyCrawlerToken(expired, SECRET, context, 0.01, NOW)).toEqual({ valid: false, reason: "expired" });
+    expect(await verifyCrawlerToken(early, SECRET, context, 0.01, NOW)).toEqual({ valid: false, reason: "invalid" });
+    expect(await verifyCrawlerToken(skewed, SECRET, context, 0.01, NOW)).toEqual({ valid: true });
+  });
+
+  it("should reject tokens for another host, another bot or a lower price", async () => {
+    const context = makeContext();
+    const otherHost = await signToken({ exp, aud: ["other.com"] });
+    const otherBot = await signToken({ exp, sub: "ClaudeBot" });
+    const cheap = await signToken({ exp, max_price: 0.005 });
+
+    expect(await verifyCrawlerToken(otherHost, SECRET, context, 0.01, NOW)).toEqual({ valid: false, reason: "invalid" });
+    expect(await verifyCrawlerToken(otherBot, SECRET, context, 0.01, NOW)).toEqual({ valid: false, reason: "invalid" });
+    expect(await verifyCrawlerToken(cheap, SECRET, context, 0.01, NOW)).toEqual({ valid: false, reason: "price" });
+  });
+});
+
+describe("handleCrawlerPricing", () => {
+  it("should answer crawlers without a token with 402 and pricing headers", async () => {
+    const context = makeContext();
+    const response = await handleCrawlerPricing(context, pricing);
+
+    expect(response?.status).toBe(402);
+    expect(response?.headers.get("crawler-price")).toBe("USD 0.01");
+    expect(response?.headers.get("Link")).toBe('<https://example.com/crawler-access>; rel="payment"');
+    expect(response?.headers.get("WWW-Authenticate")).toBe('Bearer realm="example.com"');
+    expect(await response?.json()).toMatchObject({
+      error: "payment_required",
+      reason: "missing",
+      price: 0.01,
+      currency: "USD",
+    });
+    expect(context.crawlerPayment).toEqual({ status: "refused", price: 0.01, currency: "USD", reason: "missing" });
+  });
+
+  it("should let crawlers with a valid token through", async () => {
+    const context = makeContext(await signToken({ exp: Date.now() / 1000 + 3600 }));
+
+    expect(await handleCrawlerPricing(context, pricing)).toBeNull();
+    expect(context.crawlerPayment).toEqual({ status: "paid", price: 0.01, currency: "USD" });
+  });
+
+  it("should read the secret from env", async () => {
+    const token = await signToken({ exp: Date.now() / 1000 + 3600 });
+    const context = makeContext(token, { env: { BOTMON_CRAWLER_TOKEN_SECRET: SECRET } });
+
+    expect(await handleCrawlerPricing(context, { ...pricing, secret: undefined })).toBeNull();
+  });
+
+  it("should skip pricing and warn once when no secret is configured", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => { /* noop */ });
+    const unconfigured = { ...pricing, secret: undefined };
+
+    const context = makeContext(await signToken({ exp: Date.now() / 1000 + 3600 }));
+    expect(await handleCrawlerPricing(context, unconfigured)).toBeNull();
+    expect(await handleCrawlerPricing(makeContext(), unconfigured)).toBeNull();
+
+    expect(context.crawlerPayment).toBeUndefined();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it("should ignore requests that don't match", async () => {
+    const context = makeContext(undefined, { botName: "Googlebot", botCategory: "search-engine" });
+
+    expect(await handleCrawlerPricing(context, pricing)).toBeNull();
+    expect(context.crawlerPayment).toBeUndefined();
+  });
+});
+
+describe("stripPaymentToken", () => {
+  it("should remove the payment token from paid requests only", () => {
+    const paid = makeContext("token", {
+      crawlerPayment: { status: "paid", price: 0.01, currency: "USD" },
+    });
+
+    expect(stripPaymentToken(paid)?.headers.has("Authorization")).toBe(false);
+    expect(stripPaymentToken(makeContext("token"))).toBeUndefined();
+  });
+});
+
+describe("applyCrawlerCharge", () => {
+  it("should add crawler-charged to paid responses only", () => {
+    const paid = makeContext(undefined, {
+      crawlerPayment: { status: "paid", price: 0.01, currency: "USD" },
+    });
+    const charged = applyCrawlerCharge(new Response("OK", { headers: { "X-Origin": "1" } }), paid);
+
+    expect(charged.headers.get("crawler-charged")).toBe("USD 0.01");
+    expect(charged.headers.get("X-Origin")).toBe("1");
+
+    const response = new Response("OK");
+    expect(applyCrawlerCharge(response, makeContext())).toBe(response);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  findMatchingRateLimit,
+  rateLimitKey,
+  handleRateLimit,
+} from "../../src/managed-rules/rate-limit";
+import { MemoryRateLimitStore } from "../../src/rate-limit";
+import type { ResponseContext } from "../../src/types/middleware.types";
+import type { RateLimitRule } from "../../src/types/managed-rules.types";
+
+const mockCtx = {
+  waitUntil: () => { /* noop */ },
+  passThroughOnException: () => { /* noop */ },
+} as unknown as ExecutionContext;
+
+function makeContext(overrides: Partial<ResponseContext> = {}, ip = "203.0.113.7"): ResponseContext {
+  const url = new URL("https://example.com/page");
+  return {
+    request: new Request(url.href, { headers: { "CF-Connecting-IP": ip } }),
+    trafficType: "good_bot",
+    url,
+    isAiBot: true,
+    botName: "Bytespider",
+    botCategory: "ai-crawler",
+    botTags: ["bytedance", "llm-training"],
+    env: {},
+    ctx: mockCtx,
+    ...overrides,
+  } as ResponseContext;
+}
+
+describe("findMatchingRateLimit", () => {
+  it("should return the first matching rule and skip malformed rules", () => {
+    const rules: RateLimitRule[] = [
+      { name: "broken", match: {}, limit: 0, period: 60 },
+      { name: "search", match: { categories: ["search-engine"] }, limit: 100, period: 60 },
+      { name: "ai", match: { categories: ["ai-crawler"] }, limit: 10, period: 60 },
+    ];
+
+    expect(findMatchingRateLimit(makeContext(), rules)).toEqual({ rule: rules[2], index: 2 });
+    expect(findMatchingRateLimit(makeContext({ botCategory: "monitor" }), rules)).toBeNull();
+  });
+});
+
+describe("rateLimitKey", () => {
+  it("should key buckets by bot, IP or session", () => {
+    const rule: RateLimitRule = { name: "ai", match: {}, limit: 10, period: 60 };
+
+    expect(rateLimitKey(rule, 0, makeContext({ botVerification: "verified" }))).toBe("ai:bot:bytespider");
+    expect(rateLimitKey({ ...rule, key: "ip" }, 0, makeContext())).toBe("ai:ip:203.0.113.7");
+    expect(rateLimitKey({ ...rule, key: "session" }, 0, makeContext({ sessionId: "s1" }))).toBe("ai:session:s1");
+  });
+
+  it("should keep unverified and spoofed bots out of the verified bot bucket", () => {
+    const rule: RateLimitRule = { name: "ai", match: {}, limit: 10, period: 60 };
+    const signedAgent = { agent: "https://chatgpt.com", keyId: "abc", operator: "OpenAI" };
+
+    expect(rateLimitKey(rule, 0, makeContext({ botVerification: "verified" }))).toBe("ai:bot:bytespider");
+    expect(rateLimitKey(rule, 0, makeContext())).toBe("ai:bot:bytespider:unverified");
+    expect(rateLimitKey(rule, 0, makeContext({ botVerification: "unknown" }))).toBe("ai:bot:bytespider:unverified");
+    expect(rateLimitKey(rule, 0, makeContext({ botVerification: "spoofed" }))).toBe("ai:ip:203.0.113.7");
+    expect(rateLimitKey(rule, 0, makeContext({ botName: "ChatGPT-User", signedAgent }))).toBe("ai:bot:chatgpt-user");
+  });
+
+  it("should fall back to the client IP without a bot or session", () => {
+    const rule: RateLimitRule = { match: {}, limit: 10, period: 60 };
+
+    expect(rateLimitKey(rule, 3, makeContext({ botName: undefined }))).toBe("rule-3:ip:203.0.113.7");
+    expect(rateLimitKey({ ...rule, key: "session" }, 3, makeContext())).toBe("rule-3:ip:203.0.113.7");
+  });
+});
+
+describe("handleRateLimit", () => {
+  it("should answer with 429 and Retry-After once the bucket is empty", async () => {
+    const store = new MemoryRateLimitStore();
+    const rules: RateLimitRule[] = [{ name: "ai", match: { bots: ["Bytespider"] }, limit: 2, period: 60 }];
+
+    const verified = { botVerification: "verified" as const };
+    expect(await handleRateLimit(makeContext(verified), rules, store)).toBeNull();
+    expect(await handleRateLimit(makeContext(verified), rules, store)).toBeNull();
+
+    const context = makeContext(verified, "198.51.100.1");
+    const response = await handleRateLimit(context, rules, store);
+    expect(response?.status).toBe(429);
+    expect(response?.headers.get("Retry-After")).toBe("30");
+    expect(response?.headers.get("X-BotMon-RateLimit")).toBe("ai");
+    expect(context.rateLimit).toEqual({ rule: "ai", limited: true, retryAfter: 30 });
+  });
+
+  it("should record matched requests within the limit", async () => {
+    const context = makeContext();
+    const rules: RateLimitRule[] = [{ name: "ai", match: {}, limit: 5, period: 60 }];
+
+    expect(await handleRateLimit(context, rules, new MemoryRateLimitStore())).toBeNull();
+    expect(context.rateLimit).toEqual({ rule: "ai", limited: false });
+  });
+});
@@ -0,0 +1,235 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseRobotsGroups,
+  evaluateRobotsTxt,
+  enforceRobotsTxt,
+} from "../../src/managed-rules/robots-enforcement";
+import type { ResponseContext } from "../../src/types/middleware.types";
+import type { ResolvedConfig } from "../../src/types/managed-rules.types";
+
+const mockCtx = {
+  waitUntil: () => { /* noop */ },
+  passThroughOnException: () => { /* noop */ },
+} as unknown as ExecutionContext;
+
+const ROBOTS_TXT = `# Example
+User-agent: *
+Disallow: /admin
+Allow: /admin/public
+
+User-agent: GPTBot
+User-agent: ClaudeBot
+Disallow: /premium/
+Disallow: /*.pdf$
+Allow: /premium/free
+
+Sitemap: https://example.com/sitemap.xml
+`;
+
+const enforcement: ResolvedConfig["robotsEnforcement"] = {
+  enabled: true,
+  mode: "tag",
+  match: { categories: ["ai-crawler"] },
+};
+
+const robotsDisabled: ResolvedConfig["robotsTxt"] = { enabled: false, mode: "append" };
+
+/** Unique hostname per test, so the per-isolate cache doesn't leak between tests */
+let hostCounter = 0;
+
+function makeContext(path: string, overrides: Partial<ResponseContext> = {}): ResponseContext {
+  const url = new URL(`https://site${++hostCounter}.example.com${path}`);
+  return {
+    request: new Request(url.href),
+    trafficType: "good_bot",
+    url,
+    isAiBot: true,
+    botName: "GPTBot",
+    botToken: "GPTBot",
+    botCategory: "ai-crawler",
+    env: {},
+    ctx: mockCtx,
+    ...overrides,
+  } as ResponseContext;
+}
+
+function robotsOrigin(body = ROBOTS_TXT) {
+  return vi.fn().mockImplementation(async () =>
+    new Response(body, { headers: { "Content-Type": "text/plain" } }));
+}
+
+describe("parseRobotsGroups", () => {
+  it("should group consecutive user-agent lines and skip comments", () => {
+    const groups = parseRobotsGroups(ROBOTS_TXT);
+
+    expect(groups.map((group) => group.agents)).toEqual([["*"], ["gptbot", "claudebot"]]);
+    expect(groups[1].rules.map((rule) => rule.path)).toEqual(["/premium/", "/*.pdf$", "/premium/free"]);
+  });
+});
+
+describe("evaluateRobotsTxt", () => {
+  const groups = parseRobotsGroups(ROBOTS_TXT);
+
+  it("should use the group for the crawler's token, case-insensitively", () => {
+    expect(evaluateRobotsTxt(groups, "gptbot", "/premium/report")).toEqual({
+      allowed: false,
+      directive: "Disallow: /premium/",
+    });
+    // The specific group replaces "*", so /admin is allowed for GPTBot
+    expect(evaluateRobotsTxt(groups, "GPTBot", "/admin").allowed).toBe(true);
+  });
+
+  it("should fall back to the * group for other crawlers", () => {
+    expect(evaluateRobotsTxt(groups, "Bingbot", "/admin/users").allowed).toBe(false);
+    expect(evaluateRobotsTxt(groups, "Bingbot", "/premium/report").allowed).toBe(true);
+  });
+
+  it("should pick the longest matching rule", () => {
+    expect(evaluateRobotsTxt(groups, "ClaudeBot", "/premium/free/guide").allowed).toBe(true);
+    expect(evaluateRobotsTxt(groups, "Bingbot", "/admin/public/page").allowed).toBe(true);
+  });
+
+  it("should support * wildcards and $ anchors", () => {
+    expect(evaluateRobotsTxt(groups, "GPTBot", "/files/report.pdf")).toEqual({
+      allowed: false,
+      directive: "Disallow: /*.pdf$",
+    });
+    expect(evaluateRobotsTxt(groups, "GPTBot", "/files/report.pdf?download=1").allowed).toBe(true);
+  });
+
+  it("should let Allow win ties and ignore empty Disallow", () => {
+    const tie = parseRobotsGroups("User-agent: *\nDisallow: /page\nAllow: /page\n");
+    expect(evaluateRobotsTxt(tie, "GPTBot", "/page").allowed).toBe(true);
+
+    const empty = parseRobotsGroups("User-agent: *\nDisallow:\n");
+    expect(evaluateRobotsTxt(empty, "GPTBot", "/anything").allowed).toBe(true);
+  });
+});
+
+describe("enforceRobotsTxt", () => {
+  it("should tag violations without blocking in tag mode", async () => {
+    const context = makeContext("/premium/report");
+
+    expect(await enforceRobotsTxt(context, enforcement, robotsDisabled, robotsOrigin())).toBeNull();
+    expect(context.robotsViolation).toEqual({ directive: "Disallow: /premium/", mode: "tag" });
+  });
+
+  it("should answer violations with 403 in block mode", async () => {
+    const context = makeContext("/premium/report");
+    const response = await enforceRobotsTxt(context, { ...enforcement, mode: "block" }, robotsDisabled, robotsOrigin());
+
+    expect(response?.status).toBe(403);
+    expect(response?.headers.get("X-BotMon-Robots")).toBe("Disallow: /premium/");
+  });
+
+  it("should log violations in log mode", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => { /* noop */ });
+    const context = makeContext("/premium/report");
+
+    expect(await enforceRobotsTxt(context, { ...enforcement, mode: "log" }, robotsDisabled, robotsOrigin())).toBeNull();
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("GPTBot fetched /premium/report"));
+    warn.mockRestore();
+  });
+
+  it("should log each bot and directive once per hostname", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => { /* noop */ });
+    const logMode = { ...enforcement, mode: "log" as const };
+    const fetchRobotsTxt = robotsOrigin();
+    const first = makeContext("/premium/a");
+    const sameHost = (path: string, overrides: Partial<ResponseContext> = {}) =>
+      makeContext(path, { url: new URL(path, first.url), ...overrides });
+
+    await enforceRobotsTxt(first, logMode, robotsDisabled, fetchRobotsTxt);
+    await enforceRobotsTxt(sameHost("/premium/b"), logMode, robotsDisabled, fetchRobotsTxt);
+    expect(warn).toHaveBeenCalledTimes(1);
+
+    await enforceRobotsTxt(sameHost("/report.pdf"), logMode, robotsDisabled, fetchRobotsTxt);
+    await enforceRobotsTxt(
+      sameHost("/premium/a", { botName: "ClaudeBot", botToken: "ClaudeBot" }),
+      logMode,
+      robotsDisabled,
+      fetchRobotsTxt,
+    );
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+
+  it("should check managed robots.txt content", async () => {
+    const context = makeContext("/drafts/post");
+    const managed: ResolvedConfig["robotsTxt"] = {
+      enabled: true,
+      mode: "append",
+      content: "User-agent: GPTBot\nDisallow: /drafts/",
+    };
+
+    await enforceRobotsTxt(context, enforcement, managed, robotsOrigin("User-agent: *\nAllow: /\n"));
+    expect(context.robotsViolation?.directive).toBe("Disallow: /drafts/");
+  });
+
+  it("should fetch robots.txt once per hostname", async () => {
+    const fetchRobotsTxt = robotsOrigin();
+    const first = makeContext("/premium/a");
+    const second = makeContext("/premium/b", { url: first.url, request: first.request });
+
+    await enforceRobotsTxt(first, enforcement, robotsDisabled, fetchRobotsTxt);
+    await enforceRobotsTxt(second, enforcement, robotsDisabled, fetchRobotsTxt);
+
+    expect(fetchRobotsTxt).toHaveBeenCalledTimes(1);
+    expect(second.robotsViolation).toBeDefined();
+  });
+
+  it("should retry a failed robots.txt fetch soon, keeping the last good copy", async () => {
+    vi.useFakeTimers();
+    try {
+      const first = makeContext("/premium/a");
+      const sameHost = (path: string) => makeContext(path, { url: new URL(path, first.url) });
+      const good = () => new Response(ROBOTS_TXT, { headers: { "Content-Type": "text/plain" } });
+      const fetchRobotsTxt = vi.fn()
+        .mockImplementationOnce(async () => good())
+        .mockImplementationOnce(async () => new Response(null, { status: 304 }))
+        .mockImplementationOnce(async () => new Response("User-agent", { status: 206, headers: { "Content-Type": "text/plain" } }))
+        .mockImplementation(async () => good());
+
+      await enforceRobotsTxt(first, enforcement, robotsDisabled, fetchRobotsTxt);
+
+      // Full TTL elapsed: the 304 keeps the last good copy
+      vi.advanceTimersByTime(300_001);
+      const afterNotModified = sameHost("/premium/b");
+      await enforceRobotsTxt(afterNotModified, enforcement, robotsDisabled, fetchRobotsTxt);
+      expect(afterNotModified.robotsViolation).toBeDefined();
+      expect(fetchRobotsTxt).toHaveBeenCalledTimes(2);
+
+      // Failures are retried after a short TTL, still keeping the good copy
+      vi.advanceTimersByTime(30_001);
+      const afterPartial = sameHost("/premium/c");
+      await enforceRobotsTxt(afterPartial, enforcement, robotsDisabled, fetchRobotsTxt);
+      expect(afterPartial.robotsViolation).toBeDefined();
+      expect(fetchRobotsTxt).toHaveBeenCalledTimes(3);
+
+      vi.advanceTimersByTime(30_001);
+      await enforceRobotsTxt(sameHost("/premium/d"), enforcement, robotsDisabled, fetchRobotsTxt);
+      expect(fetchRobotsTxt).toHaveBeenCalledTimes(4);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("should skip robots.txt itself, unmatched bots and allowed paths", async () => {
+    const fetchRobotsTxt = robotsOrigin();
+
+    const robots = makeContext("/robots.txt");
+    const search = makeContext("/premium/report", { botName: "Googlebot", botToken: "Googlebot", botCategory: "search-engine" });
+    const allowed = makeContext("/blog");
+    for (const context of [robots, search, allowed]) {
+      expect(await enforceRobotsTxt(context, { ...enforcement, mode: "block" }, robotsDisabled, fetchRobotsTxt)).toBeNull();
+      expect(context.robotsViolation).toBeUndefined();
+    }
+  });
+
+  it("should treat a missing origin robots.txt as allowing everything", async () => {
+    const context = makeContext("/premium/report");
+    const notFound = vi.fn().mockResolvedValue(new Response("Not Found", { status: 404 }));
+
+    expect(await enforceRobotsTxt(context, { ...enforcement, mode: "block" }, robotsDisabled, notFound)).toBeNull();
+  });
+});
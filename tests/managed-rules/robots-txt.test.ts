@@ -12,7 +12,6 @@ function makeContext(): ResponseContext {
   const url = new URL("https://example.com/robots.txt");
   return {
     request: new Request(url.href),
-    response: new Response("origin robots.txt"),
     trafficType: "human",
     url,
     isAiBot: false,
@@ -105,12 +104,13 @@ describe("handleRobotsTxt", () => {
         enabled: true,
         mode: "disabled",
       };
-      const fetchOrigin = vi.fn();
+      const originResponse = new Response("origin");
+      const fetchOrigin = vi.fn().mockResolvedValue(originResponse);
 
       const response = await handleRobotsTxt(context, config, fetchOrigin);
 
-      expect(response).toBe(context.response);
-      expect(fetchOrigin).not.toHaveBeenCalled();
+      expect(response).toBe(originResponse);
+      expect(fetchOrigin).toHaveBeenCalledTimes(1);
     });
   });
 });
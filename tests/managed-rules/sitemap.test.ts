@@ -12,7 +12,6 @@ function makeContext(): ResponseContext {
   const url = new URL("https://example.com/sitemap.xml");
   return {
     request: new Request(url.href),
-    response: new Response("origin sitemap"),
     trafficType: "human",
     url,
     isAiBot: false,
@@ -92,12 +91,13 @@ describe("handleSitemap", () => {
         enabled: true,
         mode: "disabled",
       };
-      const fetchOrigin = vi.fn();
+      const originResponse = new Response("origin");
+      const fetchOrigin = vi.fn().mockResolvedValue(originResponse);
 
       const response = await handleSitemap(context, config, fetchOrigin);
 
-      expect(response).toBe(context.response);
-      expect(fetchOrigin).not.toHaveBeenCalled();
+      expect(response).toBe(originResponse);
+      expect(fetchOrigin).toHaveBeenCalledTimes(1);
     });
   });
 });
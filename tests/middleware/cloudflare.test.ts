@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createCloudflareMiddleware } from "../../src/middleware/cloudflare";
+import { BotMon } from "../../src/client/botmon";
 
 // Mock dependencies
 vi.mock("../../src/managed-rules/api-client", () => ({
@@ -94,4 +95,206 @@ describe("createCloudflareMiddleware", () => {
 
     expect(onResponse).toHaveBeenCalled();
   });
+
+  it("should pass the env IP hash secret to the SDK in hash mode", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const worker = createCloudflareMiddleware({ apiKey: "test-key", ipHandling: "hash" })(handler);
+
+    await worker.fetch(new Request("https://example.com/page"), { BOTMON_IP_HASH_SECRET: "env-secret" }, mockCtx);
+
+    expect(BotMon.init).toHaveBeenCalledWith(
+      expect.objectContaining({ ipHandling: "hash", ipHashSecret: "env-secret" }),
+    );
+  });
+
+  it("should not call the origin handler for blocked requests", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Secret"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      managedRules: {
+        accessPolicies: {
+          enabled: true,
+          rules: [{ name: "no-gptbot", match: { bots: ["GPTBot"] }, action: "block" }],
+        },
+      },
+    })(handler);
+
+    const request = new Request("https://example.com/page", {
+      headers: { "User-Agent": "GPTBot/1.0" },
+    });
+    const response = await worker.fetch(request, {}, mockCtx);
+
+    expect(response.status).toBe(403);
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it("should record refused crawls in analytics metadata", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("Article"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      managedRules: { crawlerPricing: { enabled: true, price: 0.01, secret: "secret" } },
+    })(handler);
+
+    const request = new Request("https://example.com/article", {
+      headers: { "User-Agent": "GPTBot/1.0" },
+    });
+    const response = await worker.fetch(request, {}, mockCtx);
+
+    expect(response.status).toBe(402);
+    expect(handler).not.toHaveBeenCalled();
+    expect((BotMon.init as any)().track).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({
+        metadata: expect.objectContaining({ crawlerPayment: "refused", crawlerPrice: "USD 0.01" }),
+      }),
+    );
+  });
+
+  it("should rate limit with a store built from env", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const consume = vi.fn().mockResolvedValue({ allowed: false, retryAfter: 12 });
+    const rateLimitStore = vi.fn().mockReturnValue({ consume });
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      rateLimitStore,
+      managedRules: {
+        rateLimits: {
+          enabled: true,
+          rules: [{ name: "ai", match: { categories: ["ai-crawler"] }, limit: 10, period: 60 }],
+        },
+      },
+    })(handler);
+    const env = { BOTMON_RATE_LIMITER: {} };
+
+    const request = new Request("https://example.com/page", {
+      headers: { "User-Agent": "Bytespider" },
+    });
+    const response = await worker.fetch(request, env, mockCtx);
+
+    expect(rateLimitStore).toHaveBeenCalledWith(env);
+    // Unverified crawler claims share a bucket apart from verified traffic
+    expect(consume).toHaveBeenCalledWith("ai:bot:bytespider:unverified", { limit: 10, period: 60 });
+    expect(response.status).toBe(429);
+    expect(response.headers.get("Retry-After")).toBe("12");
+    expect(handler).not.toHaveBeenCalled();
+    expect((BotMon.init as any)().track).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({
+        metadata: expect.objectContaining({ rateLimitRule: "ai", rateLimited: true }),
+      }),
+    );
+  });
+
+  it("should record robots.txt violations from the origin robots.txt", async () => {
+    const handler = vi.fn(async (request: Request) => new URL(request.url).pathname === "/robots.txt"
+      ? new Response("User-agent: GPTBot\nDisallow: /private/", { headers: { "Content-Type": "text/plain" } })
+      : new Response("Private"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      managedRules: { robotsEnforcement: { enabled: true } },
+    })(handler);
+
+    const request = new Request("https://robots-cf.example.com/private/page", {
+      headers: { "User-Agent": "GPTBot/1.0" },
+    });
+    const response = await worker.fetch(request, {}, mockCtx);
+
+    expect(await response.text()).toBe("Private");
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect((BotMon.init as any)().track).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({
+        metadata: expect.objectContaining({ robotsViolation: true, robotsDirective: "Disallow: /private/" }),
+      }),
+    );
+  });
+
+  it("should fetch robots.txt with routing headers only and reuse it on cache hits", async () => {
+    const handler = vi.fn(async (request: Request) => new URL(request.url).pathname === "/robots.txt"
+      ? new Response("User-agent: GPTBot\nDisallow: /private/", { headers: { "Content-Type": "text/plain" } })
+      : new Response("Page"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      managedRules: { robotsEnforcement: { enabled: true } },
+    })(handler);
+    const crawl = (path: string) => worker.fetch(new Request(`https://robots-cache.example.com${path}`, {
+      headers: {
+        "User-Agent": "GPTBot/1.0",
+        "X-Forwarded-Host": "robots-cache.example.com",
+        "Authorization": "Bearer secret",
+        "Cookie": "session=1",
+        "If-None-Match": "\"v1\"",
+        "Range": "bytes=0-10",
+      },
+    }), {}, mockCtx);
+
+    await crawl("/private/a");
+    const robotsRequest: Request = handler.mock.calls[0][0];
+    expect(new URL(robotsRequest.url).pathname).toBe("/robots.txt");
+    expect(robotsRequest.headers.get("User-Agent")).toBe("GPTBot/1.0");
+    expect(robotsRequest.headers.get("X-Forwarded-Host")).toBe("robots-cache.example.com");
+    for (const name of ["Authorization", "Cookie", "If-None-Match", "Range"]) {
+      expect(robotsRequest.headers.has(name)).toBe(false);
+    }
+    expect(handler).toHaveBeenCalledTimes(2);
+
+    // Cached robots.txt: only the page itself reaches the handler
+    await crawl("/private/b");
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(new URL(handler.mock.calls[2][0].url).pathname).toBe("/private/b");
+  });
+
+  it("should call the origin handler once with an onResponse hook", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      onResponse: (context) => context.response,
+    })(handler);
+
+    const response = await worker.fetch(new Request("https://example.com/page"), {}, mockCtx);
+
+    expect(await response.text()).toBe("OK");
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should not call the origin handler again when a later step fails", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      // Consumes the origin body, so attaching the session cookie throws
+      onResponse: async (context) => {
+        await context.response.text();
+        return context.response;
+      },
+    })(handler);
+
+    const response = await worker.fetch(new Request("https://example.com/page"), {}, mockCtx);
+
+    expect(response.status).toBe(502);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("should expose request authentication results to hooks and analytics", async () => {
+    const onResponse = vi.fn((context) => context.response);
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      verification: { sources: { openai: { userAgents: ["GPTBot"], ranges: ["20.171.206.0/24"] } } },
+      onResponse,
+    })(vi.fn().mockResolvedValue(new Response("OK")));
+
+    const request = new Request("https://example.com/page", {
+      headers: { "User-Agent": "GPTBot/1.0", "CF-Connecting-IP": "203.0.113.42" },
+    });
+    await worker.fetch(request, {}, mockCtx);
+
+    expect(onResponse.mock.calls[0][0]).toMatchObject({
+      botVerification: "spoofed",
+      signedAgent: undefined,
+      trafficType: "bad_bot",
+    });
+    expect((BotMon.init as any)().track).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({ botVerification: "spoofed", signedAgent: undefined }),
+    );
+  });
 });
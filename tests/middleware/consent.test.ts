@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { resolveConsent, cookielessSessionId } from "../../src/middleware/consent";
+import { createCloudflareMiddleware } from "../../src/middleware/cloudflare";
+import { BotMon } from "../../src/client/botmon";
+
+vi.mock("../../src/managed-rules/api-client", () => ({
+  fetchConfig: vi.fn().mockResolvedValue(null),
+}));
+
+vi.mock("../../src/client/botmon", () => ({
+  BotMon: {
+    init: vi.fn().mockReturnValue({
+      track: vi.fn(),
+    }),
+  },
+}));
+
+const mockCtx = {
+  waitUntil: vi.fn(),
+  passThroughOnException: vi.fn(),
+} as unknown as ExecutionContext;
+
+function getMockTrack() {
+  return (BotMon.init as any)().track;
+}
+
+function makeRequest(headers: Record<string, string> = {}): Request {
+  return new Request("https://example.com/page", {
+    headers: { "CF-Connecting-IP": "203.0.113.42", "User-Agent": "Mozilla/5.0", ...headers },
+  });
+}
+
+describe("resolveConsent", () => {
+  it("should read the consent cookie", async () => {
+    const config = { enabled: true, cookieName: "consent" };
+
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=granted" }), config)).toBe("granted");
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=necessary" }), config)).toBe("denied");
+    expect(await resolveConsent(makeRequest(), config)).toBe("unknown");
+  });
+
+  it("should support custom granted values", async () => {
+    const config = { enabled: true, cookieName: "consent", grantedValues: ["analytics"] };
+
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=analytics" }), config)).toBe("granted");
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=1" }), config)).toBe("denied");
+  });
+
+  it("should let Sec-GPC and DNT override stored consent", async () => {
+    const config = { enabled: true, cookieName: "consent" };
+
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=1", "Sec-GPC": "1" }), config)).toBe("denied");
+    expect(await resolveConsent(makeRequest({ Cookie: "consent=1", DNT: "1" }), config)).toBe("denied");
+    expect(await resolveConsent(
+      makeRequest({ Cookie: "consent=1", DNT: "1" }),
+      { ...config, honorDnt: false },
+    )).toBe("granted");
+  });
+
+  it("should use the resolve callback before the cookie", async () => {
+    const resolve = vi.fn().mockReturnValue("granted");
+
+    const state = await resolveConsent(makeRequest({ Cookie: "consent=0" }), {
+      enabled: true,
+      cookieName: "consent",
+      resolve,
+    });
+
+    expect(state).toBe("granted");
+    expect(resolve).toHaveBeenCalledWith(expect.any(Request));
+  });
+});
+
+describe("cookielessSessionId", () => {
+  it("should be stable for the same IP, UA and day", async () => {
+    const day = new Date("2026-03-01T08:00:00Z");
+    const id = await cookielessSessionId(makeRequest(), "secret", day);
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(await cookielessSessionId(makeRequest(), "secret", new Date("2026-03-01T20:00:00Z"))).toBe(id);
+    expect(await cookielessSessionId(makeRequest(), "secret", new Date("2026-03-02T08:00:00Z"))).not.toBe(id);
+    expect(await cookielessSessionId(makeRequest({ "User-Agent": "Other" }), "secret", day)).not.toBe(id);
+  });
+});
+
+describe("Consent mode middleware", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const consent = { enabled: true, cookieName: "consent" };
+
+  it("should set the session cookie once consent is granted", async () => {
+    const worker = createCloudflareMiddleware({ apiKey: "test-key", consent })(
+      vi.fn().mockResolvedValue(new Response("OK")),
+    );
+
+    const response = await worker.fetch(makeRequest({ Cookie: "consent=yes" }), {}, mockCtx);
+
+    expect(response.headers.get("Set-Cookie")).toContain("__botmon_sid=");
+    expect(getMockTrack()).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({ consentState: "granted" }),
+    );
+  });
+
+  it("should use a cookieless session without consent", async () => {
+    const worker = createCloudflareMiddleware({ apiKey: "test-key", consent })(
+      vi.fn().mockResolvedValue(new Response("OK")),
+    );
+
+    const response = await worker.fetch(makeRequest(), {}, mockCtx);
+
+    expect(response.headers.get("Set-Cookie")).toBeNull();
+    expect(getMockTrack()).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({
+        consentState: "unknown",
+        sessionId: await cookielessSessionId(makeRequest()),
+      }),
+    );
+  });
+
+  it("should expire an existing session cookie when consent is denied", async () => {
+    const worker = createCloudflareMiddleware({ apiKey: "test-key", consent })(
+      vi.fn().mockResolvedValue(new Response("OK")),
+    );
+
+    const response = await worker.fetch(
+      makeRequest({ Cookie: "consent=1; __botmon_sid=550e8400-e29b-41d4-a716-446655440000", "Sec-GPC": "1" }),
+      {},
+      mockCtx,
+    );
+
+    expect(response.headers.get("Set-Cookie")).toContain("__botmon_sid=; Path=/; Max-Age=0");
+    expect(getMockTrack()).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({ consentState: "denied" }),
+    );
+  });
+
+  it("should not mark events when consent mode is disabled", async () => {
+    const worker = createCloudflareMiddleware({ apiKey: "test-key" })(
+      vi.fn().mockResolvedValue(new Response("OK")),
+    );
+
+    await worker.fetch(makeRequest({ DNT: "1" }), {}, mockCtx);
+
+    expect(getMockTrack()).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({ consentState: undefined }),
+    );
+  });
+});
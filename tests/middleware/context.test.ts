@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { buildContext } from "../../src/middleware/context";
+import { BOT_CATALOG, BotCatalog, applyBotDefinitions } from "../../src/classification/bot-catalog";
 
 // Mock ExecutionContext
 const mockCtx = {
@@ -8,49 +9,97 @@ const mockCtx = {
 } as unknown as ExecutionContext;
 
 describe("buildContext", () => {
-  it("should build context from request and response", () => {
+  it("should build context from request before origin responds", () => {
     const request = new Request("https://example.com/page", {
-      headers: { "User-Agent": "Mozilla/5.0 Chrome/120" },
+      headers: {
+        "User-Agent": "Mozilla/5.0 Chrome/120",
+        Accept: "text/html",
+        "Accept-Language": "en-US",
+        "Sec-CH-UA": "\"Chromium\";v=\"120\"",
+      },
     });
-    const response = new Response("OK", { status: 200 });
 
-    const context = buildContext(request, response, {}, mockCtx);
+    const context = buildContext(request, {}, mockCtx);
 
     expect(context.url.pathname).toBe("/page");
     expect(context.url.hostname).toBe("example.com");
     expect(context.isAiBot).toBe(false);
     expect(context.trafficType).toBe("human");
     expect(context.request).toBe(request);
-    expect(context.response).toBe(response);
+    expect(context.response).toBeUndefined();
   });
 
   it("should detect AI bot from user-agent", () => {
     const request = new Request("https://example.com/", {
       headers: { "User-Agent": "GPTBot/1.0" },
     });
-    const response = new Response("OK");
 
-    const context = buildContext(request, response, {}, mockCtx);
+    const context = buildContext(request, {}, mockCtx);
 
     expect(context.isAiBot).toBe(true);
     expect(context.botName).toBe("GPTBot");
+    expect(context.botToken).toBe("GPTBot");
     expect(context.trafficType).toBe("good_bot");
   });
 
   it("should extract country from cf object", () => {
     const request = new Request("https://example.com/");
     (request as any).cf = { country: "US" };
-    const response = new Response("OK");
 
-    const context = buildContext(request, response, {}, mockCtx);
+    const context = buildContext(request, {}, mockCtx);
     expect(context.country).toBe("US");
   });
 
   it("should handle missing cf object", () => {
     const request = new Request("https://example.com/");
-    const response = new Response("OK");
 
-    const context = buildContext(request, response, {}, mockCtx);
+    const context = buildContext(request, {}, mockCtx);
     expect(context.country).toBeUndefined();
   });
+
+  it("should treat spoofed crawlers as bad bots without AI bot treatment", () => {
+    const request = new Request("https://example.com/", {
+      headers: { "User-Agent": "GPTBot/1.0" },
+    });
+
+    const context = buildContext(request, {}, mockCtx, { botVerification: "spoofed" });
+
+    expect(context.botName).toBe("GPTBot");
+    expect(context.botVerification).toBe("spoofed");
+    expect(context.isAiBot).toBe(false);
+    expect(context.trafficType).toBe("bad_bot");
+  });
+
+  it("should classify header anomalies and automation", () => {
+    const classify = (headers: Record<string, string>) =>
+      buildContext(new Request("https://example.com/", { headers }), {}, mockCtx);
+
+    expect(classify({ "User-Agent": "Mozilla/5.0 Chrome/120" }).trafficType).toBe("bad_bot");
+    expect(classify({ "User-Agent": "python-requests/2.31" }).trafficType).toBe("neutral_bot");
+    expect(classify({ "User-Agent": "Mozilla/5.0 HeadlessChrome/120", Accept: "*/*" }).classification)
+      .toMatchObject({ type: "bad_bot", botName: "HeadlessChrome" });
+  });
+
+  it("should use the resolved bot catalog", () => {
+    const catalog = new BotCatalog(applyBotDefinitions(BOT_CATALOG, {
+      additions: [{
+        pattern: "FreshCrawler",
+        name: "FreshCrawler",
+        category: "ai-crawler",
+        operator: "Fresh AI",
+        purpose: "training",
+        respectsRobots: true,
+        tags: [],
+      }],
+    }));
+    const request = new Request("https://example.com/", {
+      headers: { "User-Agent": "FreshCrawler/2.0" },
+    });
+
+    const context = buildContext(request, {}, mockCtx, {}, catalog);
+    expect(context.isAiBot).toBe(true);
+    expect(context.botName).toBe("FreshCrawler");
+    expect(context.botOperator).toBe("Fresh AI");
+    expect(context.trafficType).toBe("good_bot");
+  });
 });
@@ -1,18 +1,25 @@
 import { describe, it, expect, vi } from "vitest";
-import { runPipeline } from "../../src/middleware/pipeline";
+import { runPipeline, lazyOrigin } from "../../src/middleware/pipeline";
 import type { ResponseContext } from "../../src/types/middleware.types";
 import type { ResolvedConfig } from "../../src/types/managed-rules.types";
+import { DEFAULT_BOT_CATALOG } from "../../src/classification/bot-catalog";
+import { MemoryRateLimitStore } from "../../src/rate-limit";
+import { importHmacKey, hmacSign, toBase64Url } from "../../src/utils/crypto";
 
 const mockCtx = {
   waitUntil: () => { /* noop */ },
   passThroughOnException: () => { /* noop */ },
 } as unknown as ExecutionContext;
 
+/** Origin handler mock resolving to a fresh response */
+function mockOrigin(body = "origin body", init?: ResponseInit) {
+  return vi.fn().mockImplementation(async () => new Response(body, init));
+}
+
 function makeContext(overrides: Partial<ResponseContext> = {}): ResponseContext {
   const url = overrides.url || new URL("https://example.com/page");
   return {
     request: new Request(url.href),
-    response: new Response("origin body"),
     trafficType: "human",
     url,
     isAiBot: false,
@@ -27,18 +34,54 @@ const disabledConfig: ResolvedConfig = {
   sitemap: { enabled: false, mode: "merge" },
   wellKnown: { enabled: false, files: {} },
   geo: { enabled: false, injectJsonLd: true, injectSummary: true, enrichHeadings: true, rules: [] },
+  bots: DEFAULT_BOT_CATALOG,
+  accessPolicies: { enabled: false, rules: [] },
+  crawlerPricing: { enabled: false, price: 0, currency: "USD", match: { categories: ["ai-crawler"] } },
+  rateLimits: { enabled: false, rules: [] },
+  robotsEnforcement: { enabled: false, mode: "tag", match: {} },
 };
 
 describe("runPipeline", () => {
   it("should return origin response when no rules match", async () => {
     const context = makeContext();
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin();
 
     const { response, appliedRules } = await runPipeline(context, disabledConfig, originFetch);
 
     expect(appliedRules).toHaveLength(0);
     const body = await response.text();
     expect(body).toBe("origin body");
+    expect(originFetch).toHaveBeenCalledTimes(1);
+    expect(context.response).toBe(response);
+  });
+
+  it("should never call origin for requests intercepted before origin", async () => {
+    const url = new URL("https://example.com/sitemap.xml");
+    const context = makeContext({ url, request: new Request(url.href) });
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      sitemap: { enabled: true, mode: "replace", content: "<urlset></urlset>" },
+    };
+    const originFetch = mockOrigin();
+
+    await runPipeline(context, config, originFetch);
+
+    expect(originFetch).not.toHaveBeenCalled();
+  });
+
+  it("should fetch origin once for stages that build on the origin response", async () => {
+    const url = new URL("https://example.com/robots.txt");
+    const context = makeContext({ url, request: new Request(url.href) });
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      robotsTxt: { enabled: true, mode: "append", content: "User-agent: GPTBot\nDisallow: /" },
+    };
+    const originFetch = mockOrigin("User-agent: *\nAllow: /");
+
+    const { response } = await runPipeline(context, config, originFetch);
+
+    expect(await response.text()).toContain("User-agent: GPTBot");
+    expect(originFetch).toHaveBeenCalledTimes(1);
   });
 
   it("should intercept /robots.txt when enabled", async () => {
@@ -68,7 +111,7 @@ describe("runPipeline", () => {
         content: "<urlset><url><loc>https://example.com/</loc></url></urlset>",
       },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin();
 
     const { response, appliedRules } = await runPipeline(context, config, originFetch);
 
@@ -89,7 +132,7 @@ describe("runPipeline", () => {
         },
       },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin();
 
     const { response, appliedRules } = await runPipeline(context, config, originFetch);
 
@@ -110,7 +153,7 @@ describe("runPipeline", () => {
         },
       },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin();
 
     const { response, appliedRules } = await runPipeline(context, config, originFetch);
 
@@ -128,7 +171,7 @@ describe("runPipeline", () => {
       robotsTxt: { enabled: true, mode: "replace", content: "Disallow: /" },
       sitemap: { enabled: true, mode: "replace", content: "<urlset></urlset>" },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin();
 
     const { appliedRules } = await runPipeline(context, config, originFetch);
 
@@ -142,7 +185,6 @@ describe("runPipeline", () => {
     const context = makeContext({
       url,
       request: new Request(url.href, { headers: { "User-Agent": "GPTBot/1.0" } }),
-      response: new Response(htmlBody, { headers: { "Content-Type": "text/html" } }),
       isAiBot: true,
       trafficType: "good_bot",
       botName: "GPTBot",
@@ -157,7 +199,7 @@ describe("runPipeline", () => {
         rules: [{ urlPattern: "/products/*", pageType: "product" }],
       },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin(htmlBody, { headers: { "Content-Type": "text/html" } });
 
     const { response, appliedRules } = await runPipeline(context, config, originFetch);
 
@@ -171,31 +213,194 @@ describe("runPipeline", () => {
     const context = makeContext({
       url,
       request: new Request(url.href),
-      response: new Response("<html><head><title>Widget</title></head><body></body></html>", {
-        headers: { "Content-Type": "text/html" },
-      }),
       isAiBot: false,
     });
     const config: ResolvedConfig = {
       ...disabledConfig,
       geo: { enabled: true, injectJsonLd: true, injectSummary: true, enrichHeadings: true, rules: [] },
     };
-    const originFetch = vi.fn();
+    const originFetch = mockOrigin("<html><head><title>Widget</title></head><body></body></html>", {
+      headers: { "Content-Type": "text/html" },
+    });
 
     const { appliedRules } = await runPipeline(context, config, originFetch);
 
     expect(appliedRules).not.toContain("geo");
   });
 
+  it("should block training crawlers on premium paths and allow AI search", async () => {
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      robotsTxt: { enabled: true, mode: "replace", content: "User-agent: *\nAllow: /" },
+      accessPolicies: {
+        enabled: true,
+        rules: [
+          { name: "allow-ai-search", match: { categories: ["ai-search"] }, action: "allow" },
+          { name: "premium-training", match: { tags: ["llm-training"], paths: ["/premium/**"] }, action: "block" },
+        ],
+      },
+    };
+    const crawler = (path: string, botName: string, botCategory: string, botTags: string[]) => {
+      const url = new URL(`https://example.com${path}`);
+      return makeContext({ url, request: new Request(url.href), botName, botCategory, botTags });
+    };
+
+    const blockedContext = crawler("/premium/report", "GPTBot", "ai-crawler", ["openai", "llm-training"]);
+    const blockedOrigin = mockOrigin();
+    const blocked = await runPipeline(blockedContext, config, blockedOrigin);
+    expect(blocked.response.status).toBe(403);
+    expect(blocked.appliedRules).toEqual(["access-policy"]);
+    expect(blockedContext.accessPolicy).toEqual({ rule: "premium-training", action: "block" });
+    expect(blockedOrigin).not.toHaveBeenCalled();
+
+    const searchContext = crawler("/premium/report", "OAI-SearchBot", "ai-search", ["openai", "search"]);
+    const allowed = await runPipeline(searchContext, config, mockOrigin());
+    expect(await allowed.response.text()).toBe("origin body");
+    expect(searchContext.accessPolicy).toEqual({ rule: "allow-ai-search", action: "allow" });
+
+    // Managed robots.txt stays reachable for blocked crawlers
+    const robots = await runPipeline(crawler("/robots.txt", "GPTBot", "ai-crawler", ["llm-training"]), config, mockOrigin());
+    expect(robots.appliedRules).toEqual(["robots-txt"]);
+  });
+
+  it("should charge AI crawlers before origin and let AI search through", async () => {
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      accessPolicies: {
+        enabled: true,
+        rules: [{ name: "free-for-partners", match: { bots: ["ClaudeBot"] }, action: "allow" }],
+      },
+      crawlerPricing: { ...disabledConfig.crawlerPricing, enabled: true, price: 0.02, secret: "secret" },
+    };
+    const crawler = (botName: string, botCategory: string) =>
+      makeContext({ botName, botCategory, isAiBot: true });
+
+    const unpaidContext = crawler("GPTBot", "ai-crawler");
+    const unpaidOrigin = mockOrigin();
+    const unpaid = await runPipeline(unpaidContext, config, unpaidOrigin);
+    expect(unpaid.response.status).toBe(402);
+    expect(unpaid.response.headers.get("crawler-price")).toBe("USD 0.02");
+    expect(unpaid.appliedRules).toEqual(["crawler-pricing"]);
+    expect(unpaidOrigin).not.toHaveBeenCalled();
+
+    const search = await runPipeline(crawler("OAI-SearchBot", "ai-search"), config, mockOrigin());
+    expect(search.response.status).toBe(200);
+
+    // An "allow" policy exempts the crawler from pricing
+    const partnerContext = crawler("ClaudeBot", "ai-crawler");
+    const partner = await runPipeline(partnerContext, config, mockOrigin());
+    expect(partner.response.status).toBe(200);
+    expect(partnerContext.crawlerPayment).toBeUndefined();
+  });
+
+  it("should forward paid crawls to origin without the payment token", async () => {
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      crawlerPricing: { ...disabledConfig.crawlerPricing, enabled: true, price: 0.02, secret: "secret" },
+    };
+    const encode = (value: unknown) => toBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+    const input = `${encode({ alg: "HS256" })}.${encode({ exp: Date.now() / 1000 + 3600 })}`;
+    const token = `${input}.${await hmacSign(await importHmacKey("secret"), input)}`;
+    const context = makeContext({
+      request: new Request("https://example.com/page", {
+        headers: { Authorization: `Bearer ${token}`, "X-Custom": "1" },
+      }),
+      botName: "GPTBot",
+      botCategory: "ai-crawler",
+      isAiBot: true,
+    });
+    const originFetch = mockOrigin();
+
+    const { response } = await runPipeline(context, config, originFetch);
+
+    expect(response.headers.get("crawler-charged")).toBe("USD 0.02");
+    const forwarded: Request = originFetch.mock.calls[0][0];
+    expect(forwarded.headers.has("Authorization")).toBe(false);
+    expect(forwarded.headers.get("X-Custom")).toBe("1");
+  });
+
+  it("should block robots.txt violations without calling origin", async () => {
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      robotsEnforcement: { enabled: true, mode: "block", match: {} },
+    };
+    const url = new URL("https://enforced.example.com/private/data");
+    const context = makeContext({ url, request: new Request(url.href), botName: "GPTBot", botToken: "GPTBot" });
+    const originFetch = mockOrigin();
+    const fetchRobotsTxt = mockOrigin("User-agent: GPTBot\nDisallow: /private", {
+      headers: { "Content-Type": "text/plain" },
+    });
+
+    const { response, appliedRules } = await runPipeline(context, config, originFetch, { fetchRobotsTxt });
+
+    expect(response.status).toBe(403);
+    expect(appliedRules).toEqual(["robots-enforcement"]);
+    expect(context.robotsViolation).toEqual({ directive: "Disallow: /private", mode: "block" });
+    expect(originFetch).not.toHaveBeenCalled();
+  });
+
+  it("should rate limit aggressive crawlers without calling origin", async () => {
+    const config: ResolvedConfig = {
+      ...disabledConfig,
+      rateLimits: {
+        enabled: true,
+        rules: [{ name: "bytespider", match: { bots: ["Bytespider"] }, limit: 1, period: 60 }],
+      },
+    };
+    const store = new MemoryRateLimitStore();
+    const crawler = () => makeContext({ botName: "Bytespider", botCategory: "ai-crawler" });
+
+    const first = await runPipeline(crawler(), config, mockOrigin(), { rateLimitStore: store });
+    expect(first.response.status).toBe(200);
+
+    const originFetch = mockOrigin();
+    const limited = await runPipeline(crawler(), config, originFetch, { rateLimitStore: store });
+    expect(limited.response.status).toBe(429);
+    expect(limited.response.headers.get("Retry-After")).toBe("60");
+    expect(limited.appliedRules).toEqual(["rate-limit"]);
+    expect(originFetch).not.toHaveBeenCalled();
+
+    // Without a store the stage is skipped
+    const unlimited = await runPipeline(crawler(), config, mockOrigin());
+    expect(unlimited.response.status).toBe(200);
+  });
+
+  it("should mark paid crawls on the origin response", async () => {
+    const context = makeContext({
+      botName: "GPTBot",
+      botCategory: "ai-crawler",
+      crawlerPayment: { status: "paid", price: 0.01, currency: "USD" },
+    });
+
+    const { response, appliedRules } = await runPipeline(context, disabledConfig, mockOrigin());
+
+    expect(response.headers.get("crawler-charged")).toBe("USD 0.01");
+    expect(await response.text()).toBe("origin body");
+    expect(appliedRules).toEqual(["crawler-pricing"]);
+  });
+
   it("should isolate errors — a failing stage does not break the pipeline", async () => {
     const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => { /* noop */ });
     const url = new URL("https://example.com/page");
     const context = makeContext({ url, request: new Request(url.href) });
 
     // All stages disabled, so none will throw — but pipeline should still return
-    const { response } = await runPipeline(context, disabledConfig, vi.fn());
+    const { response } = await runPipeline(context, disabledConfig, mockOrigin());
 
     expect(response).toBeDefined();
     consoleSpy.mockRestore();
   });
 });
+
+describe("lazyOrigin", () => {
+  it("should invoke the handler at most once and share the response", async () => {
+    const handler = mockOrigin();
+    const originFetch = lazyOrigin(handler);
+
+    expect(handler).not.toHaveBeenCalled();
+    const [first, second] = await Promise.all([originFetch(), originFetch()]);
+
+    expect(first).toBe(second);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+});
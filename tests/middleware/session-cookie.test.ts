@@ -1,6 +1,11 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { createCloudflareMiddleware } from "../../src/middleware/cloudflare";
 import { BotMon } from "../../src/client/botmon";
+import {
+  resolveSessionCookieOptions,
+  readSession,
+  buildSessionCookie,
+} from "../../src/middleware/session-cookie";
 
 // Mock dependencies
 vi.mock("../../src/managed-rules/api-client", () => ({
@@ -167,3 +172,107 @@ describe("Session Cookie Tracking", () => {
     expect(match![1]).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i);
   });
 });
+
+describe("Signed Session Cookies", () => {
+  const SECRET = "test-session-secret";
+
+  function requestWithCookie(value: string): Request {
+    return new Request("https://example.com/page", {
+      headers: { Cookie: `__botmon_sid=${value}` },
+    });
+  }
+
+  function cookieValue(setCookie: string | null): string {
+    return setCookie!.match(/__botmon_sid=([^;]+)/)![1];
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("should sign the session ID and accept it on the next request", async () => {
+    const options = resolveSessionCookieOptions({}, SECRET);
+    const first = await readSession(new Request("https://example.com/"), options);
+    const value = cookieValue(await buildSessionCookie(first, options));
+
+    expect(value).toMatch(/^[0-9a-f-]{36}\.[0-9a-z]+\.[A-Za-z0-9_-]+$/);
+
+    const second = await readSession(requestWithCookie(value), options);
+    expect(second).toMatchObject({ sessionId: first.sessionId, isNew: false });
+  });
+
+  it("should reject forged and tampered values", async () => {
+    const options = resolveSessionCookieOptions({}, SECRET);
+    const session = await readSession(new Request("https://example.com/"), options);
+    const value = cookieValue(await buildSessionCookie(session, options));
+    const forgedId = "550e8400-e29b-41d4-a716-446655440000";
+    const tampered = [forgedId, ...value.split(".").slice(1)].join(".");
+
+    expect((await readSession(requestWithCookie(forgedId), options)).isNew).toBe(true);
+    expect((await readSession(requestWithCookie(tampered), options)).isNew).toBe(true);
+    expect((await readSession(requestWithCookie(value), resolveSessionCookieOptions({}, "other"))).isNew).toBe(true);
+  });
+
+  it("should reject replayed cookies older than maxAge", async () => {
+    const options = resolveSessionCookieOptions({ maxAge: 60 }, SECRET);
+    const start = Date.parse("2026-03-01T08:00:00Z");
+    const session = await readSession(new Request("https://example.com/"), options, start);
+    const value = cookieValue(await buildSessionCookie(session, options, start));
+
+    expect((await readSession(requestWithCookie(value), options, start + 59_000)).isNew).toBe(false);
+    expect((await readSession(requestWithCookie(value), options, start + 61_000)).isNew).toBe(true);
+  });
+
+  it("should keep the start time with absolute expiry", async () => {
+    const options = resolveSessionCookieOptions({ maxAge: 60, expiry: "absolute" }, SECRET);
+    const start = Date.parse("2026-03-01T08:00:00Z");
+    const session = await readSession(new Request("https://example.com/"), options, start);
+    const value = cookieValue(await buildSessionCookie(session, options, start));
+
+    const later = await readSession(requestWithCookie(value), options, start + 30_000);
+    expect(await buildSessionCookie(later, options, start + 30_000)).toBeNull();
+    expect((await readSession(requestWithCookie(value), options, start + 61_000)).isNew).toBe(true);
+  });
+
+  it("should reject non-UUID values in unsigned mode", async () => {
+    const options = resolveSessionCookieOptions({});
+
+    expect((await readSession(requestWithCookie("<script>"), options)).isNew).toBe(true);
+  });
+
+  it("should apply configured cookie attributes", async () => {
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const worker = createCloudflareMiddleware({
+      apiKey: "test-key",
+      sessionTracking: { domain: ".example.com", path: "/app", sameSite: "None", partitioned: true },
+    })(handler);
+
+    const response = await worker.fetch(new Request("https://example.com/page"), {}, mockCtx);
+
+    const setCookie = response.headers.get("Set-Cookie")!;
+    expect(setCookie).toContain("Path=/app");
+    expect(setCookie).toContain("Domain=.example.com");
+    expect(setCookie).toContain("SameSite=None");
+    expect(setCookie).toContain("Partitioned");
+  });
+
+  it("should read the signing secret from env and regenerate forged cookies", async () => {
+    const forgedId = "550e8400-e29b-41d4-a716-446655440000";
+    const handler = vi.fn().mockResolvedValue(new Response("OK"));
+    const worker = createCloudflareMiddleware({ apiKey: "test-key" })(handler);
+
+    const response = await worker.fetch(
+      requestWithCookie(forgedId),
+      { BOTMON_SESSION_SECRET: SECRET },
+      mockCtx,
+    );
+
+    const value = cookieValue(response.headers.get("Set-Cookie"));
+    expect(value.startsWith(forgedId)).toBe(false);
+    expect(value.split(".")).toHaveLength(3);
+    expect(getMockTrack()).toHaveBeenCalledWith(
+      mockCtx,
+      expect.objectContaining({ sessionId: value.split(".")[0] }),
+    );
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { IpAnonymizer, truncateIp } from "../../src/privacy/ip-anonymizer";
+import { BotMon } from "../../src/client/botmon";
+import { MemoryTransport } from "../../src/transports";
+
+describe("truncateIp", () => {
+  it("should truncate IPv4 addresses to /24", () => {
+    expect(truncateIp("203.0.113.42")).toEqual({ address: "203.0.113.0", cidr: "203.0.113.0/24" });
+  });
+
+  it("should truncate IPv6 addresses to /48", () => {
+    expect(truncateIp("2001:db8:85a3:8d3:1319:8a2e:370:7348")).toEqual({
+      address: "2001:db8:85a3::",
+      cidr: "2001:db8:85a3::/48",
+    });
+    expect(truncateIp("2001:db8::1")?.address).toBe("2001:db8:0::");
+  });
+
+  it("should treat IPv4-mapped IPv6 addresses as IPv4", () => {
+    expect(truncateIp("::ffff:198.51.100.7")?.address).toBe("198.51.100.0");
+  });
+
+  it("should return null for invalid input", () => {
+    expect(truncateIp("not-an-ip")).toBeNull();
+    expect(truncateIp("300.1.1.1")).toBeNull();
+    expect(truncateIp("1::2::3")).toBeNull();
+  });
+});
+
+describe("IpAnonymizer", () => {
+  it("should pass the IP through in full mode", async () => {
+    expect(await new IpAnonymizer("full").apply("203.0.113.42")).toEqual({ clientIp: "203.0.113.42" });
+  });
+
+  it("should send no IP data in none mode", async () => {
+    expect(await new IpAnonymizer("none").apply("203.0.113.42")).toEqual({});
+  });
+
+  it("should send the network address in truncate mode", async () => {
+    expect(await new IpAnonymizer("truncate").apply("203.0.113.42")).toEqual({ clientIp: "203.0.113.0" });
+    expect(await new IpAnonymizer("truncate").apply("garbage")).toEqual({});
+  });
+
+  it("should send a salted hash and the network in hash mode", async () => {
+    const fields = await new IpAnonymizer("hash", "secret").apply("203.0.113.42");
+
+    expect(fields.clientIp).toBeUndefined();
+    expect(fields.clientIpHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(fields.clientIpNetwork).toBe("203.0.113.0/24");
+  });
+
+  it("should keep hashes stable within a day and rotate them daily", async () => {
+    const anonymizer = new IpAnonymizer("hash", "secret");
+    const morning = new Date("2026-03-01T08:00:00Z");
+    const evening = new Date("2026-03-01T22:00:00Z");
+    const nextDay = new Date("2026-03-02T08:00:00Z");
+
+    const first = await anonymizer.hash("203.0.113.42", morning);
+
+    expect(await anonymizer.hash("203.0.113.42", evening)).toBe(first);
+    expect(await anonymizer.hash("203.0.113.42", nextDay)).not.toBe(first);
+    expect(await new IpAnonymizer("hash", "other").hash("203.0.113.42", morning)).not.toBe(first);
+  });
+
+  it("should keep the full IP for verified bots", async () => {
+    const fields = await new IpAnonymizer("hash", "secret").apply("66.249.66.1", true);
+
+    expect(fields).toEqual({ clientIp: "66.249.66.1" });
+  });
+
+  it("should require a secret in hash mode", () => {
+    expect(() => new IpAnonymizer("hash")).toThrow("ipHashSecret is required");
+  });
+});
+
+describe("BotMon ipHandling", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  it("should anonymize the client IP on tracked events", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({
+      transports: [memory],
+      batchSize: 1,
+      ipHandling: "hash",
+      ipHashSecret: "secret",
+    });
+    const pending: Promise<unknown>[] = [];
+
+    sdk.track({ waitUntil: (p: Promise<unknown>) => pending.push(p) }, {
+      request: new Request("https://example.com/", { headers: { "CF-Connecting-IP": "203.0.113.42" } }),
+    });
+    await Promise.all(pending);
+
+    const [event] = memory.events;
+    expect(event.clientIp).toBeUndefined();
+    expect(event.clientIpNetwork).toBe("203.0.113.0/24");
+    expect(event.clientIpHash).toHaveLength(64);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  MemoryRateLimitStore,
+  DurableObjectRateLimitStore,
+  RateLimiterDurableObject,
+  BindingRateLimitStore,
+  consumeToken,
+} from "../../src/rate-limit";
+
+const policy = { limit: 2, period: 10 };
+
+/** Minimal in-memory stand-in for Durable Object storage */
+function createFakeStorage() {
+  const data = new Map<string, unknown>();
+  return {
+    data,
+    get: async (key: string) => data.get(key),
+    put: async (key: string, value: unknown) => { data.set(key, value); },
+  };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("consumeToken", () => {
+  it("should allow a full burst, then refill at limit / period", () => {
+    let state = consumeToken(undefined, policy, 0).state;
+    const second = consumeToken(state, policy, 0);
+    expect(second.result).toEqual({ allowed: true, remaining: 0, retryAfter: 0 });
+
+    const denied = consumeToken(second.state, policy, 1000);
+    expect(denied.result).toMatchObject({ allowed: false, retryAfter: 4 });
+
+    // One token every 5 seconds
+    state = denied.state;
+    expect(consumeToken(state, policy, 5000).result.allowed).toBe(true);
+  });
+
+  it("should not refill past the bucket capacity", () => {
+    const { state } = consumeToken(undefined, policy, 0);
+    expect(consumeToken(state, policy, 3_600_000).result.remaining).toBe(1);
+  });
+});
+
+describe("MemoryRateLimitStore", () => {
+  it("should keep separate buckets per key", async () => {
+    vi.useFakeTimers();
+    const store = new MemoryRateLimitStore();
+
+    expect((await store.consume("a", policy)).allowed).toBe(true);
+    expect((await store.consume("a", policy)).allowed).toBe(true);
+    expect((await store.consume("a", policy)).allowed).toBe(false);
+    expect((await store.consume("b", policy)).allowed).toBe(true);
+
+    vi.advanceTimersByTime(5000);
+    expect((await store.consume("a", policy)).allowed).toBe(true);
+  });
+
+  it("should evict the least recently used bucket when full", async () => {
+    const store = new MemoryRateLimitStore(2);
+    await store.consume("a", policy);
+    await store.consume("b", policy);
+    await store.consume("a", policy);
+    await store.consume("c", policy);
+
+    expect(store.size).toBe(2);
+    // "b" was evicted, so it starts with a full bucket again
+    expect((await store.consume("b", policy)).remaining).toBe(1);
+  });
+});
+
+describe("DurableObjectRateLimitStore", () => {
+  it("should consume tokens through one object per key", async () => {
+    const objects = new Map<string, RateLimiterDurableObject>();
+    const namespace = {
+      idFromName: vi.fn((name: string) => name),
+      get: vi.fn((id: string) => {
+        if (!objects.has(id)) {
+          objects.set(id, new RateLimiterDurableObject(
+            { storage: createFakeStorage() } as unknown as DurableObjectState,
+          ));
+        }
+        const object = objects.get(id)!;
+        return { fetch: (url: string, init: RequestInit) => object.fetch(new Request(url, init)) };
+      }),
+    };
+    const store = new DurableObjectRateLimitStore(namespace as unknown as DurableObjectNamespace);
+
+    expect(await store.consume("bot:bytespider", policy)).toEqual({ allowed: true, remaining: 1, retryAfter: 0 });
+    await store.consume("bot:bytespider", policy);
+    expect((await store.consume("bot:bytespider", policy)).allowed).toBe(false);
+    expect((await store.consume("bot:gptbot", policy)).allowed).toBe(true);
+    expect(namespace.idFromName).toHaveBeenCalledWith("bot:bytespider");
+  });
+
+  it("should reject invalid policies", async () => {
+    const object = new RateLimiterDurableObject(
+      { storage: createFakeStorage() } as unknown as DurableObjectState,
+    );
+    const response = await object.fetch(new Request("https://rate-limiter/consume", {
+      method: "POST",
+      body: JSON.stringify({ limit: 0, period: 10 }),
+    }));
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("BindingRateLimitStore", () => {
+  it("should delegate to the binding and use the period for Retry-After", async () => {
+    const binding = { limit: vi.fn().mockResolvedValueOnce({ success: true }).mockResolvedValueOnce({ success: false }) };
+    const store = new BindingRateLimitStore(binding);
+
+    expect(await store.consume("ip:203.0.113.1", policy)).toEqual({ allowed: true, retryAfter: 0 });
+    expect(await store.consume("ip:203.0.113.1", policy)).toEqual({ allowed: false, retryAfter: 10 });
+    expect(binding.limit).toHaveBeenCalledWith({ key: "ip:203.0.113.1" });
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { RetryEngine } from "../src/core/retry-engine";
+import { IngestError } from "../src/core/errors";
 
 describe("RetryEngine", () => {
   beforeEach(() => {
@@ -233,6 +234,110 @@ describe("RetryEngine", () => {
     });
   });
 
+  describe("error classification", () => {
+    it("should not retry non-retryable errors", async () => {
+      const engine = new RetryEngine({
+        retryAttempts: 3,
+        retryBackoffMs: 10,
+        retryMaxBackoffMs: 100,
+      });
+
+      const fn = vi.fn().mockRejectedValue(
+        new IngestError("Unauthorized", { status: 401, retryable: false }),
+      );
+
+      const promise = engine.executeWithRetry(fn).catch((e) => e);
+      await vi.runAllTimersAsync();
+
+      const result = await promise;
+      expect(result).toBeInstanceOf(IngestError);
+      expect((result as IngestError).status).toBe(401);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should retry retryable IngestErrors", async () => {
+      const engine = new RetryEngine({
+        retryAttempts: 2,
+        retryBackoffMs: 10,
+        retryMaxBackoffMs: 100,
+      });
+
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new IngestError("Service Unavailable", { status: 503, retryable: true }))
+        .mockResolvedValue("success");
+
+      const promise = engine.executeWithRetry(fn);
+      await vi.runAllTimersAsync();
+
+      expect(await promise).toBe("success");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should honor Retry-After delays", async () => {
+      const engine = new RetryEngine({
+        retryAttempts: 1,
+        retryBackoffMs: 10,
+        retryMaxBackoffMs: 100,
+      });
+
+      const fn = vi.fn()
+        .mockRejectedValueOnce(new IngestError("Too Many Requests", {
+          status: 429,
+          retryable: true,
+          retryAfterMs: 5000,
+        }))
+        .mockResolvedValue("success");
+
+      const promise = engine.executeWithRetry(fn);
+
+      await vi.advanceTimersByTimeAsync(4999);
+      expect(fn).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(await promise).toBe("success");
+      expect(fn).toHaveBeenCalledTimes(2);
+    });
+
+    it("should stop retrying when the next delay would exceed the deadline", async () => {
+      const engine = new RetryEngine({
+        retryAttempts: 5,
+        retryBackoffMs: 10,
+        retryMaxBackoffMs: 100,
+        retryDeadlineMs: 1000,
+      });
+
+      const fn = vi.fn().mockRejectedValue(new IngestError("Too Many Requests", {
+        status: 429,
+        retryable: true,
+        retryAfterMs: 2000,
+      }));
+
+      const promise = engine.executeWithRetry(fn).catch((e) => e);
+      await vi.runAllTimersAsync();
+
+      const result = await promise;
+      expect((result as IngestError).status).toBe(429);
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it("should keep retrying within the deadline", async () => {
+      const engine = new RetryEngine({
+        retryAttempts: 2,
+        retryBackoffMs: 10,
+        retryMaxBackoffMs: 100,
+        retryDeadlineMs: 10000,
+      });
+
+      const fn = vi.fn().mockRejectedValue(new Error("Failed"));
+
+      const promise = engine.executeWithRetry(fn).catch((e) => e);
+      await vi.runAllTimersAsync();
+
+      await promise;
+      expect(fn).toHaveBeenCalledTimes(3);
+    });
+  });
+
   describe("calculateDelay", () => {
     it("should add jitter to delay", () => {
       const engine = new RetryEngine({
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  MemorySpillStore,
+  KvSpillStore,
+  QueueSpillStore,
+  DurableObjectSpillStore,
+  SpillBufferDurableObject,
+} from "../../src/spill";
+import { BotMon } from "../../src/client/botmon";
+import type { RawRequestEvent } from "../../src/types";
+
+function makeEvent(path: string): RawRequestEvent {
+  return {
+    type: "raw",
+    url: `https://example.com${path}`,
+    hostname: "example.com",
+    method: "GET",
+    path,
+  };
+}
+
+/** Minimal in-memory stand-in for a KV namespace */
+function createFakeKv() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    put: vi.fn(async (key: string, value: string) => { data.set(key, value); }),
+    get: vi.fn(async (key: string) => {
+      const value = data.get(key);
+      return value === undefined ? null : JSON.parse(value);
+    }),
+    delete: vi.fn(async (key: string) => { data.delete(key); }),
+    list: vi.fn(async ({ prefix }: { prefix: string }) => ({
+      keys: [...data.keys()].filter((k) => k.startsWith(prefix)).sort().map((name) => ({ name })),
+      list_complete: true,
+    })),
+  };
+}
+
+/** Minimal in-memory stand-in for Durable Object storage */
+function createFakeStorage() {
+  const data = new Map<string, unknown>();
+  return {
+    put: async (key: string, value: unknown) => { data.set(key, value); },
+    delete: async (keys: string[]) => keys.forEach((k) => data.delete(k)),
+    list: async ({ prefix, limit }: { prefix: string; limit: number }) =>
+      new Map([...data.entries()].filter(([k]) => k.startsWith(prefix)).sort().slice(0, limit)),
+  };
+}
+
+describe("MemorySpillStore", () => {
+  it("should peek spilled batches oldest first and delete them on ack", async () => {
+    const store = new MemorySpillStore();
+    await store.put([makeEvent("/a"), makeEvent("/b")]);
+    await store.put([makeEvent("/c")]);
+
+    const [first] = await store.peek(2);
+    expect(first.events.map((e) => e.path)).toEqual(["/a", "/b"]);
+    expect(store.size).toBe(3);
+
+    await store.ack([first.key]);
+    expect(store.size).toBe(1);
+  });
+});
+
+describe("KvSpillStore", () => {
+  it("should store each batch under a prefixed key with a TTL", async () => {
+    const kv = createFakeKv();
+    const store = new KvSpillStore(kv as unknown as KVNamespace, { ttlSeconds: 60 });
+
+    await store.put([makeEvent("/a")]);
+
+    const [key, , options] = kv.put.mock.calls[0] as unknown as [string, string, { expirationTtl: number }];
+    expect(key.startsWith("botmon:spill:")).toBe(true);
+    expect(options.expirationTtl).toBe(60);
+  });
+
+  it("should peek batches oldest first and delete them only on ack", async () => {
+    const kv = createFakeKv();
+    const store = new KvSpillStore(kv as unknown as KVNamespace);
+
+    const now = vi.spyOn(Date, "now");
+    now.mockReturnValue(1000);
+    await store.put([makeEvent("/a"), makeEvent("/b")]);
+    now.mockReturnValue(2000);
+    await store.put([makeEvent("/c")]);
+    now.mockRestore();
+
+    const first = await store.peek(1);
+    expect(first.flatMap((batch) => batch.events).map((e) => e.path)).toEqual(["/a", "/b"]);
+    expect(kv.data.size).toBe(2);
+
+    await store.ack(first.map((batch) => batch.key));
+    expect(kv.data.size).toBe(1);
+
+    const rest = await store.peek(10);
+    expect(rest.flatMap((batch) => batch.events).map((e) => e.path)).toEqual(["/c"]);
+  });
+});
+
+describe("QueueSpillStore", () => {
+  it("should send one message per event in batches of 100", async () => {
+    const queue = { send: vi.fn(), sendBatch: vi.fn().mockResolvedValue(undefined) };
+    const store = new QueueSpillStore(queue as unknown as Queue<RawRequestEvent>);
+
+    await store.put(Array.from({ length: 150 }, (_, i) => makeEvent(`/${i}`)));
+
+    expect(queue.sendBatch).toHaveBeenCalledTimes(2);
+    expect(queue.sendBatch.mock.calls[0][0]).toHaveLength(100);
+    expect(queue.sendBatch.mock.calls[1][0][0].body.path).toBe("/100");
+  });
+});
+
+describe("DurableObjectSpillStore", () => {
+  it("should put, peek and ack events through the buffer object", async () => {
+    const buffer = new SpillBufferDurableObject(
+      { storage: createFakeStorage() } as unknown as DurableObjectState,
+    );
+    const namespace = {
+      idFromName: vi.fn().mockReturnValue("id"),
+      get: vi.fn().mockReturnValue({
+        fetch: (url: string, init: RequestInit) => buffer.fetch(new Request(url, init)),
+      }),
+    };
+    const store = new DurableObjectSpillStore(namespace as unknown as DurableObjectNamespace);
+
+    await store.put([makeEvent("/a")]);
+    await store.put([makeEvent("/b")]);
+
+    expect(namespace.idFromName).toHaveBeenCalledWith("botmon-spill");
+    const batches = await store.peek(10);
+    expect(batches.flatMap((batch) => batch.events).map((e) => e.path)).toEqual(["/a", "/b"]);
+    expect(await store.peek(10)).toHaveLength(2);
+
+    await store.ack(batches.map((batch) => batch.key));
+    expect(await store.peek(10)).toEqual([]);
+  });
+});
+
+describe("BotMon spill and drain", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    BotMon.init().dispose();
+    vi.unstubAllGlobals();
+  });
+
+  function initSdk(spillStore: MemorySpillStore) {
+    return BotMon.init({
+      apiKey: "test-key",
+      retryAttempts: 0,
+      compression: "none",
+      spillStore,
+      onError: () => { /* noop */ },
+    });
+  }
+
+  it("should spill events that fail with a retryable error and drain them later", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+
+    mockFetch.mockResolvedValue(new Response("", { status: 503 }));
+    const results = await (sdk as any).sendBatch([makeEvent("/a"), makeEvent("/b")]);
+
+    expect(results.every((r: { spilled: boolean }) => r.spilled)).toBe(true);
+    expect(spillStore.size).toBe(2);
+
+    mockFetch.mockResolvedValue(Response.json({ success: true }));
+    const drained = await sdk.drain();
+
+    expect(drained).toEqual({ taken: 2, delivered: 2, failed: 0 });
+    expect(spillStore.size).toBe(0);
+  });
+
+  it("should keep spilled events when the drain fails", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+    await spillStore.put([makeEvent("/a"), makeEvent("/b")]);
+
+    mockFetch.mockResolvedValue(new Response("", { status: 503 }));
+    const drained = await sdk.drain();
+
+    expect(drained).toEqual({ taken: 2, delivered: 0, failed: 2 });
+    expect(spillStore.size).toBe(2);
+  });
+
+  it("should keep only the undelivered events of a partly delivered batch", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+    await spillStore.put([makeEvent("/a"), makeEvent("/b")]);
+
+    mockFetch.mockResolvedValue(Response.json({
+      success: false,
+      results: [{ success: true }, { success: false, error: "overloaded" }],
+    }));
+    await sdk.drain();
+
+    const batches = await spillStore.peek(10);
+    expect(batches.flatMap((batch) => batch.events).map((e) => e.path)).toEqual(["/b"]);
+  });
+
+  it("should spill events a batch response reports as failed", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+
+    mockFetch.mockResolvedValue(Response.json({
+      success: false,
+      results: [{ success: true }, { success: false, error: "overloaded" }],
+    }));
+    const results = await (sdk as any).sendBatch([makeEvent("/a"), makeEvent("/b")]);
+
+    expect(results[0].spilled).toBeUndefined();
+    expect(results[1].spilled).toBe(true);
+    expect((await spillStore.peek(10))[0].events.map((e) => e.path)).toEqual(["/b"]);
+  });
+
+  it("should not spill events rejected as non-retryable", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+
+    mockFetch.mockResolvedValue(Response.json({ success: false, error: "Invalid" }, { status: 400 }));
+    await (sdk as any).sendBatch([makeEvent("/a")]);
+
+    expect(spillStore.size).toBe(0);
+  });
+
+  it("should not re-spill events passed to redeliver()", async () => {
+    const spillStore = new MemorySpillStore();
+    const sdk = initSdk(spillStore);
+
+    mockFetch.mockResolvedValue(new Response("", { status: 503 }));
+    const results = await sdk.redeliver([makeEvent("/a")]);
+
+    expect(results[0].success).toBe(false);
+    expect(spillStore.size).toBe(0);
+  });
+});
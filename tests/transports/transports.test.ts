@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  HttpTransport,
+  QueueTransport,
+  AnalyticsEngineTransport,
+  MemoryTransport,
+} from "../../src/transports";
+import { BotMon } from "../../src/client/botmon";
+import type { FlushResult, RawRequestEvent, Transport } from "../../src/types";
+
+function makeEvent(path: string, extra: Partial<RawRequestEvent> = {}): RawRequestEvent {
+  return {
+    type: "raw",
+    url: `https://example.com${path}`,
+    hostname: "example.com",
+    method: "GET",
+    path,
+    ...extra,
+  };
+}
+
+const httpConfig = {
+  apiKey: "key",
+  ingestUrl: "https://ingest.test/ingest",
+  retryAttempts: 0,
+  retryBackoffMs: 1,
+  retryMaxBackoffMs: 1,
+};
+
+describe("HttpTransport", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should reject non-HTTPS ingest URLs", () => {
+    expect(() => new HttpTransport({ ...httpConfig, ingestUrl: "http://ingest.test" }))
+      .toThrow("ingestUrl must use HTTPS");
+  });
+
+  it("should send a single event to the ingest endpoint", async () => {
+    mockFetch.mockResolvedValue(Response.json({ success: true, eventId: "evt_1" }));
+    const transport = new HttpTransport(httpConfig);
+
+    const result = await transport.send(makeEvent("/a"));
+
+    expect(result).toEqual({ success: true, eventId: "evt_1" });
+    expect(mockFetch.mock.calls[0][0]).toBe("https://ingest.test/ingest");
+  });
+
+  it("should return failed results instead of throwing", async () => {
+    mockFetch.mockResolvedValue(new Response("", { status: 503 }));
+    const transport = new HttpTransport({ ...httpConfig, compression: "none" });
+
+    const results = await transport.sendBatch([makeEvent("/a"), makeEvent("/b")]);
+
+    expect(results).toHaveLength(2);
+    expect(results.every((r) => !r.success && !r.spilled)).toBe(true);
+  });
+});
+
+describe("QueueTransport", () => {
+  it("should send each event as a JSON message in batches of 100", async () => {
+    const queue = { send: vi.fn(), sendBatch: vi.fn().mockResolvedValue(undefined) };
+    const transport = new QueueTransport(queue as unknown as Queue<RawRequestEvent>);
+
+    const results = await transport.sendBatch(Array.from({ length: 150 }, (_, i) => makeEvent(`/${i}`)));
+
+    expect(results).toHaveLength(150);
+    expect(results.every((r) => r.success)).toBe(true);
+    expect(queue.sendBatch).toHaveBeenCalledTimes(2);
+    expect(queue.sendBatch.mock.calls[1][0][0]).toEqual({
+      body: expect.objectContaining({ path: "/100" }),
+      contentType: "json",
+    });
+  });
+
+  it("should report a failed chunk without failing the others", async () => {
+    const queue = {
+      send: vi.fn(),
+      sendBatch: vi.fn()
+        .mockResolvedValueOnce(undefined)
+        .mockRejectedValueOnce(new Error("Queue full")),
+    };
+    const transport = new QueueTransport(queue as unknown as Queue<RawRequestEvent>);
+
+    const results = await transport.sendBatch(Array.from({ length: 101 }, (_, i) => makeEvent(`/${i}`)));
+
+    expect(results[0].success).toBe(true);
+    expect(results[100]).toEqual({ success: false, error: "Queue full" });
+  });
+});
+
+describe("AnalyticsEngineTransport", () => {
+  it("should write one data point per event using the default layout", async () => {
+    const dataset = { writeDataPoint: vi.fn() };
+    const transport = new AnalyticsEngineTransport(dataset);
+
+    await transport.sendBatch([
+      makeEvent("/a", { statusCode: 200, responseTimeMs: 12, userAgent: "GPTBot/1.0" }),
+    ]);
+
+    expect(dataset.writeDataPoint).toHaveBeenCalledWith({
+      indexes: ["example.com"],
+      blobs: ["example.com", "/a", "GET", "GPTBot/1.0", null, null, null, null, null, null, null],
+      doubles: [200, 12, -1, 0],
+    });
+  });
+
+  it("should use a custom data point mapping", async () => {
+    const dataset = { writeDataPoint: vi.fn() };
+    const transport = new AnalyticsEngineTransport(dataset, {
+      toDataPoint: (event) => ({ blobs: [event.path] }),
+    });
+
+    const result = await transport.send(makeEvent("/a"));
+
+    expect(result.success).toBe(true);
+    expect(dataset.writeDataPoint).toHaveBeenCalledWith({ blobs: ["/a"] });
+  });
+});
+
+describe("BotMon transports", () => {
+  const mockFetch = vi.fn();
+
+  beforeEach(() => {
+    mockFetch.mockReset();
+    vi.stubGlobal("fetch", mockFetch);
+  });
+
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it("should tee batches to the ingest API and additional transports", async () => {
+    mockFetch.mockResolvedValue(Response.json({ success: true }));
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({ apiKey: "test-key", transports: [memory] });
+
+    const results = await (sdk as any).sendBatch([makeEvent("/a")]);
+
+    expect(results).toEqual([{ success: true }]);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(memory.events.map((e) => e.path)).toEqual(["/a"]);
+  });
+
+  it("should not require an apiKey when custom transports are configured", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({ transports: [memory] });
+
+    await (sdk as any).sendBatch([makeEvent("/a")]);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(memory.events).toHaveLength(1);
+    expect(await sdk.drain()).toEqual({ taken: 0, delivered: 0, failed: 0 });
+  });
+
+  it("should still require an apiKey without custom transports", () => {
+    expect(() => BotMon.init({})).toThrow("apiKey is required");
+  });
+
+  it("should report additional transport failures via onError only", async () => {
+    mockFetch.mockResolvedValue(Response.json({ success: true }));
+    const onError = vi.fn();
+    const failing: Transport = {
+      name: "warehouse",
+      send: vi.fn(),
+      sendBatch: vi.fn().mockRejectedValue(new Error("unavailable")),
+    };
+    const sdk = BotMon.init({ apiKey: "test-key", transports: [failing], onError });
+
+    const results: FlushResult[] = await (sdk as any).sendBatch([makeEvent("/a")]);
+
+    expect(results).toEqual([{ success: true }]);
+    expect(onError.mock.calls[0][0].message).toBe(
+      "BotMon warehouse transport failed for 1 of 1 events: unavailable",
+    );
+  });
+
+  it("should flush and close transports", async () => {
+    const transport: Transport = {
+      name: "buffered",
+      send: vi.fn(),
+      sendBatch: vi.fn(),
+      flush: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn().mockResolvedValue(undefined),
+    };
+    const sdk = BotMon.init({ transports: [transport] });
+
+    await sdk.flush();
+    sdk.dispose();
+
+    expect(transport.flush).toHaveBeenCalledTimes(1);
+    expect(transport.close).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  createProviderAdapter,
+  AkamaiAdapter,
+  CloudflareAdapter,
+  CloudFrontAdapter,
+  FastlyAdapter,
+  GenericAdapter,
+  HeaderMappingAdapter,
+  type ProviderAdapter,
+  type ProviderBotData,
+} from "../../src/types/provider.types";
+import { BotMon } from "../../src/client/botmon";
+import { MemoryTransport } from "../../src/transports";
+import fastlyFixtures from "../fixtures/providers/fastly.json";
+import akamaiFixtures from "../fixtures/providers/akamai.json";
+import cloudfrontFixtures from "../fixtures/providers/cloudfront.json";
+import cloudflareCf from "../fixtures/providers/cloudflare.json";
+
+interface ProviderFixture {
+  name: string;
+  headers: Record<string, string>;
+  expected: ProviderBotData | null;
+}
+
+const suites = [
+  { provider: "fastly", fixtures: fastlyFixtures },
+  { provider: "akamai", fixtures: akamaiFixtures },
+  { provider: "cloudfront", fixtures: cloudfrontFixtures },
+] as const;
+
+for (const { provider, fixtures } of suites) {
+  describe(`${provider} adapter`, () => {
+    it.each(fixtures as ProviderFixture[])("should extract $name", ({ headers, expected }) => {
+      const request = new Request("https://example.com/", { headers });
+
+      expect(createProviderAdapter(provider).extractBotData(request)).toEqual(expected);
+    });
+  });
+}
+
+function withCf(request: Request, cf: unknown): Request {
+  Object.defineProperty(request, "cf", { value: cf });
+  return request;
+}
+
+describe("cloudflare adapter", () => {
+  it("should extract the full botManagement object", () => {
+    const request = withCf(new Request("https://example.com/"), cloudflareCf);
+
+    expect(new CloudflareAdapter().extractBotData(request)).toEqual({
+      provider: "cloudflare",
+      score: 1,
+      verified: true,
+      classification: "Search Engine Crawler",
+      ja3Hash: "25b4882c2bcb50cd6b469ff28c596742",
+      ja4: "t13d1516h2_8daaf6152771_02713d6af862",
+      detectionIds: [33554817, 33554818],
+      staticResource: false,
+      verifiedBotCategory: "Search Engine Crawler",
+      corporateProxy: false,
+    });
+  });
+
+  it("should omit signals missing on lower plans", () => {
+    const request = withCf(new Request("https://example.com/"), {
+      botManagement: { score: 45, verifiedBot: false, detectionIds: [] },
+    });
+
+    expect(new CloudflareAdapter().extractBotData(request)).toEqual({
+      provider: "cloudflare",
+      score: 45,
+      verified: false,
+    });
+  });
+});
+
+describe("createProviderAdapter", () => {
+  it("should map each provider to its adapter", () => {
+    expect(createProviderAdapter("fastly")).toBeInstanceOf(FastlyAdapter);
+    expect(createProviderAdapter("akamai")).toBeInstanceOf(AkamaiAdapter);
+    expect(createProviderAdapter("cloudfront")).toBeInstanceOf(CloudFrontAdapter);
+    expect(createProviderAdapter("none")).toBeInstanceOf(GenericAdapter);
+  });
+
+  it("should ignore malformed scores", () => {
+    const request = new Request("https://example.com/", {
+      headers: { "Fastly-Bot-Score": "high", "Fastly-Bot-Name": "curl" },
+    });
+
+    expect(new FastlyAdapter().extractBotData(request)).toEqual({ provider: "fastly", botName: "curl" });
+  });
+});
+
+describe("BotMon Cloudflare signals", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  it("should record network and bot management fields on events", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({ transports: [memory], batchSize: 1, botDetectionProvider: "cloudflare" });
+    const pending: Promise<unknown>[] = [];
+
+    sdk.track({ waitUntil: (p: Promise<unknown>) => pending.push(p) }, {
+      request: withCf(new Request("https://example.com/"), cloudflareCf),
+    });
+    await Promise.all(pending);
+
+    const [event] = memory.events;
+    expect(event).toMatchObject({
+      clientCountry: "US",
+      clientAsn: 15169,
+      clientAsOrganization: "Google Cloud",
+      clientCity: "Mountain View",
+      colo: "SJC",
+      tlsVersion: "TLSv1.3",
+      httpProtocol: "HTTP/2",
+    });
+    expect(event.providerBotData?.ja4).toBe("t13d1516h2_8daaf6152771_02713d6af862");
+  });
+});
+
+describe("custom adapters", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  it("should use a custom adapter instance as-is", () => {
+    const adapter: ProviderAdapter = { extractBotData: () => null };
+
+    expect(createProviderAdapter(adapter)).toBe(adapter);
+  });
+
+  it("should read signals from a header mapping", () => {
+    const adapter = createProviderAdapter({
+      provider: "acme-waf",
+      scoreHeader: "X-Waf-Score",
+      verifiedHeader: "X-Waf-Verified",
+      botNameHeader: "X-Waf-Bot",
+      scale: 1,
+      invertScore: true,
+    });
+    const request = new Request("https://example.com/", {
+      headers: { "X-Waf-Score": "0.9", "X-Waf-Verified": "no", "X-Waf-Bot": "scrapy" },
+    });
+
+    expect(adapter).toBeInstanceOf(HeaderMappingAdapter);
+    expect(adapter.extractBotData(request)).toEqual({
+      provider: "acme-waf",
+      score: 10,
+      verified: false,
+      botName: "scrapy",
+    });
+    expect(adapter.extractBotData(new Request("https://example.com/"))).toBeNull();
+  });
+
+  it("should reject an invalid scale", () => {
+    expect(() => new HeaderMappingAdapter({ scoreHeader: "X-Score", scale: 0 })).toThrow("scale");
+  });
+
+  it("should record custom adapter data on tracked events", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({
+      transports: [memory],
+      batchSize: 1,
+      botDetectionProvider: { scoreHeader: "X-Waf-Score" },
+    });
+    const pending: Promise<unknown>[] = [];
+
+    sdk.track({ waitUntil: (p: Promise<unknown>) => pending.push(p) }, {
+      request: new Request("https://example.com/", { headers: { "X-Waf-Score": "12" } }),
+    });
+    await Promise.all(pending);
+
+    expect(memory.events[0].providerBotData).toEqual({ provider: "custom", score: 12 });
+  });
+
+  it("should report adapter errors without dropping the event", async () => {
+    const memory = new MemoryTransport();
+    const onError = vi.fn();
+    const sdk = BotMon.init({
+      transports: [memory],
+      batchSize: 1,
+      onError,
+      botDetectionProvider: {
+        extractBotData: () => {
+          throw new Error("boom");
+        },
+      },
+    });
+    const pending: Promise<unknown>[] = [];
+
+    sdk.track({ waitUntil: (p: Promise<unknown>) => pending.push(p) }, {
+      request: new Request("https://example.com/"),
+    });
+    await Promise.all(pending);
+
+    expect(memory.events).toHaveLength(1);
+    expect(memory.events[0].providerBotData).toBeUndefined();
+    expect(onError.mock.calls[0][0].message).toBe("BotMon provider adapter failed: boom");
+  });
+});
@@ -0,0 +1,285 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { BotVerifier } from "../../src/verification/bot-verifier";
+import { BotMon } from "../../src/client/botmon";
+import { MemoryTransport } from "../../src/transports";
+import type { DnsResolver } from "../../src/types/verification.types";
+
+const GOOGLEBOT_UA = "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+const GPTBOT_UA = "Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; GPTBot/1.2; +https://openai.com/gptbot)";
+
+function makeRequest(userAgent: string, ip?: string): Request {
+  const headers: Record<string, string> = { "User-Agent": userAgent };
+  if (ip) headers["CF-Connecting-IP"] = ip;
+  return new Request("https://example.com/", { headers });
+}
+
+/**
+ * Verify, then wait for any background range load it started
+ */
+async function verifyAndLoad(verifier: BotVerifier, request: Request) {
+  const loads: Promise<unknown>[] = [];
+  const result = await verifier.verify(request, false, (promise) => loads.push(promise));
+  await Promise.all(loads);
+  return result;
+}
+
+/**
+ * Stub resolver backed by static PTR and address records
+ */
+function stubResolver(
+  ptr: Record<string, string[]>,
+  addresses: Record<string, string[]>,
+): DnsResolver & { resolvePtr: ReturnType<typeof vi.fn> } {
+  return {
+    resolvePtr: vi.fn(async (ip: string) => ptr[ip] ?? []),
+    resolveAddresses: vi.fn(async (hostname: string) => addresses[hostname] ?? []),
+  };
+}
+
+describe("BotVerifier", () => {
+  it("should verify crawlers from published ranges", async () => {
+    const verifier = new BotVerifier();
+
+    expect(await verifier.verify(makeRequest(GOOGLEBOT_UA, "66.249.66.1"))).toEqual({
+      status: "verified",
+      operator: "google",
+      method: "ip-range",
+    });
+    expect((await verifier.verify(makeRequest(GPTBOT_UA, "20.171.206.10"))).status).toBe("verified");
+    expect((await verifier.verify(makeRequest(GOOGLEBOT_UA, "2001:4860:4801:10::1"))).status).toBe("verified");
+  });
+
+  it("should flag crawler claims from outside the published ranges as spoofed", async () => {
+    const fetcher = vi.fn(async () => Response.json({ prefixes: [{ ipv4Prefix: "198.51.100.0/24" }] }));
+    vi.stubGlobal("fetch", fetcher);
+    const verifier = new BotVerifier();
+
+    // Unknown until the published lists have loaded
+    expect((await verifyAndLoad(verifier, makeRequest(GPTBOT_UA, "203.0.113.42"))).status).toBe("unknown");
+    expect(await verifier.verify(makeRequest(GPTBOT_UA, "203.0.113.42"))).toEqual({
+      status: "spoofed",
+      operator: "openai",
+      method: "ip-range",
+    });
+    // Loaded lists replace the bundled snapshot
+    expect((await verifier.verify(makeRequest(GPTBOT_UA, "198.51.100.7"))).status).toBe("verified");
+    // and are cached for rangesTtl
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    vi.unstubAllGlobals();
+  });
+
+  it("should not call claims spoofed from the bundled snapshot alone", async () => {
+    const fetcher = vi.fn(async () => new Response("Unavailable", { status: 503 }));
+    vi.stubGlobal("fetch", fetcher);
+    const verifier = new BotVerifier();
+
+    expect(await verifyAndLoad(verifier, makeRequest(GPTBOT_UA, "203.0.113.42"))).toEqual({
+      status: "unknown",
+      operator: "openai",
+    });
+    // Failed loads aren't retried on every request
+    expect((await verifyAndLoad(verifier, makeRequest(GPTBOT_UA, "203.0.113.43"))).status).toBe("unknown");
+    expect(fetcher).toHaveBeenCalledTimes(3);
+
+    const offline = new BotVerifier({ refreshRanges: false });
+    expect((await offline.verify(makeRequest(GPTBOT_UA, "203.0.113.42"))).status).toBe("unknown");
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    vi.unstubAllGlobals();
+  });
+
+  it("should reload published lists once they are older than rangesTtl", async () => {
+    const fetcher = vi.fn(async () => Response.json({ prefixes: [{ ipv4Prefix: "198.51.100.0/24" }] }));
+    vi.stubGlobal("fetch", fetcher);
+    const now = vi.spyOn(Date, "now").mockReturnValue(1_000_000);
+    const verifier = new BotVerifier({
+      rangesTtl: 60,
+      sources: { acme: { userAgents: ["AcmeBot"], rangesUrls: ["https://acme.example/bot.json"] } },
+    });
+
+    await verifyAndLoad(verifier, makeRequest("AcmeBot/1", "203.0.113.42"));
+    expect((await verifier.verify(makeRequest("AcmeBot/1", "203.0.113.42"))).status).toBe("spoofed");
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    // Stale lists stay in force while they are reloaded
+    now.mockReturnValue(1_000_000 + 61_000);
+    expect((await verifyAndLoad(verifier, makeRequest("AcmeBot/1", "203.0.113.42"))).status).toBe("spoofed");
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+    vi.unstubAllGlobals();
+  });
+
+  it("should not wait for published lists on the request path", async () => {
+    const fetcher = vi.fn(() => new Promise<Response>(() => { /* never settles */ }));
+    vi.stubGlobal("fetch", fetcher);
+    const waitUntil = vi.fn();
+    const verifier = new BotVerifier();
+
+    const result = await verifier.verify(makeRequest(GPTBOT_UA, "203.0.113.42"), false, waitUntil);
+
+    expect(result).toEqual({ status: "unknown", operator: "openai" });
+    expect(fetcher).toHaveBeenCalled();
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    vi.unstubAllGlobals();
+  });
+
+  it("should return unknown for browsers and operators without ranges", async () => {
+    const verifier = new BotVerifier();
+
+    expect(await verifier.verify(makeRequest("Mozilla/5.0 Chrome/120", "203.0.113.42"))).toEqual({ status: "unknown" });
+    // Tokens match at word boundaries, like the bot catalog
+    expect(await verifier.verify(makeRequest("NotGPTBot/1.0", "203.0.113.42"))).toEqual({ status: "unknown" });
+    expect(await verifier.verify(makeRequest("ClaudeBot/1.0", "203.0.113.42"))).toEqual({
+      status: "unknown",
+      operator: "anthropic",
+    });
+    expect((await verifier.verify(makeRequest(GPTBOT_UA))).status).toBe("unknown");
+  });
+
+  it("should trust the edge provider's verified flag", async () => {
+    const result = await new BotVerifier().verify(makeRequest(GPTBOT_UA, "203.0.113.42"), true);
+
+    expect(result).toEqual({ status: "verified", operator: "openai", method: "provider" });
+  });
+
+  it("should accept custom and updated sources", async () => {
+    const verifier = new BotVerifier({
+      sources: {
+        anthropic: { userAgents: ["ClaudeBot"], ranges: ["198.51.100.0/24"] },
+        acme: { userAgents: ["AcmeBot"], ranges: ["192.0.2.7"] },
+      },
+    });
+
+    expect((await verifier.verify(makeRequest("ClaudeBot/1.0", "198.51.100.9"))).status).toBe("verified");
+    expect((await verifier.verify(makeRequest("AcmeBot/2", "192.0.2.7"))).status).toBe("verified");
+    expect((await verifier.verify(makeRequest("AcmeBot/2", "192.0.2.8"))).status).toBe("spoofed");
+  });
+
+  it("should return unknown when disabled", async () => {
+    const result = await new BotVerifier({ enabled: false }).verify(makeRequest(GPTBOT_UA, "203.0.113.42"));
+
+    expect(result).toEqual({ status: "unknown" });
+  });
+
+  describe("reverse DNS", () => {
+    it("should verify forward-confirmed reverse DNS", async () => {
+      const resolver = stubResolver(
+        { "34.100.182.96": ["google-proxy-34-100-182-96.google.com"] },
+        { "google-proxy-34-100-182-96.google.com": ["34.100.182.96"] },
+      );
+      const verifier = new BotVerifier({ reverseDns: true, resolver });
+
+      expect(await verifier.verify(makeRequest(GOOGLEBOT_UA, "34.100.182.96"))).toEqual({
+        status: "verified",
+        operator: "google",
+        method: "reverse-dns",
+      });
+    });
+
+    it("should reject PTR records outside the operator's domains", async () => {
+      const resolver = stubResolver(
+        { "203.0.113.42": ["crawl-66-249-66-1.googlebot.com.evil.example"] },
+        { "crawl-66-249-66-1.googlebot.com.evil.example": ["203.0.113.42"] },
+      );
+      const verifier = new BotVerifier({ reverseDns: true, resolver });
+
+      expect((await verifier.verify(makeRequest(GOOGLEBOT_UA, "203.0.113.42"))).status).toBe("spoofed");
+    });
+
+    it("should not verify Google Cloud VM hostnames", async () => {
+      const resolver = stubResolver(
+        { "34.100.182.96": ["96.182.100.34.bc.googleusercontent.com"] },
+        { "96.182.100.34.bc.googleusercontent.com": ["34.100.182.96"] },
+      );
+      const verifier = new BotVerifier({ reverseDns: true, resolver });
+
+      expect((await verifier.verify(makeRequest(GOOGLEBOT_UA, "34.100.182.96"))).status).toBe("spoofed");
+    });
+
+    it("should reject PTR records that don't resolve back to the IP", async () => {
+      const resolver = stubResolver(
+        { "203.0.113.42": ["crawl-66-249-66-1.googlebot.com"] },
+        { "crawl-66-249-66-1.googlebot.com": ["66.249.66.1"] },
+      );
+      const verifier = new BotVerifier({ reverseDns: true, resolver });
+
+      expect((await verifier.verify(makeRequest(GOOGLEBOT_UA, "203.0.113.42"))).status).toBe("spoofed");
+    });
+
+    it("should cache results and treat lookup failures as unknown", async () => {
+      const resolver = stubResolver({}, {});
+      const verifier = new BotVerifier({ reverseDns: true, resolver });
+
+      await verifier.verify(makeRequest(GOOGLEBOT_UA, "203.0.113.42"));
+      await verifier.verify(makeRequest(GOOGLEBOT_UA, "203.0.113.42"));
+      expect(resolver.resolvePtr).toHaveBeenCalledTimes(1);
+
+      resolver.resolvePtr.mockRejectedValue(new Error("timeout"));
+      expect((await verifier.verify(makeRequest(GOOGLEBOT_UA, "203.0.113.43"))).status).toBe("unknown");
+    });
+  });
+
+  describe("refresh", () => {
+    it("should replace ranges from published lists", async () => {
+      const fetcher = vi.fn(async (url: string | URL | Request) =>
+        String(url).includes("gptbot")
+          ? Response.json({ prefixes: [{ ipv4Prefix: "198.51.100.0/24" }] })
+          : new Response("Not Found", { status: 404 }),
+      );
+      const verifier = new BotVerifier({
+        sources: {
+          openai: {
+            userAgents: ["GPTBot"],
+            ranges: ["20.171.206.0/24"],
+            rangesUrls: ["https://openai.com/gptbot.json"],
+          },
+          bing: {
+            userAgents: ["bingbot"],
+            ranges: ["157.55.39.0/24"],
+            rangesUrls: ["https://www.bing.com/toolbox/bingbot.json"],
+          },
+        },
+      });
+
+      const result = await verifier.refresh(fetcher as typeof fetch);
+
+      expect(result.updated).toContain("openai");
+      expect(result.failed).toContain("bing");
+      expect((await verifier.verify(makeRequest(GPTBOT_UA, "198.51.100.1"))).status).toBe("verified");
+      expect((await verifier.verify(makeRequest(GPTBOT_UA, "20.171.206.10"))).status).toBe("spoofed");
+      // Failed refreshes keep the current ranges
+      expect((await verifier.verify(makeRequest("bingbot/2.0", "157.55.39.1"))).status).toBe("verified");
+    });
+  });
+});
+
+describe("BotMon verification", () => {
+  afterEach(() => {
+    BotMon.init({ transports: [new MemoryTransport()] }).dispose();
+  });
+
+  it("should record the verification status on events", async () => {
+    const memory = new MemoryTransport();
+    const sdk = BotMon.init({
+      transports: [memory],
+      batchSize: 1,
+      verification: { sources: { openai: { userAgents: ["GPTBot"], ranges: ["20.171.206.0/24"] } } },
+    });
+    const pending: Promise<unknown>[] = [];
+    const ctx = { waitUntil: (p: Promise<unknown>) => pending.push(p) };
+
+    const statusFor = async (options: Parameters<typeof sdk.track>[1]) => {
+      memory.clear();
+      sdk.track(ctx, options);
+      await Promise.all(pending);
+      return memory.events[0].botVerification;
+    };
+
+    expect(await statusFor({ request: makeRequest(GPTBOT_UA, "203.0.113.42") })).toBe("spoofed");
+    expect(await statusFor({ request: makeRequest(GPTBOT_UA, "20.171.206.10") })).toBe("verified");
+    // The middleware's result is used as-is
+    expect(await statusFor({
+      request: makeRequest(GPTBOT_UA, "203.0.113.42"),
+      botVerification: "verified",
+    })).toBe("verified");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+import { DohResolver } from "../../src/verification/doh-resolver";
+
+function dohResponse(answers: Array<{ type: number; data: string }>): Response {
+  return Response.json({ Status: 0, Answer: answers });
+}
+
+describe("DohResolver", () => {
+  it("should query PTR records for the reverse name", async () => {
+    const fetcher = vi.fn().mockResolvedValue(
+      dohResponse([{ type: 12, data: "crawl-66-249-66-1.googlebot.com." }]),
+    );
+    const resolver = new DohResolver("https://dns.example/dns-query", fetcher);
+
+    expect(await resolver.resolvePtr("66.249.66.1")).toEqual(["crawl-66-249-66-1.googlebot.com"]);
+    expect(fetcher).toHaveBeenCalledWith(
+      "https://dns.example/dns-query?name=1.66.249.66.in-addr.arpa&type=PTR",
+      { headers: { Accept: "application/dns-json" } },
+    );
+  });
+
+  it("should build ip6.arpa names for IPv6", async () => {
+    const fetcher = vi.fn().mockResolvedValue(dohResponse([]));
+    const resolver = new DohResolver(undefined, fetcher);
+
+    await resolver.resolvePtr("2001:db8::1");
+
+    const name = new URL(fetcher.mock.calls[0][0]).searchParams.get("name");
+    expect(name).toBe(`1.${"0.".repeat(23)}8.b.d.0.1.0.0.2.ip6.arpa`);
+  });
+
+  it("should merge A and AAAA answers, ignoring CNAMEs", async () => {
+    const fetcher = vi.fn(async (url: string) =>
+      url.endsWith("type=A")
+        ? dohResponse([{ type: 5, data: "alias.example." }, { type: 1, data: "66.249.66.1" }])
+        : dohResponse([{ type: 28, data: "2001:4860:4801:10::1" }]),
+    );
+    const resolver = new DohResolver(undefined, fetcher as unknown as typeof fetch);
+
+    expect(await resolver.resolveAddresses("crawl.googlebot.com")).toEqual(["66.249.66.1", "2001:4860:4801:10::1"]);
+  });
+
+  it("should throw on HTTP errors", async () => {
+    const resolver = new DohResolver(undefined, vi.fn().mockResolvedValue(new Response("", { status: 503 })));
+
+    await expect(resolver.resolvePtr("66.249.66.1")).rejects.toThrow("HTTP 503");
+  });
+});
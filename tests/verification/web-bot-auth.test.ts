@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeAll } from "vitest";
+import { WebBotAuthVerifier } from "../../src/verification/web-bot-auth";
+import { HttpKeyDirectory, StaticKeyDirectory, jwkThumbprint } from "../../src/verification/key-directory";
+
+const AGENT = "https://agent.example";
+const NOW = 1_767_225_600_000; // 2026-01-01T00:00:00Z
+const CREATED = NOW / 1000 - 10;
+const EXPIRES = NOW / 1000 + 300;
+
+let privateKey: CryptoKey;
+let publicJwk: JsonWebKey;
+let keyId: string;
+
+beforeAll(async () => {
+  const pair = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign", "verify"])) as CryptoKeyPair;
+  privateKey = pair.privateKey;
+  const exported = (await crypto.subtle.exportKey("jwk", pair.publicKey)) as JsonWebKey;
+  publicJwk = { kty: "OKP", crv: "Ed25519", x: exported.x };
+  keyId = await jwkThumbprint(publicJwk);
+});
+
+function toBase64(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)));
+}
+
+/**
+ * Sign a request the way a Web Bot Auth agent would
+ */
+async function signedRequest(
+  url = "https://example.com/page",
+  overrides: { params?: string; signatureAgent?: string; key?: CryptoKey } = {},
+): Promise<Request> {
+  const signatureAgent = overrides.signatureAgent ?? `"${AGENT}"`;
+  const params =
+    overrides.params ??
+    `("@authority" "signature-agent");created=${CREATED};expires=${EXPIRES};keyid="${keyId}";alg="ed25519";nonce="abc";tag="web-bot-auth"`;
+  const base = [
+    `"@authority": ${new URL(url).host}`,
+    `"signature-agent": ${signatureAgent}`,
+    `"@signature-params": ${params}`,
+  ].join("\n");
+  const signature = await crypto.subtle.sign(
+    { name: "Ed25519" },
+    overrides.key ?? privateKey,
+    new TextEncoder().encode(base),
+  );
+
+  return new Request(url, {
+    headers: {
+      "Signature-Agent": signatureAgent,
+      "Signature-Input": `sig1=${params}`,
+      Signature: `sig1=:${toBase64(signature)}:`,
+    },
+  });
+}
+
+function verifier(config = {}) {
+  return new WebBotAuthVerifier({
+    keyDirectory: new StaticKeyDirectory({ [AGENT]: { keys: [publicJwk] } }),
+    trustedAgents: [AGENT],
+    ...config,
+  });
+}
+
+describe("WebBotAuthVerifier", () => {
+  it("should verify a signed request and expose the agent", async () => {
+    const result = await verifier().verify(await signedRequest(), NOW);
+
+    expect(result).toEqual({ status: "verified", signedAgent: { agent: AGENT, keyId } });
+  });
+
+  it("should report unsigned requests", async () => {
+    expect(await verifier().verify(new Request("https://example.com/"), NOW)).toEqual({ status: "unsigned" });
+  });
+
+  it("should reject signatures made for another host", async () => {
+    const request = await signedRequest("https://other.example/page");
+    const replayed = new Request("https://example.com/page", { headers: request.headers });
+
+    expect(await verifier().verify(replayed, NOW)).toMatchObject({
+      status: "invalid",
+      reason: "signature mismatch",
+    });
+  });
+
+  it("should reject expired signatures", async () => {
+    const result = await verifier().verify(await signedRequest(), NOW + 3600_000);
+
+    expect(result).toMatchObject({ status: "invalid", reason: "signature expired or not yet valid" });
+  });
+
+  it("should reject keys missing from the agent's directory", async () => {
+    const other = (await crypto.subtle.generateKey({ name: "Ed25519" }, true, ["sign"])) as CryptoKeyPair;
+
+    const result = await verifier().verify(await signedRequest(undefined, { key: other.privateKey }), NOW);
+    expect(result.status).toBe("invalid");
+
+    const empty = verifier({ keyDirectory: new StaticKeyDirectory({}) });
+    expect(await empty.verify(await signedRequest(), NOW)).toMatchObject({ reason: `unknown key ${keyId}` });
+  });
+
+  it("should skip malformed keys in the agent's directory", async () => {
+    const keyDirectory = {
+      getKeys: async () => [{ kty: "OKP", crv: "Ed25519" }, { kty: "OKP", crv: "Ed25519", x: "AAAA" }, publicJwk],
+    };
+
+    const result = await verifier({ keyDirectory }).verify(await signedRequest(), NOW);
+
+    expect(result.status).toBe("verified");
+  });
+
+  it("should require the web-bot-auth tag and @authority coverage", async () => {
+    const untagged = await signedRequest(undefined, {
+      params: `("@authority" "signature-agent");created=${CREATED};expires=${EXPIRES};keyid="${keyId}"`,
+    });
+    const uncovered = await signedRequest(undefined, {
+      params: `("signature-agent");created=${CREATED};expires=${EXPIRES};keyid="${keyId}";tag="web-bot-auth"`,
+    });
+
+    expect(await verifier().verify(untagged, NOW)).toMatchObject({ reason: "no web-bot-auth signature" });
+    expect(await verifier().verify(uncovered, NOW)).toMatchObject({ reason: "@authority not covered" });
+  });
+
+  it("should support dictionary Signature-Agent headers", async () => {
+    const params =
+      `("@authority" "signature-agent";key="agent1");created=${CREATED};expires=${EXPIRES};keyid="${keyId}";tag="web-bot-auth"`;
+    const signatureAgent = `agent1="${AGENT}"`;
+    const base = [
+      `"@authority": example.com`,
+      `"signature-agent";key="agent1": "${AGENT}"`,
+      `"@signature-params": ${params}`,
+    ].join("\n");
+    const signature = await crypto.subtle.sign({ name: "Ed25519" }, privateKey, new TextEncoder().encode(base));
+    const request = new Request("https://example.com/", {
+      headers: {
+        "Signature-Agent": signatureAgent,
+        "Signature-Input": `sig1=${params}`,
+        Signature: `sig1=:${toBase64(signature)}:`,
+      },
+    });
+
+    expect((await verifier().verify(request, NOW)).status).toBe("verified");
+  });
+
+  it("should reject untrusted agents without looking up their keys", async () => {
+    const keyDirectory = { getKeys: vi.fn(async () => [publicJwk]) };
+    const untrusted = new WebBotAuthVerifier({ keyDirectory });
+
+    const result = await untrusted.verify(await signedRequest(), NOW);
+
+    expect(result).toMatchObject({ status: "invalid", reason: `untrusted agent ${AGENT}` });
+    expect(keyDirectory.getKeys).not.toHaveBeenCalled();
+  });
+
+  it("should attach the operator of trusted agents from the registry", async () => {
+    const result = await verifier({ trustedAgents: { [AGENT]: "OpenAI" } }).verify(await signedRequest(), NOW);
+
+    expect(result.signedAgent).toEqual({ agent: AGENT, keyId, operator: "OpenAI" });
+  });
+});
+
+describe("HttpKeyDirectory", () => {
+  it("should fetch and cache the well-known directory", async () => {
+    const fetcher = vi.fn().mockImplementation(async () =>
+      Response.json({ keys: [publicJwk, { kty: "RSA", n: "x", e: "AQAB" }] }),
+    );
+    const directory = new HttpKeyDirectory(3600, fetcher);
+
+    expect(await directory.getKeys(AGENT)).toEqual([publicJwk]);
+    await directory.getKeys(AGENT);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher.mock.calls[0][0]).toBe(`${AGENT}/.well-known/http-message-signatures-directory`);
+  });
+
+  it("should return no keys when the directory can't be loaded", async () => {
+    const directory = new HttpKeyDirectory(3600, vi.fn().mockRejectedValue(new Error("offline")));
+
+    expect(await directory.getKeys(AGENT)).toEqual([]);
+  });
+
+  it("should retry a failed directory after a minute", async () => {
+    const now = vi.spyOn(Date, "now").mockReturnValue(NOW);
+    const fetcher = vi.fn()
+      .mockResolvedValueOnce(new Response("Unavailable", { status: 503 }))
+      .mockImplementation(async () => Response.json({ keys: [publicJwk] }));
+    const directory = new HttpKeyDirectory(3600, fetcher);
+
+    expect(await directory.getKeys(AGENT)).toEqual([]);
+    await directory.getKeys(AGENT);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    now.mockReturnValue(NOW + 61_000);
+    expect(await directory.getKeys(AGENT)).toEqual([publicJwk]);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    now.mockRestore();
+  });
+});
+
+describe("jwkThumbprint", () => {
+  it("should compute the RFC 8037 example thumbprint", async () => {
+    // RFC 8037 Appendix A.3
+    const thumbprint = await jwkThumbprint({
+      kty: "OKP",
+      crv: "Ed25519",
+      x: "11qYAYKxCrfVS_7TyWQHOg7hcvPapiMlrwIaaPcHURo",
+    });
+
+    expect(thumbprint).toBe("kPrK_qmxVWaYVA9wwBF6Iuo3vVzz7TxHCTwXBygrS4k");
+  });
+});